@@ -70,6 +70,13 @@ describe('adobeAdapter', () => {
       expect(typeof plugin.destroy).toBe('function');
     });
 
+    it('requires analytics consent by default', () => {
+      expect(adobeAdapter().requiresConsent).toEqual(['analytics']);
+      expect(adobeAdapter({ requiresConsent: ['marketing'] }).requiresConsent).toEqual([
+        'marketing',
+      ]);
+    });
+
     it('destroy can be called without error', () => {
       const plugin = adobeAdapter();
       expect(() => plugin.destroy?.()).not.toThrow();
@@ -109,9 +116,9 @@ describe('adobeAdapter', () => {
 
   describe('AppMeasurement mode', () => {
     describe('initialize()', () => {
-      it('warns when window.s is not found', () => {
+      it('warns when window.s is not found and loadTimeout is 0', () => {
         const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
-        const plugin = adobeAdapter();
+        const plugin = adobeAdapter({ loadTimeout: 0 });
         plugin.initialize?.(undefined);
         expect(warnSpy).toHaveBeenCalledWith(
           expect.stringContaining('AppMeasurement (window.s) not found'),
@@ -128,6 +135,76 @@ describe('adobeAdapter', () => {
       });
     });
 
+    describe('loadTimeout', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('waits 5000ms by default', async () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const plugin = adobeAdapter();
+        const initialized = plugin.initialize?.(undefined);
+
+        await vi.advanceTimersByTimeAsync(4950);
+        expect(warnSpy).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(50);
+
+        await expect(initialized).resolves.toBeUndefined();
+        expect(warnSpy).toHaveBeenCalledWith(
+          expect.stringContaining('AppMeasurement (window.s) did not load within 5000ms'),
+        );
+      });
+
+      it('resolves initialize once window.s has loaded', async () => {
+        const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const plugin = adobeAdapter({ loadTimeout: 1000 });
+        const initialized = plugin.initialize?.(undefined);
+        expect(initialized).toBeInstanceOf(Promise);
+
+        (globalThis.window as any).s = makeMockS();
+        await vi.advanceTimersByTimeAsync(100);
+
+        await expect(initialized).resolves.toBeUndefined();
+        expect(warnSpy).not.toHaveBeenCalled();
+      });
+
+      it('sends events once window.s loads after the timeout', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const plugin = adobeAdapter({ loadTimeout: 1000 });
+        const initialized = plugin.initialize?.(undefined);
+        await vi.advanceTimersByTimeAsync(1000);
+        await expect(initialized).resolves.toBeUndefined();
+
+        plugin.afterEvent?.(makeEvent({ event: 'page.view' }));
+        const sMock = makeMockS();
+        (globalThis.window as any).s = sMock;
+        plugin.afterEvent?.(makeEvent({ event: 'page.view' }));
+
+        expect(sMock.t).toHaveBeenCalledTimes(1);
+      });
+
+      it('does not wait when window.s is already loaded', () => {
+        (globalThis.window as any).s = makeMockS();
+        const plugin = adobeAdapter({ loadTimeout: 1000 });
+        expect(plugin.initialize?.(undefined)).toBeUndefined();
+      });
+
+      it('stops waiting when destroyed', async () => {
+        const plugin = adobeAdapter({ loadTimeout: 1000 });
+        const initialized = plugin.initialize?.(undefined);
+        const assertion = expect(initialized).rejects.toThrow('destroyed');
+
+        plugin.destroy?.();
+
+        await assertion;
+        expect(vi.getTimerCount()).toBe(0);
+      });
+    });
+
     describe('page view tracking', () => {
       it('calls s.t() for page.view events', () => {
         const mockS = makeMockS();
@@ -483,9 +560,9 @@ describe('adobeAdapter', () => {
 
   describe('WebSDK mode', () => {
     describe('initialize()', () => {
-      it('warns when window.alloy is not found', () => {
+      it('warns when window.alloy is not found and loadTimeout is 0', () => {
         const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
-        const plugin = adobeAdapter({ mode: 'websdk' });
+        const plugin = adobeAdapter({ mode: 'websdk', loadTimeout: 0 });
         plugin.initialize?.(undefined);
         expect(warnSpy).toHaveBeenCalledWith(
           expect.stringContaining('AEP Web SDK (window.alloy) not found'),
@@ -499,6 +576,21 @@ describe('adobeAdapter', () => {
         plugin.initialize?.(undefined);
         expect(warnSpy).not.toHaveBeenCalled();
       });
+
+      it('waits for window.alloy when loadTimeout is set', async () => {
+        vi.useFakeTimers();
+        try {
+          const plugin = adobeAdapter({ mode: 'websdk', loadTimeout: 1000 });
+          const initialized = plugin.initialize?.(undefined);
+
+          (globalThis.window as any).alloy = makeMockAlloy();
+          await vi.advanceTimersByTimeAsync(100);
+
+          await expect(initialized).resolves.toBeUndefined();
+        } finally {
+          vi.useRealTimers();
+        }
+      });
     });
 
     describe('sendEvent call', () => {
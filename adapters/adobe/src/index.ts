@@ -5,6 +5,13 @@
  * and Adobe Experience Platform Web SDK (alloy sendEvent).
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+import { waitForLoad } from '@opendatalayer/types';
+
 export interface AdobeAdapterOptions {
   /** Adobe tracking mode: 'appmeasurement' or 'websdk' (default: 'appmeasurement') */
   mode?: 'appmeasurement' | 'websdk';
@@ -14,6 +21,18 @@ export interface AdobeAdapterOptions {
   eVarMap?: Record<string, string>;
   /** Map of ODL custom dimensions to Adobe props (e.g., "pageType" -> "prop1") */
   propMap?: Record<string, string>;
+  /**
+   * Wait up to this many milliseconds for window.s / window.alloy to load (default: 5000, 0 to not wait).
+   * Events tracked meanwhile are sent once it has loaded. If it has not loaded in time, events are
+   * dropped until it does.
+   */
+  loadTimeout?: number;
+  /**
+   * Consent purposes required before events are sent to Adobe Analytics (default:
+   * `['analytics']`). Events whose `context.consent` does not grant them are
+   * withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 /** Minimal AppMeasurement interface for window.s */
@@ -41,25 +60,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Default ODL -> Adobe event name mappings */
 const DEFAULT_EVENT_MAP: Record<string, string> = {
   'ecommerce.product_viewed': 'prodView',
@@ -320,16 +320,39 @@ function handleWebSDK(event: ODLEvent, mergedEventMap: Record<string, string>):
 }
 
 export function adobeAdapter(options: AdobeAdapterOptions = {}): ODLPlugin {
-  const { mode = 'appmeasurement', eventNameMap = {}, eVarMap = {}, propMap = {} } = options;
+  const {
+    mode = 'appmeasurement',
+    eventNameMap = {},
+    eVarMap = {},
+    propMap = {},
+    loadTimeout = 5000,
+    requiresConsent = ['analytics'],
+  } = options;
 
   const mergedEventMap = { ...DEFAULT_EVENT_MAP, ...eventNameMap };
 
+  // Stops a pending wait for the Adobe library
+  let cancelWait: (() => void) | undefined;
+
   return {
     name: 'adobe-adapter',
+    requiresConsent,
 
     initialize() {
       if (typeof window === 'undefined') return;
 
+      const isLoaded = () => (mode === 'appmeasurement' ? !!window.s : !!window.alloy);
+      if (!isLoaded() && loadTimeout > 0) {
+        // The SDK buffers events for this adapter until the wait is over
+        const library =
+          mode === 'appmeasurement' ? 'AppMeasurement (window.s)' : 'AEP Web SDK (window.alloy)';
+        const wait = waitForLoad(isLoaded, loadTimeout, library, '@opendatalayer/adapter-adobe');
+        cancelWait = wait.cancel;
+        return wait.promise.finally(() => {
+          cancelWait = undefined;
+        });
+      }
+
       if (mode === 'appmeasurement') {
         if (!window.s) {
           console.warn(
@@ -358,7 +381,7 @@ export function adobeAdapter(options: AdobeAdapterOptions = {}): ODLPlugin {
     },
 
     destroy() {
-      // No persistent state to clean up
+      cancelWait?.();
     },
   };
 }
@@ -73,6 +73,18 @@ describe('amplitudeAdapter', () => {
       expect(typeof plugin.afterEvent).toBe('function');
       expect(typeof plugin.destroy).toBe('function');
     });
+
+    it('requires analytics consent by default', () => {
+      expect(
+        amplitudeAdapter({ amplitudeInstance: createMockAmplitude() }).requiresConsent,
+      ).toEqual(['analytics']);
+      expect(
+        amplitudeAdapter({
+          amplitudeInstance: createMockAmplitude(),
+          requiresConsent: ['marketing'],
+        }).requiresConsent,
+      ).toEqual(['marketing']);
+    });
   });
 
   // ─── Event Name Mapping (Defaults) ────────────────────────────────
@@ -777,7 +789,7 @@ describe('amplitudeAdapter', () => {
     it('warns when amplitude SDK is not found on window', () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       globalThis.window = {} as any;
-      const plugin = amplitudeAdapter();
+      const plugin = amplitudeAdapter({ loadTimeout: 0 });
       plugin.initialize?.(undefined);
       expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Amplitude SDK not found'));
       warnSpy.mockRestore();
@@ -802,6 +814,74 @@ describe('amplitudeAdapter', () => {
     });
   });
 
+  // ─── Load Timeout ─────────────────────────────────────────────────
+
+  describe('loadTimeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      globalThis.window = {} as any;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('waits for Amplitude SDK (window.amplitude) for 5000ms by default', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = amplitudeAdapter();
+      const initialized = plugin.initialize?.(undefined);
+
+      await vi.advanceTimersByTimeAsync(4950);
+      expect(warnSpy).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(50);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Amplitude SDK (window.amplitude) did not load within 5000ms'),
+      );
+    });
+
+    it('sends events once Amplitude SDK (window.amplitude) loads after the timeout', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = amplitudeAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(initialized).resolves.toBeUndefined();
+
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+      const amplitudeMock = createMockAmplitude();
+      (globalThis.window as any).amplitude = amplitudeMock;
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+
+      expect(amplitudeMock.track).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves initialize once Amplitude SDK (window.amplitude) has loaded', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = amplitudeAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      expect(initialized).toBeInstanceOf(Promise);
+
+      (globalThis.window as any).amplitude = createMockAmplitude();
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('stops waiting when destroyed', async () => {
+      const plugin = amplitudeAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      const assertion = expect(initialized).rejects.toThrow('destroyed');
+
+      plugin.destroy?.();
+
+      await assertion;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   // ─── Custom amplitudeInstance Option ──────────────────────────────
 
   describe('custom amplitudeInstance option', () => {
@@ -6,6 +6,13 @@
  * amplitude.revenue(), and amplitude.setGroup() based on the ODL event type.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+import { waitForLoad } from '@opendatalayer/types';
+
 export interface AmplitudeAdapterOptions {
   /** Custom Amplitude instance (default: window.amplitude) */
   amplitudeInstance?: unknown;
@@ -13,6 +20,18 @@ export interface AmplitudeAdapterOptions {
   eventNameMap?: Record<string, string>;
   /** Whether to automatically set user properties from ODL context (default: true) */
   autoSetUserProperties?: boolean;
+  /**
+   * Wait up to this many milliseconds for window.amplitude to load (default: 5000, 0 to not wait).
+   * Events tracked meanwhile are sent once it has loaded. If it has not loaded in time, events are
+   * dropped until it does.
+   */
+  loadTimeout?: number;
+  /**
+   * Consent purposes required before events are sent to Amplitude (default:
+   * `['analytics']`). Events whose `context.consent` does not grant them are
+   * withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 /** Minimal Amplitude Analytics SDK interface */
@@ -44,25 +63,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Default ODL -> Amplitude event name mappings */
 const DEFAULT_EVENT_MAP: Record<string, string> = {
   'page.view': 'Page Viewed',
@@ -126,7 +126,13 @@ function resolveEventName(eventName: string, mergedEventMap: Record<string, stri
 }
 
 export function amplitudeAdapter(options: AmplitudeAdapterOptions = {}): ODLPlugin {
-  const { amplitudeInstance, eventNameMap = {}, autoSetUserProperties = true } = options;
+  const {
+    amplitudeInstance,
+    eventNameMap = {},
+    autoSetUserProperties = true,
+    loadTimeout = 5000,
+    requiresConsent = ['analytics'],
+  } = options;
 
   const mergedEventMap = { ...DEFAULT_EVENT_MAP, ...eventNameMap };
 
@@ -192,12 +198,29 @@ export function amplitudeAdapter(options: AmplitudeAdapterOptions = {}): ODLPlug
     }
   }
 
+  // Stops a pending wait for Amplitude
+  let cancelWait: (() => void) | undefined;
+
   return {
     name: 'amplitude-adapter',
+    requiresConsent,
 
     initialize() {
       const amp = getAmplitude();
       if (!amp && typeof window !== 'undefined') {
+        if (loadTimeout > 0) {
+          // The SDK buffers events for this adapter until the wait is over
+          const wait = waitForLoad(
+            () => !!getAmplitude(),
+            loadTimeout,
+            'Amplitude SDK (window.amplitude)',
+            '@opendatalayer/adapter-amplitude',
+          );
+          cancelWait = wait.cancel;
+          return wait.promise.finally(() => {
+            cancelWait = undefined;
+          });
+        }
         console.warn(
           '[@opendatalayer/adapter-amplitude] Amplitude SDK not found. ' +
             'Make sure Amplitude is loaded before initializing the adapter.',
@@ -273,6 +296,7 @@ export function amplitudeAdapter(options: AmplitudeAdapterOptions = {}): ODLPlug
     },
 
     destroy() {
+      cancelWait?.();
       lastIdentifiedUserId = undefined;
     },
   };
@@ -47,6 +47,11 @@ describe('gtmAdapter', () => {
       expect(typeof plugin.afterEvent).toBe('function');
       expect(typeof plugin.destroy).toBe('function');
     });
+
+    it('requires no consent by default', () => {
+      expect(gtmAdapter().requiresConsent).toEqual([]);
+      expect(gtmAdapter({ requiresConsent: ['marketing'] }).requiresConsent).toEqual(['marketing']);
+    });
   });
 
   describe('initialize()', () => {
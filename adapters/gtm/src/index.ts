@@ -5,6 +5,12 @@
  * Pushes events to window.dataLayer for GTM consumption.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+
 export interface GTMAdapterOptions {
   /** Custom dataLayer variable name (default: 'dataLayer') */
   dataLayerName?: string;
@@ -14,6 +20,12 @@ export interface GTMAdapterOptions {
   includeContext?: boolean;
   /** Whether to flatten nested objects (default: true) */
   flattenData?: boolean;
+  /**
+   * Consent purposes required before events are sent to GTM (default:
+   * none, as GTM applies consent per tag). Events whose `context.consent`
+   * does not grant them are withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 interface DataLayerEvent {
@@ -28,25 +40,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Default ODL -> GTM event name mappings */
 const DEFAULT_EVENT_MAP: Record<string, string> = {
   'page.view': 'page_view',
@@ -150,6 +143,7 @@ export function gtmAdapter(options: GTMAdapterOptions = {}): ODLPlugin {
     eventNameMap = {},
     includeContext = false,
     flattenData = true,
+    requiresConsent = [],
   } = options;
 
   const mergedEventMap = { ...DEFAULT_EVENT_MAP, ...eventNameMap };
@@ -171,6 +165,7 @@ export function gtmAdapter(options: GTMAdapterOptions = {}): ODLPlugin {
 
   return {
     name: 'gtm-adapter',
+    requiresConsent,
 
     initialize() {
       // Ensure dataLayer exists
@@ -53,6 +53,13 @@ describe('piwikAdapter', () => {
       expect(typeof plugin.afterEvent).toBe('function');
       expect(typeof plugin.destroy).toBe('function');
     });
+
+    it('requires analytics consent by default', () => {
+      expect(piwikAdapter().requiresConsent).toEqual(['analytics']);
+      expect(piwikAdapter({ requiresConsent: ['marketing'] }).requiresConsent).toEqual([
+        'marketing',
+      ]);
+    });
   });
 
   // ---------------------------------------------------------------
@@ -62,7 +69,7 @@ describe('piwikAdapter', () => {
     it('creates window._paq if it does not exist', () => {
       globalThis.window = {} as any;
       const plugin = piwikAdapter();
-      plugin.initialize?.(undefined);
+      expect(plugin.initialize?.(undefined)).toBeUndefined();
       expect(Array.isArray((globalThis.window as any)._paq)).toBe(true);
     });
 
@@ -6,6 +6,12 @@
  * _paq.push(['methodName', args...]) pattern.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+
 export interface PiwikAdapterOptions {
   /** Custom _paq array reference (default: window._paq) */
   paqInstance?: unknown[];
@@ -13,6 +19,12 @@ export interface PiwikAdapterOptions {
   eventCategoryMap?: Record<string, string>;
   /** Map of ODL custom dimension keys to Piwik custom dimension IDs */
   customDimensionMap?: Record<string, number>;
+  /**
+   * Consent purposes required before events are sent to Piwik PRO (default:
+   * `['analytics']`). Events whose `context.consent` does not grant them are
+   * withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 /** Minimal _paq interface for type safety */
@@ -24,25 +36,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Push a command to the _paq array */
 function pushCommand(paq: PaqArray, ...args: unknown[]): void {
   paq.push(args);
@@ -209,7 +202,12 @@ function handleGenericEvent(
 }
 
 export function piwikAdapter(options: PiwikAdapterOptions = {}): ODLPlugin {
-  const { paqInstance, eventCategoryMap = {}, customDimensionMap = {} } = options;
+  const {
+    paqInstance,
+    eventCategoryMap = {},
+    customDimensionMap = {},
+    requiresConsent = ['analytics'],
+  } = options;
 
   function getPaq(): PaqArray | undefined {
     if (paqInstance) return paqInstance as PaqArray;
@@ -219,6 +217,7 @@ export function piwikAdapter(options: PiwikAdapterOptions = {}): ODLPlugin {
 
   return {
     name: 'piwik-adapter',
+    requiresConsent,
 
     initialize() {
       if (typeof window === 'undefined') return;
@@ -2,6 +2,8 @@
  * Tests for @opendatalayer/adapter-segment
  */
 
+declare const globalThis: { window?: Record<string, unknown> };
+
 import { segmentAdapter } from '../index.js';
 
 function createMockAnalytics() {
@@ -49,6 +51,16 @@ describe('segmentAdapter', () => {
       expect(typeof plugin.afterEvent).toBe('function');
       expect(typeof plugin.destroy).toBe('function');
     });
+
+    it('requires analytics consent by default', () => {
+      expect(segmentAdapter({ analyticsInstance: createMockAnalytics() }).requiresConsent).toEqual([
+        'analytics',
+      ]);
+      expect(
+        segmentAdapter({ analyticsInstance: createMockAnalytics(), requiresConsent: ['marketing'] })
+          .requiresConsent,
+      ).toEqual(['marketing']);
+    });
   });
 
   describe('page events', () => {
@@ -609,6 +621,80 @@ describe('segmentAdapter', () => {
     });
   });
 
+  describe('loadTimeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      globalThis.window = {} as any;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      globalThis.window = undefined;
+    });
+
+    it('waits for analytics.js (window.analytics) for 5000ms by default', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = segmentAdapter();
+      const initialized = plugin.initialize?.(undefined);
+
+      await vi.advanceTimersByTimeAsync(4950);
+      expect(warnSpy).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(50);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('analytics.js (window.analytics) did not load within 5000ms'),
+      );
+    });
+
+    it('sends events once analytics.js (window.analytics) loads after the timeout', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = segmentAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(initialized).resolves.toBeUndefined();
+
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+      const analyticsMock = createMockAnalytics();
+      (globalThis.window as any).analytics = analyticsMock;
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+
+      expect(analyticsMock.track).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves initialize once analytics.js (window.analytics) has loaded', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = segmentAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      expect(initialized).toBeInstanceOf(Promise);
+
+      (globalThis.window as any).analytics = createMockAnalytics();
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('warns instead of waiting when loadTimeout is 0', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = segmentAdapter({ loadTimeout: 0 });
+      expect(plugin.initialize?.(undefined)).toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('analytics.js not found'));
+    });
+
+    it('stops waiting when destroyed', async () => {
+      const plugin = segmentAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      const assertion = expect(initialized).rejects.toThrow('destroyed');
+
+      plugin.destroy?.();
+
+      await assertion;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   describe('no analytics instance', () => {
     it('does not error when analytics is undefined', () => {
       const plugin = segmentAdapter({});
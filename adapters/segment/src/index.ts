@@ -6,6 +6,13 @@
  * based on the ODL event type.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+import { waitForLoad } from '@opendatalayer/types';
+
 export interface SegmentAdapterOptions {
   /** Custom analytics instance (default: window.analytics) */
   analyticsInstance?: SegmentAnalytics;
@@ -15,6 +22,18 @@ export interface SegmentAdapterOptions {
   autoIdentify?: boolean;
   /** Whether to include ODL metadata (event id, timestamp) in track properties (default: false) */
   includeMetadata?: boolean;
+  /**
+   * Wait up to this many milliseconds for window.analytics to load (default: 5000, 0 to not wait).
+   * Events tracked meanwhile are sent once it has loaded. If it has not loaded in time, events are
+   * dropped until it does.
+   */
+  loadTimeout?: number;
+  /**
+   * Consent purposes required before events are sent to Segment (default:
+   * `['analytics']`). Events whose `context.consent` does not grant them are
+   * withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 /** Minimal Segment analytics.js interface */
@@ -33,25 +52,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Default ODL -> Segment event name mappings (Segment ecommerce spec) */
 const DEFAULT_EVENT_MAP: Record<string, string> = {
   'ecommerce.product_viewed': 'Product Viewed',
@@ -169,6 +169,8 @@ export function segmentAdapter(options: SegmentAdapterOptions = {}): ODLPlugin {
     eventNameMap = {},
     autoIdentify = true,
     includeMetadata = false,
+    loadTimeout = 5000,
+    requiresConsent = ['analytics'],
   } = options;
 
   const mergedEventMap = { ...DEFAULT_EVENT_MAP, ...eventNameMap };
@@ -181,13 +183,30 @@ export function segmentAdapter(options: SegmentAdapterOptions = {}): ODLPlugin {
     return undefined;
   }
 
+  // Stops a pending wait for analytics.js
+  let cancelWait: (() => void) | undefined;
+
   return {
     name: 'segment-adapter',
+    requiresConsent,
 
     initialize() {
       // Validate analytics.js is available
       const analytics = getAnalytics();
       if (!analytics && typeof window !== 'undefined') {
+        if (loadTimeout > 0) {
+          // The SDK buffers events for this adapter until the wait is over
+          const wait = waitForLoad(
+            () => !!getAnalytics(),
+            loadTimeout,
+            'analytics.js (window.analytics)',
+            '@opendatalayer/adapter-segment',
+          );
+          cancelWait = wait.cancel;
+          return wait.promise.finally(() => {
+            cancelWait = undefined;
+          });
+        }
         console.warn(
           '[@opendatalayer/adapter-segment] analytics.js not found. ' +
             'Make sure Segment is loaded before initializing the adapter.',
@@ -281,6 +300,7 @@ export function segmentAdapter(options: SegmentAdapterOptions = {}): ODLPlugin {
     },
 
     destroy() {
+      cancelWait?.();
       lastIdentifiedUserId = undefined;
     },
   };
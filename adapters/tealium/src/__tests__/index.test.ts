@@ -54,6 +54,13 @@ describe('tealiumAdapter', () => {
       expect(typeof plugin.destroy).toBe('function');
     });
 
+    it('requires no consent by default', () => {
+      expect(tealiumAdapter().requiresConsent).toEqual([]);
+      expect(tealiumAdapter({ requiresConsent: ['marketing'] }).requiresConsent).toEqual([
+        'marketing',
+      ]);
+    });
+
     it('destroy can be called without error', () => {
       const plugin = tealiumAdapter();
       expect(() => plugin.destroy?.()).not.toThrow();
@@ -828,7 +835,7 @@ describe('tealiumAdapter', () => {
     it('warns when utag is not found on window', () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
       globalThis.window = {} as any; // window exists but no utag
-      const plugin = tealiumAdapter();
+      const plugin = tealiumAdapter({ loadTimeout: 0 });
       plugin.initialize?.(undefined);
       expect(warnSpy).toHaveBeenCalledTimes(1);
       expect(warnSpy.mock.calls[0][0]).toContain('utag not found');
@@ -863,6 +870,75 @@ describe('tealiumAdapter', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Waiting for utag to load
+  // ---------------------------------------------------------------------------
+  describe('loadTimeout', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      globalThis.window = {} as any;
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('waits for utag (window.utag) for 5000ms by default', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = tealiumAdapter();
+      const initialized = plugin.initialize?.(undefined);
+
+      await vi.advanceTimersByTimeAsync(4950);
+      expect(warnSpy).not.toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(50);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('utag (window.utag) did not load within 5000ms'),
+      );
+    });
+
+    it('sends events once utag (window.utag) loads after the timeout', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = tealiumAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      await vi.advanceTimersByTimeAsync(1000);
+      await expect(initialized).resolves.toBeUndefined();
+
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+      const utagMock = { view: vi.fn(), link: vi.fn() };
+      (globalThis.window as any).utag = utagMock;
+      plugin.afterEvent?.(makeEvent({ event: 'test.event' }));
+
+      expect(utagMock.link).toHaveBeenCalledTimes(1);
+    });
+
+    it('resolves initialize once utag (window.utag) has loaded', async () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const plugin = tealiumAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      expect(initialized).toBeInstanceOf(Promise);
+
+      (globalThis.window as any).utag = { view: vi.fn(), link: vi.fn() };
+      await vi.advanceTimersByTimeAsync(100);
+
+      await expect(initialized).resolves.toBeUndefined();
+      expect(warnSpy).not.toHaveBeenCalled();
+    });
+
+    it('stops waiting when destroyed', async () => {
+      const plugin = tealiumAdapter({ loadTimeout: 1000 });
+      const initialized = plugin.initialize?.(undefined);
+      const assertion = expect(initialized).rejects.toThrow('destroyed');
+
+      plugin.destroy?.();
+
+      await assertion;
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Edge cases and integration
   // ---------------------------------------------------------------------------
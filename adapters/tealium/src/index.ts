@@ -7,6 +7,13 @@
  * values are strings. Maps ecommerce data to Tealium's array-of-strings convention.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+import { waitForLoad } from '@opendatalayer/types';
+
 export interface TealiumAdapterOptions {
   /** Custom utag reference (default: window.utag) */
   utagInstance?: unknown;
@@ -16,6 +23,18 @@ export interface TealiumAdapterOptions {
   keyPrefix?: string;
   /** Whether to auto-populate utag_data on page events (default: true) */
   autoPopulateUDO?: boolean;
+  /**
+   * Wait up to this many milliseconds for window.utag to load (default: 5000, 0 to not wait).
+   * Events tracked meanwhile are sent once it has loaded. If it has not loaded in time, events are
+   * dropped until it does.
+   */
+  loadTimeout?: number;
+  /**
+   * Consent purposes required before events are sent to Tealium (default:
+   * none, as Tealium applies consent per tag). Events whose `context.consent`
+   * does not grant them are withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 /** Minimal Tealium utag interface */
@@ -31,25 +50,6 @@ declare global {
   }
 }
 
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
-}
-
 /** Default ODL -> Tealium event name mappings */
 const DEFAULT_EVENT_MAP: Record<string, string> = {
   'page.view': 'page_view',
@@ -212,7 +212,14 @@ function buildTealiumData(
 }
 
 export function tealiumAdapter(options: TealiumAdapterOptions = {}): ODLPlugin {
-  const { utagInstance, eventNameMap = {}, keyPrefix, autoPopulateUDO = true } = options;
+  const {
+    utagInstance,
+    eventNameMap = {},
+    keyPrefix,
+    autoPopulateUDO = true,
+    loadTimeout = 5000,
+    requiresConsent = [],
+  } = options;
 
   const mergedEventMap = { ...DEFAULT_EVENT_MAP, ...eventNameMap };
 
@@ -222,12 +229,29 @@ export function tealiumAdapter(options: TealiumAdapterOptions = {}): ODLPlugin {
     return undefined;
   }
 
+  // Stops a pending wait for utag
+  let cancelWait: (() => void) | undefined;
+
   return {
     name: 'tealium-adapter',
+    requiresConsent,
 
     initialize() {
       const utag = getUtag();
       if (!utag && typeof window !== 'undefined') {
+        if (loadTimeout > 0) {
+          // The SDK buffers events for this adapter until the wait is over
+          const wait = waitForLoad(
+            () => !!getUtag(),
+            loadTimeout,
+            'utag (window.utag)',
+            '@opendatalayer/adapter-tealium',
+          );
+          cancelWait = wait.cancel;
+          return wait.promise.finally(() => {
+            cancelWait = undefined;
+          });
+        }
         console.warn(
           '[@opendatalayer/adapter-tealium] utag not found. ' +
             'Make sure Tealium iQ is loaded before initializing the adapter.',
@@ -257,7 +281,7 @@ export function tealiumAdapter(options: TealiumAdapterOptions = {}): ODLPlugin {
     },
 
     destroy() {
-      // Nothing to clean up
+      cancelWait?.();
     },
   };
 }
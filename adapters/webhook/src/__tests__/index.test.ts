@@ -51,6 +51,13 @@ describe('webhookAdapter', () => {
       expect(typeof plugin.afterEvent).toBe('function');
       expect(typeof plugin.destroy).toBe('function');
     });
+
+    it('requires no consent by default', () => {
+      expect(webhookAdapter({ url: TEST_URL }).requiresConsent).toEqual([]);
+      expect(
+        webhookAdapter({ url: TEST_URL, requiresConsent: ['marketing'] }).requiresConsent,
+      ).toEqual(['marketing']);
+    });
   });
 
   describe('initialize()', () => {
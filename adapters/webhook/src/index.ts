@@ -5,6 +5,12 @@
  * Supports both real-time and batched delivery modes.
  */
 
+import type {
+  ConsentCategory,
+  ODLRuntimeEvent as ODLEvent,
+  ODLRuntimePlugin as ODLPlugin,
+} from '@opendatalayer/types';
+
 export interface WebhookAdapterOptions {
   /** The URL to send events to (required) */
   url: string;
@@ -26,25 +32,12 @@ export interface WebhookAdapterOptions {
   transformPayload?: (event: ODLEvent) => unknown;
   /** Callback invoked on send failure */
   onError?: (error: unknown, events: ODLEvent[]) => void;
-}
-
-// ODL event interface (minimal, to avoid SDK dependency)
-interface ODLEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
-
-// Plugin interface (to avoid SDK dependency)
-interface ODLPlugin {
-  name: string;
-  initialize?(odl: unknown): void;
-  afterEvent?(event: ODLEvent): void;
-  destroy?(): void;
+  /**
+   * Consent purposes required before events are sent to the endpoint
+   * (default: none). Events whose `context.consent` does not grant them are
+   * withheld by the SDK.
+   */
+  requiresConsent?: ConsentCategory[];
 }
 
 function buildPayload(
@@ -128,6 +121,7 @@ export function webhookAdapter(options: WebhookAdapterOptions): ODLPlugin {
     includeContext = true,
     transformPayload,
     onError,
+    requiresConsent = [],
   } = options;
 
   let eventBuffer: ODLEvent[] = [];
@@ -162,6 +156,7 @@ export function webhookAdapter(options: WebhookAdapterOptions): ODLPlugin {
 
   return {
     name: 'webhook-adapter',
+    requiresConsent,
 
     initialize() {
       if (!url) {
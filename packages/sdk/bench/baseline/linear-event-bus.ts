@@ -0,0 +1,40 @@
+import type { ODLEvent } from '../../src/core/event-bus.js';
+import { compilePattern } from '../../src/core/pattern.js';
+import type { EventMatcher, EventPattern } from '../../src/core/pattern.js';
+
+type EventHandler = (event: ODLEvent) => void;
+
+/**
+ * The event bus dispatch strategy before indexing: every emit walks every
+ * registered pattern and runs its matcher. Kept only as a benchmark baseline.
+ */
+export class LinearEventBus {
+  private subscriptions: Map<EventPattern, { matches: EventMatcher; handlers: Set<EventHandler> }> =
+    new Map();
+
+  on(pattern: EventPattern, handler: EventHandler): () => void {
+    let subscription = this.subscriptions.get(pattern);
+    if (!subscription) {
+      subscription = { matches: compilePattern(pattern), handlers: new Set() };
+      this.subscriptions.set(pattern, subscription);
+    }
+    subscription.handlers.add(handler);
+    return () => {
+      subscription.handlers.delete(handler);
+    };
+  }
+
+  emit(event: ODLEvent): void {
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.matches(event)) {
+        for (const handler of subscription.handlers) {
+          try {
+            handler(event);
+          } catch {
+            // Isolate handler errors, as the real bus does.
+          }
+        }
+      }
+    }
+  }
+}
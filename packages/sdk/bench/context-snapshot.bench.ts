@@ -0,0 +1,49 @@
+import { bench, describe } from 'vitest';
+import { ContextManager } from '../src/core/context-manager.js';
+
+/**
+ * A context of realistic size: the standard domains a Standard-conformance
+ * site sets on every page.
+ */
+const CONTEXT: Record<string, unknown> = {
+  page: {
+    url: 'https://shop.example.com/products/widget?ref=home',
+    path: '/products/widget',
+    title: 'Widget | Example Shop',
+    referrer: 'https://www.example.com/',
+    type: 'product',
+  },
+  user: {
+    id: 'u-789',
+    isAuthenticated: true,
+    traits: { loyaltyTier: 'gold', segments: ['returning', 'high-value', 'newsletter'] },
+  },
+  session: { id: 's-123', startedAt: '2026-01-01T00:00:00.000Z', pageViews: 7, isNew: false },
+  consent: { analytics: true, marketing: false, personalization: true, method: 'banner' },
+  device: {
+    type: 'desktop',
+    os: 'macOS',
+    browser: 'Firefox',
+    viewport: { width: 1440, height: 900 },
+  },
+  app: { name: 'Example Shop', version: '2.4.1', environment: 'production', platform: 'web' },
+};
+
+describe('ContextManager.snapshot', () => {
+  const manager = new ContextManager();
+  for (const [key, value] of Object.entries(CONTEXT)) {
+    manager.set(key, value);
+  }
+
+  bench('cloneDeep', () => {
+    manager.snapshot();
+  });
+
+  bench('JSON round-trip (baseline)', () => {
+    JSON.parse(JSON.stringify(manager.get()));
+  });
+
+  bench('structuredClone', () => {
+    structuredClone(manager.get());
+  });
+});
@@ -0,0 +1,84 @@
+import { bench, describe } from 'vitest';
+import { EventBus } from '../src/core/event-bus.js';
+import type { ODLEvent } from '../src/core/event-bus.js';
+import { LinearEventBus } from './baseline/linear-event-bus.js';
+
+const CATEGORIES = ['page', 'ecommerce', 'media', 'form', 'search', 'user', 'consent', 'app'];
+const ACTIONS = Array.from({ length: 25 }, (_, i) => `action_${String(i)}`);
+
+function makeEvent(name: string): ODLEvent {
+  return {
+    event: name,
+    id: 'bench-id',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    specVersion: '1.0.0',
+  };
+}
+
+/**
+ * Register a realistic subscriber population: dozens of adapters that each
+ * subscribe to many exact event names, a few category wildcards, and a
+ * handful of catch-all subscribers.
+ */
+function populate(bus: { on(pattern: string, handler: (event: ODLEvent) => void): unknown }) {
+  const noop = (): void => {};
+  for (let adapter = 0; adapter < 40; adapter++) {
+    for (const category of CATEGORIES) {
+      for (const action of ACTIONS.slice(0, 10)) {
+        // Each adapter is distinguished by a unique action suffix so patterns
+        // do not collapse onto the same subscription.
+        bus.on(`${category}.${action}_${String(adapter)}`, noop);
+      }
+    }
+  }
+  for (const category of CATEGORIES) {
+    bus.on(`${category}.*`, noop);
+  }
+  bus.on('*', noop);
+  bus.on('*', () => {});
+}
+
+const events = CATEGORIES.flatMap((category) =>
+  ACTIONS.slice(0, 5).map((action) => makeEvent(`${category}.${action}_7`)),
+);
+
+describe('EventBus.emit with ~3,200 exact subscriptions', () => {
+  const indexed = new EventBus();
+  const linear = new LinearEventBus();
+  populate(indexed);
+  populate(linear);
+
+  bench('indexed dispatch', () => {
+    for (const event of events) {
+      indexed.emit(event);
+    }
+  });
+
+  bench('linear scan (baseline)', () => {
+    for (const event of events) {
+      linear.emit(event);
+    }
+  });
+});
+
+describe('EventBus.emit with only wildcard subscriptions', () => {
+  const indexed = new EventBus();
+  const linear = new LinearEventBus();
+  for (const bus of [indexed, linear]) {
+    bus.on('*', () => {});
+    bus.on('ecommerce.*', () => {});
+    bus.on('!page.view', () => {});
+  }
+
+  bench('indexed dispatch', () => {
+    for (const event of events) {
+      indexed.emit(event);
+    }
+  });
+
+  bench('linear scan (baseline)', () => {
+    for (const event of events) {
+      linear.emit(event);
+    }
+  });
+});
@@ -0,0 +1,310 @@
+import { OpenDataLayer } from '../odl.js';
+import { cmp } from '../plugins/cmp.js';
+import type { CmpOptions } from '../plugins/cmp.js';
+import { consent } from '../plugins/consent.js';
+
+type Callback = (data: Record<string, unknown>, success: boolean) => void;
+
+/** A CMP API that calls its listeners whenever `emit` is called. */
+function fakeCmp(kind: 'tcf' | 'gpp') {
+  const listeners = new Map<number, Callback>();
+  let nextId = 1;
+  const api = vi.fn((command: string, ...args: unknown[]) => {
+    const [callback, parameter] = (kind === 'tcf' ? args.slice(1) : args) as [Callback, unknown];
+    if (command === 'addEventListener') listeners.set(nextId++, callback);
+    if (command === 'removeEventListener') listeners.delete(parameter as number);
+  });
+  const emit = (data: Record<string, unknown>): void => {
+    for (const [listenerId, callback] of listeners) callback({ listenerId, ...data }, true);
+  };
+  return { api, emit, listeners };
+}
+
+/** TCF data for a visitor who consented to the given purposes. */
+function tcData(purposes: number[], vendors: number[] = []): Record<string, unknown> {
+  const consents = (ids: number[]) => Object.fromEntries(ids.map((id) => [String(id), true]));
+  return {
+    tcString: 'CP-tc-string',
+    gdprApplies: true,
+    eventStatus: 'useractioncomplete',
+    purpose: { consents: consents(purposes) },
+    vendor: { consents: consents(vendors) },
+  };
+}
+
+function create(options?: CmpOptions) {
+  return new OpenDataLayer({ plugins: [consent({ persist: false }), cmp(options)] });
+}
+
+function consentEvents(odl: OpenDataLayer) {
+  return odl
+    .getEvents()
+    .filter((event) => event.event.startsWith('consent.'))
+    .map((event) => ({ event: event.event, data: event.data }));
+}
+
+describe('cmp', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  // ---------------------------------------------------------------------------
+  // TCF v2
+  // ---------------------------------------------------------------------------
+
+  describe('TCF v2', () => {
+    it('keeps the TC string in the context', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create();
+
+      tcf.emit(tcData([1, 8]));
+
+      expect(odl.getContext().x_cmp).toEqual({ tcString: 'CP-tc-string', gdprApplies: true });
+    });
+
+    it('tracks consent.given for a first choice', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create();
+
+      tcf.emit(tcData([1, 8, 10]));
+
+      const purposes = {
+        functional: true,
+        analytics: true,
+        marketing: false,
+        advertising: false,
+        personalization: false,
+      };
+      expect(consentEvents(odl)).toEqual([
+        { event: 'consent.given', data: { purposes, method: 'banner' } },
+      ]);
+      expect(odl.getContext().consent).toMatchObject({
+        status: 'granted',
+        purposes: { analytics: true, marketing: false },
+      });
+    });
+
+    it('tracks consent.revoked when everything is refused', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create({ purposes: { analytics: [1, 8] } });
+
+      tcf.emit(tcData([]));
+
+      expect(consentEvents(odl)).toEqual([
+        { event: 'consent.revoked', data: { purposes: { analytics: true }, method: 'banner' } },
+      ]);
+      expect(odl.getContext().consent?.status).toBe('denied');
+    });
+
+    it('tracks changes to the choice', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create({ purposes: { analytics: [1, 8], marketing: [1, 2] } });
+      tcf.emit(tcData([1, 8]));
+
+      tcf.emit(tcData([1, 8]));
+      tcf.emit(tcData([1, 2, 8]));
+      tcf.emit(tcData([1, 2]));
+
+      expect(consentEvents(odl).slice(1)).toEqual([
+        {
+          event: 'consent.preferences_updated',
+          data: {
+            purposes: { analytics: true, marketing: true },
+            previousPurposes: { analytics: true, marketing: false },
+            method: 'banner',
+          },
+        },
+        { event: 'consent.revoked', data: { purposes: { analytics: true }, method: 'banner' } },
+      ]);
+      expect(odl.getContext().consent?.purposes).toMatchObject({
+        analytics: false,
+        marketing: true,
+      });
+    });
+
+    it('waits for the choice', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create();
+
+      tcf.emit({ ...tcData([1]), eventStatus: 'cmpuishown' });
+
+      expect(consentEvents(odl)).toEqual([]);
+    });
+
+    it('grants consent to visitors outside the GDPR', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create({ gpp: false, purposes: { analytics: [1, 8] }, vendors: { x_meta: 89 } });
+
+      tcf.emit({ ...tcData([]), gdprApplies: false, eventStatus: 'tcloaded' });
+
+      expect(consentEvents(odl)).toEqual([
+        {
+          event: 'consent.given',
+          data: { purposes: { analytics: true, x_meta: true }, method: 'banner' },
+        },
+      ]);
+      expect(odl.getContext().x_cmp).toMatchObject({ gdprApplies: false });
+      expect(odl.getContext().consent?.status).toBe('granted');
+    });
+
+    it('leaves consent outside the GDPR to the defaults when asked to', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create({ nonGdprConsent: 'defaults' });
+
+      tcf.emit({ ...tcData([]), gdprApplies: false });
+
+      expect(consentEvents(odl)).toEqual([]);
+    });
+
+    it('maps vendor consents to custom categories', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create({ purposes: { analytics: [1] }, vendors: { x_google: 755, x_meta: 89 } });
+
+      tcf.emit(tcData([1], [755]));
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({
+        analytics: true,
+        x_google: true,
+        x_meta: false,
+      });
+    });
+
+    it('removes its listener on destroy', () => {
+      const tcf = fakeCmp('tcf');
+      vi.stubGlobal('window', { __tcfapi: tcf.api });
+      const odl = create();
+      tcf.emit(tcData([1]));
+
+      odl.destroy();
+
+      expect(tcf.listeners.size).toBe(0);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // GPP
+  // ---------------------------------------------------------------------------
+
+  describe('GPP', () => {
+    it('keeps the GPP string and decodes the TCF EU section', () => {
+      const gpp = fakeCmp('gpp');
+      vi.stubGlobal('window', { __gpp: gpp.api });
+      const odl = create({ purposes: { analytics: [1, 8] } });
+
+      gpp.emit({ eventName: 'signalStatus', pingData: { signalStatus: 'not ready' } });
+      gpp.emit({
+        eventName: 'signalStatus',
+        pingData: {
+          signalStatus: 'ready',
+          gppString: 'DBABMA~CP-tc-string',
+          applicableSections: [2],
+          parsedSections: {
+            tcfeuv2: [{ PurposeConsents: [true, false, false, false, false, false, false, true] }],
+          },
+        },
+      });
+
+      expect(odl.getContext().x_cmp).toEqual({
+        gppString: 'DBABMA~CP-tc-string',
+        applicableSections: [2],
+      });
+      expect(consentEvents(odl)).toEqual([
+        { event: 'consent.given', data: { purposes: { analytics: true }, method: 'banner' } },
+      ]);
+    });
+
+    it('grants consent when only US sections apply and the visitor did not opt out', () => {
+      const gpp = fakeCmp('gpp');
+      vi.stubGlobal('window', { __gpp: gpp.api });
+      const odl = create({ purposes: { analytics: [1, 8], advertising: [1, 2] } });
+
+      gpp.emit({
+        pingData: {
+          signalStatus: 'ready',
+          gppString: 'DBABL~BVVqAAEABgA.QA',
+          applicableSections: [7],
+          parsedSections: { usnat: [{ SaleOptOut: 2, TargetedAdvertisingOptOut: 2 }] },
+        },
+      });
+
+      expect(odl.getContext().x_cmp).toMatchObject({ gppString: 'DBABL~BVVqAAEABgA.QA' });
+      expect(consentEvents(odl)).toEqual([
+        {
+          event: 'consent.given',
+          data: { purposes: { analytics: true, advertising: true }, method: 'banner' },
+        },
+      ]);
+    });
+
+    it('refuses marketing and advertising after a US opt-out', () => {
+      const gpp = fakeCmp('gpp');
+      vi.stubGlobal('window', { __gpp: gpp.api });
+      const odl = create({ vendors: { x_meta: 89 } });
+
+      gpp.emit({
+        pingData: {
+          signalStatus: 'ready',
+          applicableSections: [8],
+          parsedSections: { usca: { SaleOptOut: 1, SharingOptOut: 2 } },
+        },
+      });
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({
+        functional: true,
+        analytics: true,
+        marketing: false,
+        advertising: false,
+        personalization: true,
+        x_meta: false,
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Setup
+  // ---------------------------------------------------------------------------
+
+  describe('setup', () => {
+    it('waits for the CMP API to load', () => {
+      vi.useFakeTimers();
+      const tcf = fakeCmp('tcf');
+      const cmpWindow: Record<string, unknown> = {};
+      vi.stubGlobal('window', cmpWindow);
+      create({ gpp: false });
+
+      cmpWindow.__tcfapi = tcf.api;
+      vi.advanceTimersByTime(100);
+
+      expect(tcf.api).toHaveBeenCalledWith('addEventListener', 2, expect.any(Function));
+    });
+
+    it('stops waiting after the timeout', () => {
+      vi.useFakeTimers();
+      const tcf = fakeCmp('tcf');
+      const cmpWindow: Record<string, unknown> = {};
+      vi.stubGlobal('window', cmpWindow);
+      create({ gpp: false, timeout: 1000 });
+
+      vi.advanceTimersByTime(1000);
+      cmpWindow.__tcfapi = tcf.api;
+      vi.advanceTimersByTime(1000);
+
+      expect(tcf.api).not.toHaveBeenCalled();
+    });
+
+    it('requires the consent plugin', () => {
+      expect(() => new OpenDataLayer({ plugins: [cmp()] })).toThrow(
+        'Plugin "cmp" depends on "consent", which is not registered',
+      );
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import type { ConsentCategory, ConsentContext } from '@opendatalayer/types';
+import { OpenDataLayer } from '../odl.js';
+import { consent, isConsentGranted, requiredPurposes } from '../plugins/consent.js';
+import type { ConsentOptions } from '../plugins/consent.js';
+
+function names(odl: OpenDataLayer): string[] {
+  return odl.getEvents().map((event) => event.event);
+}
+
+function create(options?: ConsentOptions, context?: { consent: ConsentContext }) {
+  return new OpenDataLayer({ context, plugins: [consent({ persist: false, ...options })] });
+}
+
+describe('consent', () => {
+  // ---------------------------------------------------------------------------
+  // Purposes
+  // ---------------------------------------------------------------------------
+
+  describe('purposes', () => {
+    it('looks up the event name, then its namespace, then the default', () => {
+      const purposes = {
+        'ecommerce.purchase': ['analytics', 'marketing'] as ConsentCategory[],
+        ecommerce: 'analytics' as const,
+        ad: 'marketing' as const,
+      };
+
+      expect(requiredPurposes('ecommerce.purchase', purposes, 'functional')).toEqual([
+        'analytics',
+        'marketing',
+      ]);
+      expect(requiredPurposes('ad.clicked', purposes, 'functional')).toEqual(['marketing']);
+      expect(requiredPurposes('page.view', purposes, 'functional')).toEqual(['functional']);
+    });
+
+    it('falls back to the overall status for purposes without an entry', () => {
+      const consent: ConsentContext = { status: 'granted', purposes: { marketing: false } };
+
+      expect(isConsentGranted(consent, ['analytics'])).toBe(true);
+      expect(isConsentGranted(consent, ['analytics', 'marketing'])).toBe(false);
+      expect(isConsentGranted({ status: 'denied' }, ['necessary'])).toBe(true);
+      expect(isConsentGranted(undefined, ['analytics'])).toBe(false);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Pending consent
+  // ---------------------------------------------------------------------------
+
+  describe('while pending', () => {
+    it('sets the restrictive default consent context', () => {
+      const odl = create();
+
+      expect(odl.getContext().consent).toEqual({
+        status: 'pending',
+        purposes: { analytics: false, marketing: false, personalization: false, functional: false },
+      });
+    });
+
+    it('holds events and lets strictly necessary ones through', () => {
+      const odl = create();
+
+      odl.track('page.view');
+      odl.track('consent.given', { purposes: {} });
+
+      expect(names(odl)).toEqual(['consent.given']);
+    });
+
+    it('releases held events with their id, timestamp and context once granted', () => {
+      const odl = create();
+      odl.setContext('page', { url: 'https://example.com/a', path: '/a' });
+      const held = odl.track('page.view');
+      odl.setContext('page', { url: 'https://example.com/b', path: '/b' });
+
+      odl.updateContext('consent', { status: 'granted', purposes: { analytics: true } });
+
+      const [released] = odl.getEvents();
+      expect(released?.event).toBe('page.view');
+      expect(released?.id).toBe(held.id);
+      expect(released?.timestamp).toBe(held.timestamp);
+      expect(released?.context?.page).toEqual({ url: 'https://example.com/a', path: '/a' });
+      expect(released?.context?.consent).toMatchObject({ status: 'granted' });
+    });
+
+    it('runs the hooks of plugins ordered before it again for released events', () => {
+      const beforeEvent = vi.fn((event) => event);
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          { name: 'early', beforeEvent },
+          consent({ persist: false }),
+          { name: 'vendor', afterEvent },
+        ],
+      });
+      const held = odl.track('page.view');
+
+      odl.updateContext('consent', { status: 'granted', purposes: { analytics: true } });
+
+      const views = beforeEvent.mock.calls.filter(([event]) => event.event === 'page.view');
+      expect(views).toHaveLength(2);
+      expect(afterEvent).toHaveBeenCalledWith(expect.objectContaining({ id: held.id }));
+    });
+
+    it('does not treat events tracked during a release as the released event', () => {
+      vi.useFakeTimers();
+      try {
+        const odl = create();
+        odl.setContext('page', { url: 'https://example.com/a', path: '/a' });
+        const held = odl.track('page.view');
+        vi.advanceTimersByTime(1000);
+        odl.setContext('page', { url: 'https://example.com/b', path: '/b' });
+        odl.once('page.view', () => {
+          odl.track('page.view');
+        });
+
+        odl.updateContext('consent', { status: 'granted', purposes: { analytics: true } });
+
+        const [released, nested] = odl.getEvents();
+        expect(released?.id).toBe(held.id);
+        expect(nested?.id).not.toBe(held.id);
+        expect(nested?.timestamp).not.toBe(held.timestamp);
+        expect(nested?.context?.page).toEqual({ url: 'https://example.com/b', path: '/b' });
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('drops held events whose purposes were not granted', () => {
+      const odl = create();
+      odl.track('page.view');
+      odl.track('ad.clicked', { adId: 'a1' });
+
+      odl.updateContext('consent', { status: 'granted', purposes: { analytics: true } });
+
+      expect(names(odl)).toEqual(['page.view']);
+    });
+
+    it('drops held events on denial', () => {
+      const odl = create();
+      odl.track('page.view');
+
+      odl.updateContext('consent', { status: 'denied' });
+
+      expect(names(odl)).toEqual([]);
+    });
+
+    it('keeps only the newest queueSize events', () => {
+      const odl = create({ queueSize: 2 });
+      odl.track('custom.one');
+      odl.track('custom.two');
+      odl.track('custom.three');
+
+      odl.updateContext('consent', { status: 'granted', purposes: { analytics: true } });
+
+      expect(names(odl)).toEqual(['custom.two', 'custom.three']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Decided consent
+  // ---------------------------------------------------------------------------
+
+  describe('once decided', () => {
+    it('cancels events whose purposes are not granted', () => {
+      const odl = create({}, { consent: { status: 'granted', purposes: { marketing: false } } });
+
+      odl.track('page.view');
+      odl.track('ad.clicked', { adId: 'a1' });
+
+      expect(names(odl)).toEqual(['page.view']);
+    });
+
+    it('keeps a consent context set before registration', () => {
+      const odl = create({}, { consent: { status: 'denied' } });
+
+      expect(odl.getContext().consent).toEqual({ status: 'denied' });
+    });
+
+    it('applies custom purposes and default purpose', () => {
+      const odl = create(
+        { purposes: { search: 'personalization' }, defaultPurpose: 'functional' },
+        { consent: { status: 'granted', purposes: { personalization: false, functional: true } } },
+      );
+
+      odl.track('search.performed', { query: 'shoes' });
+      odl.track('page.view');
+
+      expect(names(odl)).toEqual(['page.view']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Consent events and persistence
+  // ---------------------------------------------------------------------------
+
+  describe('consent events', () => {
+    it('updates the context from consent.given and consent.revoked', () => {
+      const odl = create();
+
+      odl.track('consent.given', {
+        purposes: { analytics: true, marketing: true },
+        method: 'banner',
+      });
+      expect(odl.getContext().consent).toMatchObject({
+        status: 'granted',
+        method: 'banner',
+        purposes: { analytics: true, marketing: true, personalization: false, functional: false },
+      });
+
+      odl.track('consent.revoked', { purposes: { analytics: true, marketing: true } });
+      expect(odl.getContext().consent).toMatchObject({
+        status: 'denied',
+        purposes: { analytics: false, marketing: false },
+      });
+    });
+
+    it('records purposes consent.given leaves ungranted', () => {
+      const odl = create();
+
+      odl.track('consent.given', { purposes: { analytics: true, x_vendor: false } });
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({
+        analytics: true,
+        x_vendor: false,
+      });
+      expect(isConsentGranted(odl.getContext().consent, ['x_vendor'])).toBe(false);
+    });
+
+    it('replaces the purposes on consent.preferences_updated', () => {
+      const odl = create({}, { consent: { status: 'granted', purposes: { analytics: true } } });
+
+      odl.track('consent.preferences_updated', { purposes: { marketing: true } });
+
+      expect(odl.getContext().consent?.purposes).toEqual({ analytics: false, marketing: true });
+    });
+
+    it('stores the choice and restores it on the next load', () => {
+      const items = new Map<string, string>();
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+      });
+
+      const first = new OpenDataLayer({ plugins: [consent()] });
+      first.track('consent.given', { purposes: { analytics: true } });
+      const second = new OpenDataLayer({ plugins: [consent()] });
+      vi.unstubAllGlobals();
+
+      expect(items.has('odl:consent:state')).toBe(true);
+      expect(second.getContext().consent).toEqual(first.getContext().consent);
+      expect(second.getContext().consent?.status).toBe('granted');
+    });
+  });
+});
@@ -209,5 +209,350 @@ describe('ContextManager', () => {
     it('snapshot of empty context returns empty object', () => {
       expect(ctx.snapshot()).toEqual({});
     });
+
+    it('keeps Date values and undefined fields', () => {
+      const start = new Date('2024-01-01T00:00:00.000Z');
+      ctx.set('session', { start, campaign: undefined });
+
+      const snap = ctx.snapshot().session as Record<string, unknown>;
+
+      expect(snap.start).toEqual(start);
+      expect(snap.start).not.toBe(start);
+      expect('campaign' in snap).toBe(true);
+    });
+
+    it('does not throw on circular values', () => {
+      const node: Record<string, unknown> = { id: 'root' };
+      node.parent = node;
+      ctx.set('tree', node);
+
+      const snap = ctx.snapshot().tree as Record<string, unknown>;
+
+      expect(snap.parent).toBe(snap);
+    });
+
+    it('only copies keys accepted by the include filter', () => {
+      ctx.set('user', { id: '42' });
+      ctx.set('cart', { items: 3 });
+
+      expect(ctx.snapshot((key) => key !== 'cart')).toEqual({ user: { id: '42' } });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // onChange()
+  // ---------------------------------------------------------------------------
+
+  describe('onChange()', () => {
+    it('announces set() with previous, next and diff', () => {
+      const handler = vi.fn();
+      ctx.set('user', { id: '1' });
+      ctx.onChange(handler);
+
+      ctx.set('user', { id: '2' });
+
+      expect(handler).toHaveBeenCalledWith({
+        key: 'user',
+        previous: { id: '1' },
+        next: { id: '2' },
+        diff: [{ path: 'user.id', previous: '1', next: '2' }],
+      });
+    });
+
+    it('announces update() with the merged value', () => {
+      const handler = vi.fn();
+      ctx.set('user', { id: '1', traits: { tier: 'gold' } });
+      ctx.onChange(handler);
+
+      ctx.update('user', { traits: { name: 'Jane' } });
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          next: { id: '1', traits: { tier: 'gold', name: 'Jane' } },
+          diff: [{ path: 'user.traits.name', previous: undefined, next: 'Jane' }],
+        }),
+      );
+    });
+
+    it('announces remove() and reset() per key', () => {
+      const handler = vi.fn();
+      ctx.set('user', { id: '1' });
+      ctx.set('page', { url: '/' });
+      ctx.onChange(handler);
+
+      ctx.remove('user');
+      ctx.reset();
+
+      expect(handler.mock.calls.map(([change]) => [change.key, change.next])).toEqual([
+        ['user', undefined],
+        ['page', undefined],
+      ]);
+    });
+
+    it('does not announce changes that leave the value equal', () => {
+      const handler = vi.fn();
+      ctx.set('user', { id: '1' });
+      ctx.onChange(handler);
+
+      ctx.set('user', { id: '1' });
+      ctx.update('user', { id: '1' });
+      ctx.remove('missing');
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('returns an unsubscribe function', () => {
+      const handler = vi.fn();
+      const unsub = ctx.onChange(handler);
+      unsub();
+
+      ctx.set('user', { id: '1' });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('reports handler errors and keeps notifying other handlers', () => {
+      const error = new Error('handler broke');
+      const reportError = vi.fn();
+      const manager = new ContextManager(undefined, reportError);
+      const other = vi.fn();
+      manager.onChange(() => {
+        throw error;
+      });
+      manager.onChange(other);
+
+      manager.set('user', { id: '1' });
+
+      expect(reportError).toHaveBeenCalledWith(error, 'user');
+      expect(other).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // history() / at()
+  // ---------------------------------------------------------------------------
+
+  describe('history', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('is disabled by default', () => {
+      ctx.set('user', { id: '1' });
+
+      expect(ctx.history()).toHaveLength(0);
+      expect(ctx.at(new Date())).toBeUndefined();
+    });
+
+    it('records changes with a snapshot of the whole context', () => {
+      const manager = new ContextManager({ history: 10 });
+      manager.set('user', { id: '1' });
+      manager.set('page', { url: '/' });
+
+      const entries = manager.history();
+      expect(entries.map((entry) => entry.key)).toEqual(['user', 'page']);
+      expect(entries[1]?.context).toEqual({ user: { id: '1' }, page: { url: '/' } });
+    });
+
+    it('is bounded to the configured number of changes', () => {
+      const manager = new ContextManager({ history: 2 });
+      manager.set('a', 1);
+      manager.set('b', 2);
+      manager.set('c', 3);
+
+      expect(manager.history().map((entry) => entry.key)).toEqual(['b', 'c']);
+    });
+
+    it('at() returns the context as it was at a given time', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const manager = new ContextManager({ history: 10 });
+
+      manager.set('user', { id: '1' });
+      vi.setSystemTime(new Date('2024-01-01T00:01:00.000Z'));
+      manager.set('user', { id: '2' });
+
+      expect(manager.at('2023-12-31T23:59:59.000Z')).toEqual({});
+      expect(manager.at('2024-01-01T00:00:30.000Z')).toEqual({ user: { id: '1' } });
+      expect(manager.at(new Date('2024-01-01T00:02:00.000Z'))).toEqual({ user: { id: '2' } });
+    });
+
+    it('at() returns undefined once the history no longer reaches back', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+      const manager = new ContextManager({ history: 1 });
+
+      manager.set('a', 1);
+      vi.setSystemTime(new Date('2024-01-01T00:01:00.000Z'));
+      manager.set('b', 2);
+
+      expect(manager.at('2024-01-01T00:00:30.000Z')).toBeUndefined();
+    });
+
+    it('history snapshots are not affected by later changes', () => {
+      const manager = new ContextManager({ history: 10 });
+      manager.set('user', { id: '1' });
+      (manager.get().user as Record<string, unknown>).id = 'mutated';
+
+      expect(manager.history()[0]?.context).toEqual({ user: { id: '1' } });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // TTL
+  // ---------------------------------------------------------------------------
+
+  describe('ttl', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('removes a key once its TTL has elapsed', () => {
+      ctx.set('session', { id: 's1' }, { ttl: 1000 });
+
+      vi.advanceTimersByTime(999);
+      expect(ctx.get().session).toEqual({ id: 's1' });
+
+      vi.advanceTimersByTime(1);
+      expect(ctx.get().session).toBeUndefined();
+      expect(ctx.snapshot()).toEqual({});
+    });
+
+    it('announces expiry as a removal', () => {
+      const handler = vi.fn();
+      ctx.set('session', { id: 's1' }, { ttl: 1000 });
+      ctx.onChange(handler);
+
+      vi.advanceTimersByTime(1000);
+      ctx.snapshot();
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'session', previous: { id: 's1' }, next: undefined }),
+      );
+    });
+
+    it('a sliding TTL restarts whenever the key is snapshotted', () => {
+      ctx.set('session', { id: 's1' }, { ttl: 1000, sliding: true });
+
+      vi.advanceTimersByTime(800);
+      ctx.snapshot();
+      vi.advanceTimersByTime(800);
+
+      expect(ctx.snapshot()).toEqual({ session: { id: 's1' } });
+
+      vi.advanceTimersByTime(1000);
+      expect(ctx.snapshot()).toEqual({});
+    });
+
+    it('a fixed TTL is not restarted by snapshots or updates', () => {
+      ctx.set('campaign', { source: 'mail' }, { ttl: 1000 });
+
+      vi.advanceTimersByTime(600);
+      ctx.snapshot();
+      ctx.update('campaign', { medium: 'email' });
+      vi.advanceTimersByTime(400);
+
+      expect(ctx.get().campaign).toBeUndefined();
+    });
+
+    it('update() restarts a sliding TTL', () => {
+      ctx.set('session', { pageViews: 1 }, { ttl: 1000, sliding: true });
+
+      vi.advanceTimersByTime(800);
+      ctx.update('session', { pageViews: 2 });
+      vi.advanceTimersByTime(800);
+
+      expect(ctx.get().session).toEqual({ pageViews: 2 });
+    });
+
+    it('set() without a TTL makes the key permanent again', () => {
+      ctx.set('session', { id: 's1' }, { ttl: 1000 });
+      ctx.set('session', { id: 's2' });
+
+      vi.advanceTimersByTime(5000);
+
+      expect(ctx.get().session).toEqual({ id: 's2' });
+    });
+
+    it('update() on an expired key starts from an empty value', () => {
+      ctx.set('session', { id: 's1', pageViews: 5 }, { ttl: 1000 });
+
+      vi.advanceTimersByTime(1000);
+      ctx.update('session', { id: 's2' });
+
+      expect(ctx.get().session).toEqual({ id: 's2' });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // provide()
+  // ---------------------------------------------------------------------------
+
+  describe('provide()', () => {
+    it('evaluates the provider on every snapshot', () => {
+      let width = 1024;
+      ctx.provide('device', () => ({ viewport: { width } }));
+
+      expect(ctx.snapshot()).toEqual({ device: { viewport: { width: 1024 } } });
+      width = 800;
+      expect(ctx.snapshot()).toEqual({ device: { viewport: { width: 800 } } });
+    });
+
+    it('takes precedence over a stored value for the same key', () => {
+      ctx.set('device', { type: 'stored' });
+      ctx.provide('device', () => ({ type: 'provided' }));
+
+      expect(ctx.snapshot()).toEqual({ device: { type: 'provided' } });
+      expect(ctx.get()).toEqual({ device: { type: 'stored' } });
+    });
+
+    it('is only evaluated for included keys', () => {
+      const provider = vi.fn(() => ({ type: 'desktop' }));
+      ctx.provide('device', provider);
+
+      expect(ctx.snapshot((key) => key !== 'device')).toEqual({});
+      expect(provider).not.toHaveBeenCalled();
+    });
+
+    it('clones the provided value', () => {
+      const value = { nested: { a: 1 } };
+      ctx.provide('device', () => value);
+
+      const snap = ctx.snapshot().device as typeof value;
+
+      expect(snap).toEqual(value);
+      expect(snap.nested).not.toBe(value.nested);
+    });
+
+    it('omits the key and reports the error when the provider throws', () => {
+      const error = new Error('provider broke');
+      const reportError = vi.fn();
+      const manager = new ContextManager(undefined, reportError);
+      manager.set('user', { id: '1' });
+      manager.provide('device', () => {
+        throw error;
+      });
+
+      expect(manager.snapshot()).toEqual({ user: { id: '1' } });
+      expect(reportError).toHaveBeenCalledWith(error, 'device');
+    });
+
+    it('returns a function that unregisters the provider', () => {
+      const unregister = ctx.provide('device', () => ({ type: 'desktop' }));
+      unregister();
+
+      expect(ctx.snapshot()).toEqual({});
+    });
+
+    it('survives reset()', () => {
+      ctx.provide('device', () => ({ type: 'desktop' }));
+      ctx.reset();
+
+      expect(ctx.snapshot()).toEqual({ device: { type: 'desktop' } });
+    });
   });
 });
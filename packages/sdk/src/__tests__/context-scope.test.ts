@@ -0,0 +1,70 @@
+import { compileContextScope } from '../core/context-scope.js';
+import type { ODLEvent } from '../core/event-bus.js';
+
+function makeEvent(overrides: Partial<ODLEvent> = {}): ODLEvent {
+  return {
+    event: 'test.event',
+    id: 'test-id',
+    timestamp: new Date().toISOString(),
+    specVersion: '1.0.0',
+    ...overrides,
+  };
+}
+
+describe('compileContextScope', () => {
+  it('includes every key when there are no rules', () => {
+    const filter = compileContextScope();
+
+    expect(filter('user', makeEvent())).toBe(true);
+  });
+
+  it('includes keys without a rule', () => {
+    const filter = compileContextScope({ cart: { include: 'ecommerce.*' } });
+
+    expect(filter('user', makeEvent({ event: 'page.view' }))).toBe(true);
+  });
+
+  it('limits a key to events matching its include patterns', () => {
+    const filter = compileContextScope({ cart: { include: 'ecommerce.*' } });
+
+    expect(filter('cart', makeEvent({ event: 'ecommerce.purchase' }))).toBe(true);
+    expect(filter('cart', makeEvent({ event: 'page.view' }))).toBe(false);
+  });
+
+  it('accepts a list of include patterns', () => {
+    const filter = compileContextScope({ cart: { include: ['ecommerce.*', 'cart.*'] } });
+
+    expect(filter('cart', makeEvent({ event: 'cart.viewed' }))).toBe(true);
+    expect(filter('cart', makeEvent({ event: 'page.view' }))).toBe(false);
+  });
+
+  it('omits a key from events matching its exclude patterns', () => {
+    const filter = compileContextScope({ location: { exclude: 'page.*' } });
+
+    expect(filter('location', makeEvent({ event: 'page.view' }))).toBe(false);
+    expect(filter('location', makeEvent({ event: 'ecommerce.purchase' }))).toBe(true);
+  });
+
+  it('applies exclude after include', () => {
+    const filter = compileContextScope({
+      cart: { include: 'ecommerce.*', exclude: 'ecommerce.refund' },
+    });
+
+    expect(filter('cart', makeEvent({ event: 'ecommerce.purchase' }))).toBe(true);
+    expect(filter('cart', makeEvent({ event: 'ecommerce.refund' }))).toBe(false);
+  });
+
+  it('never includes a key with an empty include list', () => {
+    const filter = compileContextScope({ debug: { include: [] } });
+
+    expect(filter('debug', makeEvent())).toBe(false);
+  });
+
+  it('lets per-event overrides win over the rules', () => {
+    const filter = compileContextScope({ cart: { include: 'ecommerce.*' } });
+    const event = makeEvent({ event: 'page.view' });
+
+    expect(filter('cart', event, { cart: true })).toBe(true);
+    expect(filter('user', event, { user: false })).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import type { ODLRuntimeEvent, ODLRuntimePlugin } from '@opendatalayer/types';
+import { describe, expectTypeOf, it } from 'vitest';
+import type { ODLEvent } from '../core/event-bus.js';
+import type { OpenDataLayer } from '../odl.js';
+import type { ODLPlugin, PluginContext } from '../plugins/types.js';
+
+// Adapters and @opendatalayer/testing are typed against the runtime contract
+// in @opendatalayer/types rather than the SDK. These checks fail to compile
+// as soon as the SDK's own types drift from it.
+
+describe('runtime contract', () => {
+  it('the SDK emits the shared event type', () => {
+    expectTypeOf<ODLEvent>().toEqualTypeOf<ODLRuntimeEvent>();
+    expectTypeOf<ReturnType<OpenDataLayer['track']>>().toEqualTypeOf<ODLRuntimeEvent>();
+    expectTypeOf<Parameters<OpenDataLayer['on']>[1]>()
+      .parameter(0)
+      .toEqualTypeOf<ODLRuntimeEvent>();
+  });
+
+  it('SDK plugins are contract plugins that receive a PluginContext', () => {
+    expectTypeOf<ODLPlugin>().toEqualTypeOf<ODLRuntimePlugin<PluginContext>>();
+  });
+
+  it('adapters written against the contract can be registered', () => {
+    expectTypeOf<ODLRuntimePlugin>().toMatchTypeOf<Parameters<OpenDataLayer['use']>[0]>();
+  });
+});
@@ -296,6 +296,56 @@ describe('DataLayer', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // pushAsync() awaits asynchronous middleware
+  // ---------------------------------------------------------------------------
+
+  describe('pushAsync()', () => {
+    it('resolves after async middleware ran and the event was stored and emitted', async () => {
+      const handler = vi.fn();
+      dl.on('test.event', handler);
+
+      dl.use(async (event, next) => {
+        await Promise.resolve();
+        event.data = { geo: 'DE' };
+        await next();
+      });
+
+      const event = await dl.pushAsync('test.event');
+
+      expect(event.data).toEqual({ geo: 'DE' });
+      expect(dl.getEvents()).toEqual([event]);
+      expect(handler).toHaveBeenCalledWith(event);
+    });
+
+    it('resolves with the event but does not store it when cancelled', async () => {
+      dl.use(async () => {
+        // Cancel by settling without calling next()
+      });
+
+      const event = await dl.pushAsync('test.event');
+
+      expect(event.event).toBe('test.event');
+      expect(dl.getEvents()).toHaveLength(0);
+    });
+
+    it('applies the middleware timeout configured on the constructor', async () => {
+      vi.useFakeTimers();
+      try {
+        const timed = new DataLayer(undefined, { middleware: { timeout: 100 } });
+        timed.use(() => new Promise<void>(() => {}));
+
+        const pending = timed.pushAsync('test.event');
+        await vi.advanceTimersByTimeAsync(100);
+        await pending;
+
+        expect(timed.getEvents()).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // setContext(), getContext(), updateContext()
   // ---------------------------------------------------------------------------
@@ -348,6 +398,117 @@ describe('DataLayer', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Context scoping
+  // ---------------------------------------------------------------------------
+
+  describe('contextScope option', () => {
+    let scoped: DataLayer;
+
+    beforeEach(() => {
+      scoped = new DataLayer(undefined, {
+        contextScope: {
+          cart: { include: 'ecommerce.*' },
+          location: { exclude: 'page.*' },
+        },
+      });
+      scoped.setContext('cart', { items: 2 });
+      scoped.setContext('location', { country: 'NL' });
+      scoped.setContext('user', { id: '42' });
+    });
+
+    it('attaches only the keys in scope for the event', () => {
+      expect(scoped.push('page.view').context).toEqual({ user: { id: '42' } });
+      expect(scoped.push('ecommerce.purchase').context).toEqual({
+        cart: { items: 2 },
+        location: { country: 'NL' },
+        user: { id: '42' },
+      });
+    });
+
+    it('applies per-call overrides', () => {
+      const event = scoped.push('page.view', undefined, undefined, {
+        context: { cart: true, user: false },
+      });
+
+      expect(event.context).toEqual({ cart: { items: 2 } });
+    });
+
+    it('applies per-call overrides without any rules', () => {
+      dl.setContext('user', { id: '42' });
+
+      const event = dl.push('test.event', undefined, undefined, { context: { user: false } });
+
+      expect(event.context).toEqual({});
+    });
+
+    it('scopes events pushed with pushAsync', async () => {
+      const event = await scoped.pushAsync('page.view');
+
+      expect(event.context).toEqual({ user: { id: '42' } });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Retention
+  // ---------------------------------------------------------------------------
+
+  describe('retention option', () => {
+    it('bounds getEvents() and getLastEvent()', () => {
+      const bounded = new DataLayer(undefined, { retention: { maxEvents: 2 } });
+      bounded.push('a');
+      bounded.push('b');
+      bounded.push('c');
+
+      expect(bounded.getEvents().map((e) => e.event)).toEqual(['b', 'c']);
+      expect(bounded.getLastEvent()?.event).toBe('c');
+    });
+
+    it('still emits events when storage is disabled', () => {
+      const unstored = new DataLayer(undefined, { retention: false });
+      const handler = vi.fn();
+      unstored.on('*', handler);
+
+      unstored.push('test.event');
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(unstored.getEvents()).toHaveLength(0);
+      expect(unstored.getLastEvent()).toBeUndefined();
+    });
+
+    it('replays only retained events', () => {
+      const bounded = new DataLayer(undefined, { retention: { maxEvents: 1 } });
+      bounded.push('a');
+      bounded.push('b');
+      const handler = vi.fn();
+
+      bounded.on('*', handler, { replay: true });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]?.[0].event).toBe('b');
+    });
+
+    it('reports onEvict errors on the diagnostic channel', () => {
+      const bounded = new DataLayer(undefined, {
+        retention: {
+          maxEvents: 1,
+          onEvict: () => {
+            throw new Error('evict broke');
+          },
+        },
+      });
+      const diagnostics = vi.fn();
+      bounded.onDiagnostic(diagnostics);
+
+      bounded.push('a');
+      bounded.push('b');
+
+      expect(diagnostics).toHaveBeenCalledWith(
+        expect.objectContaining({ origin: 'storage', name: 'onEvict' }),
+      );
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // reset() clears events and context
   // ---------------------------------------------------------------------------
@@ -118,6 +118,127 @@ describe('EventBus', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Extended patterns: negation, alternation, predicates
+  // ---------------------------------------------------------------------------
+
+  describe('extended patterns', () => {
+    it('supports negated patterns', () => {
+      const handler = vi.fn();
+      bus.on('!ecommerce.refund', handler);
+
+      bus.emit(makeEvent({ event: 'ecommerce.refund' }));
+      bus.emit(makeEvent({ event: 'ecommerce.purchase' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('supports alternation', () => {
+      const handler = vi.fn();
+      bus.on('{page,ecommerce}.*', handler);
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+      bus.emit(makeEvent({ event: 'ecommerce.purchase' }));
+      bus.emit(makeEvent({ event: 'media.play' }));
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('supports predicate subscriptions and unsubscribing them', () => {
+      const handler = vi.fn();
+      const isLarge = (event: ODLEvent): boolean => Number(event.data?.revenue) > 100;
+      const unsub = bus.on(isLarge, handler);
+
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', data: { revenue: 250 } }));
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', data: { revenue: 50 } }));
+      unsub();
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', data: { revenue: 500 } }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('treats a throwing predicate as a non-match and reports it', () => {
+      const diagnostic = vi.fn();
+      const handler = vi.fn();
+      bus.onDiagnostic(diagnostic);
+      bus.on(() => {
+        throw new Error('bad predicate');
+      }, handler);
+
+      expect(() => bus.emit(makeEvent())).not.toThrow();
+      expect(handler).not.toHaveBeenCalled();
+      expect(diagnostic).toHaveBeenCalledWith(expect.objectContaining({ origin: 'subscriber' }));
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Indexed dispatch
+  // ---------------------------------------------------------------------------
+
+  describe('indexed dispatch', () => {
+    it('delivers in registration order across exact, prefix and wildcard subscriptions', () => {
+      const order: string[] = [];
+
+      bus.on('ecommerce.*', () => order.push('prefix'));
+      bus.on('*', () => order.push('universal'));
+      bus.on('ecommerce.purchase', () => order.push('exact'));
+      bus.on('!page.view', () => order.push('negated'));
+      bus.on('ecommerce.{purchase,refund}', () => order.push('alternation'));
+
+      bus.emit(makeEvent({ event: 'ecommerce.purchase' }));
+
+      expect(order).toEqual(['prefix', 'universal', 'exact', 'negated', 'alternation']);
+    });
+
+    it('checks prefix candidates against the full pattern', () => {
+      const handler = vi.fn();
+      bus.on('media.video.*', handler);
+
+      bus.emit(makeEvent({ event: 'media.video' }));
+      bus.emit(makeEvent({ event: 'media.audio.started' }));
+      bus.emit(makeEvent({ event: 'media.video.started' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps sibling subscriptions after one prefix subscription is removed', () => {
+      const removed = vi.fn();
+      const kept = vi.fn();
+      const unsub = bus.on('media.video.*', removed);
+      bus.on('media.*', kept);
+
+      unsub();
+      bus.emit(makeEvent({ event: 'media.video.started' }));
+      bus.emit(makeEvent({ event: 'media.play' }));
+
+      expect(removed).not.toHaveBeenCalled();
+      expect(kept).toHaveBeenCalledTimes(1);
+    });
+
+    it('resubscribing after the last handler left works again', () => {
+      const handler = vi.fn();
+      bus.on('page.view', handler)();
+      bus.on('page.view', handler);
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('subscriptions added during emit do not receive the current event', () => {
+      const late = vi.fn();
+      bus.on('page.view', () => {
+        bus.on('page.*', late);
+      });
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+      expect(late).not.toHaveBeenCalled();
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+      expect(late).toHaveBeenCalledTimes(1);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Multiple handlers for same pattern
   // ---------------------------------------------------------------------------
@@ -282,6 +403,278 @@ describe('EventBus', () => {
       expect(handler1).toHaveBeenCalledTimes(1);
       expect(handler2).toHaveBeenCalledTimes(1);
     });
+    it('reports handler errors on the diagnostic channel', () => {
+      const diagnostic = vi.fn();
+      bus.onDiagnostic(diagnostic);
+      bus.on('test.*', () => {
+        throw new Error('boom');
+      });
+
+      const event = makeEvent();
+      bus.emit(event);
+
+      expect(diagnostic).toHaveBeenCalledWith({
+        origin: 'subscriber',
+        error: expect.objectContaining({ message: 'boom' }),
+        event,
+        name: 'test.*',
+      });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Late subscription replay
+  // ---------------------------------------------------------------------------
+
+  describe('replay option', () => {
+    const history = [
+      makeEvent({ event: 'page.view', id: '1' }),
+      makeEvent({ event: 'ecommerce.product_viewed', id: '2' }),
+      makeEvent({ event: 'page.virtual_view', id: '3' }),
+      makeEvent({ event: 'ecommerce.purchase', id: '4' }),
+    ];
+
+    beforeEach(() => {
+      bus = new EventBus(() => history);
+    });
+
+    it('replays matching historical events in original order', () => {
+      const ids: string[] = [];
+      bus.on('ecommerce.*', (event) => ids.push(event.id), { replay: true });
+
+      expect(ids).toEqual(['2', '4']);
+    });
+
+    it('replays only the last N matches when given a number', () => {
+      const ids: string[] = [];
+      bus.on('*', (event) => ids.push(event.id), { replay: 2 });
+
+      expect(ids).toEqual(['3', '4']);
+    });
+
+    it('delivers live events after the replayed ones', () => {
+      const ids: string[] = [];
+      bus.on('page.*', (event) => ids.push(event.id), { replay: true });
+
+      bus.emit(makeEvent({ event: 'page.view', id: '5' }));
+
+      expect(ids).toEqual(['1', '3', '5']);
+    });
+
+    it('does not replay without the option', () => {
+      const handler = vi.fn();
+      bus.on('*', handler);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('stops replaying once the handler unsubscribes', () => {
+      const ids: string[] = [];
+      // Unsubscribe from within the first replayed delivery.
+      const handler = (event: ODLEvent): void => {
+        ids.push(event.id);
+        bus.off('*', handler);
+      };
+
+      bus.on('*', handler, { replay: true });
+
+      expect(ids).toEqual(['1']);
+    });
+
+    it('replays nothing when the bus has no history source', () => {
+      const handler = vi.fn();
+      new EventBus().on('*', handler, { replay: true });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // once() and waitFor()
+  // ---------------------------------------------------------------------------
+
+  describe('once()', () => {
+    it('calls the handler for the first matching event only', () => {
+      const handler = vi.fn();
+      bus.once('ecommerce.purchase', handler);
+
+      const first = makeEvent({ event: 'ecommerce.purchase', id: '1' });
+      bus.emit(first);
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', id: '2' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(first);
+    });
+
+    it('ignores non-matching events', () => {
+      const handler = vi.fn();
+      bus.once('ecommerce.*', handler);
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+      bus.emit(makeEvent({ event: 'ecommerce.purchase' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('can be cancelled before a match arrives', () => {
+      const handler = vi.fn();
+      const unsub = bus.once('test.event', handler);
+      unsub();
+
+      bus.emit(makeEvent());
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('is not called again when the handler re-emits', () => {
+      const handler = vi.fn(() => bus.emit(makeEvent()));
+      bus.once('test.event', handler);
+
+      bus.emit(makeEvent());
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not affect other handlers for the same pattern', () => {
+      const persistent = vi.fn();
+      bus.on('test.event', persistent);
+      bus.once('test.event', vi.fn());
+
+      bus.emit(makeEvent());
+      bus.emit(makeEvent());
+
+      expect(persistent).toHaveBeenCalledTimes(2);
+    });
+
+    it('replays only the first stored match', () => {
+      const history = [makeEvent({ id: '1' }), makeEvent({ id: '2' })];
+      const replayBus = new EventBus(() => history);
+      const handler = vi.fn();
+
+      replayBus.once('test.event', handler, { replay: true });
+      replayBus.emit(makeEvent({ id: '3' }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]?.[0].id).toBe('1');
+    });
+  });
+
+  describe('waitFor()', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('resolves with the next matching event', async () => {
+      const promise = bus.waitFor('consent.given');
+      const event = makeEvent({ event: 'consent.given' });
+
+      bus.emit(makeEvent({ event: 'page.view' }));
+      bus.emit(event);
+
+      await expect(promise).resolves.toBe(event);
+    });
+
+    it('only resolves for events satisfying the predicate', async () => {
+      const promise = bus.waitFor('ecommerce.*', {
+        predicate: (event) => event.data?.value === 2,
+      });
+
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', data: { value: 1 } }));
+      bus.emit(makeEvent({ event: 'ecommerce.purchase', data: { value: 2 } }));
+
+      const event = await promise;
+      expect(event.data).toEqual({ value: 2 });
+    });
+
+    it('rejects when the timeout elapses', async () => {
+      vi.useFakeTimers();
+      const promise = bus.waitFor('consent.given', { timeout: 100 });
+      const assertion = expect(promise).rejects.toThrow(
+        'Timed out after 100ms waiting for "consent.given"',
+      );
+
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it('rejects when the predicate throws', async () => {
+      const promise = bus.waitFor('test.event', {
+        predicate: () => {
+          throw new Error('predicate broke');
+        },
+      });
+
+      bus.emit(makeEvent());
+
+      await expect(promise).rejects.toThrow('predicate broke');
+    });
+
+    it('unsubscribes once the event arrives', async () => {
+      const promise = bus.waitFor('test.event');
+      bus.emit(makeEvent());
+      await promise;
+
+      // The pattern's subscription was removed from the index.
+      expect((bus as unknown as { subscriptions: Map<unknown, unknown> }).subscriptions.size).toBe(
+        0,
+      );
+    });
+
+    it('unsubscribes and clears the timer on timeout', async () => {
+      vi.useFakeTimers();
+      const promise = bus.waitFor('test.event', { timeout: 50 });
+      promise.catch(() => {});
+
+      await vi.advanceTimersByTimeAsync(50);
+
+      expect(vi.getTimerCount()).toBe(0);
+      expect((bus as unknown as { subscriptions: Map<unknown, unknown> }).subscriptions.size).toBe(
+        0,
+      );
+    });
+
+    it('clears the timer when resolved before the timeout', async () => {
+      vi.useFakeTimers();
+      const promise = bus.waitFor('test.event', { timeout: 1000 });
+
+      bus.emit(makeEvent());
+      await promise;
+
+      expect(vi.getTimerCount()).toBe(0);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Diagnostic channel
+  // ---------------------------------------------------------------------------
+
+  describe('diagnostic channel', () => {
+    it('onDiagnostic() returns an unsubscribe function', () => {
+      const diagnostic = vi.fn();
+      const unsub = bus.onDiagnostic(diagnostic);
+
+      unsub();
+      bus.reportDiagnostic({ origin: 'plugin', error: new Error('boom') });
+
+      expect(diagnostic).not.toHaveBeenCalled();
+    });
+
+    it('diagnostics are not delivered to event subscribers', () => {
+      const handler = vi.fn();
+      bus.on('*', handler);
+
+      bus.reportDiagnostic({ origin: 'plugin', error: new Error('boom') });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('swallows errors thrown by diagnostic handlers', () => {
+      bus.onDiagnostic(() => {
+        throw new Error('reporter broke');
+      });
+
+      expect(() => bus.reportDiagnostic({ origin: 'plugin', error: 'x' })).not.toThrow();
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -0,0 +1,195 @@
+import type { ODLEvent } from '../core/event-bus.js';
+import { EventStore } from '../core/event-store.js';
+
+function makeEvent(overrides: Partial<ODLEvent> = {}): ODLEvent {
+  return {
+    event: 'test.event',
+    id: 'test-id',
+    timestamp: new Date().toISOString(),
+    specVersion: '1.0.0',
+    ...overrides,
+  };
+}
+
+describe('EventStore', () => {
+  // ---------------------------------------------------------------------------
+  // Unbounded storage
+  // ---------------------------------------------------------------------------
+
+  describe('without retention limits', () => {
+    it('keeps every event in insertion order', () => {
+      const store = new EventStore();
+      const events = Array.from({ length: 5 }, (_, i) => makeEvent({ id: String(i) }));
+
+      for (const event of events) store.add(event);
+
+      expect(store.all()).toEqual(events);
+    });
+
+    it('clear() drops every event', () => {
+      const store = new EventStore();
+      store.add(makeEvent());
+
+      store.clear();
+
+      expect(store.all()).toHaveLength(0);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Disabled storage
+  // ---------------------------------------------------------------------------
+
+  describe('with retention disabled', () => {
+    it('stores nothing', () => {
+      const store = new EventStore(false);
+
+      store.add(makeEvent());
+
+      expect(store.all()).toHaveLength(0);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // maxEvents
+  // ---------------------------------------------------------------------------
+
+  describe('maxEvents', () => {
+    it('evicts the oldest events beyond the limit', () => {
+      const onEvict = vi.fn();
+      const store = new EventStore({ maxEvents: 2, onEvict });
+
+      store.add(makeEvent({ id: '1' }));
+      store.add(makeEvent({ id: '2' }));
+      store.add(makeEvent({ id: '3' }));
+
+      expect(store.all().map((e) => e.id)).toEqual(['2', '3']);
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict).toHaveBeenCalledWith([expect.objectContaining({ id: '1' })], 'maxEvents');
+    });
+
+    it('maxEvents: 0 keeps nothing but reports every event as evicted', () => {
+      const onEvict = vi.fn();
+      const store = new EventStore({ maxEvents: 0, onEvict });
+
+      store.add(makeEvent());
+
+      expect(store.all()).toHaveLength(0);
+      expect(onEvict).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // maxAge
+  // ---------------------------------------------------------------------------
+
+  describe('maxAge', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('evicts events older than maxAge when they are read', () => {
+      const onEvict = vi.fn();
+      const store = new EventStore({ maxAge: 1000, onEvict });
+
+      store.add(makeEvent({ id: '1' }));
+      vi.advanceTimersByTime(600);
+      store.add(makeEvent({ id: '2' }));
+      vi.advanceTimersByTime(500);
+
+      expect(store.all().map((e) => e.id)).toEqual(['2']);
+      expect(onEvict).toHaveBeenCalledWith([expect.objectContaining({ id: '1' })], 'maxAge');
+    });
+
+    it('measures age from storage time, not the event timestamp', () => {
+      const store = new EventStore({ maxAge: 1000 });
+
+      store.add(makeEvent({ timestamp: '2000-01-01T00:00:00.000Z' }));
+
+      expect(store.all()).toHaveLength(1);
+    });
+
+    it('evicts expired events when a new event is added', () => {
+      const onEvict = vi.fn();
+      const store = new EventStore({ maxAge: 100, onEvict });
+
+      store.add(makeEvent({ id: '1' }));
+      vi.advanceTimersByTime(200);
+      store.add(makeEvent({ id: '2' }));
+
+      expect(onEvict).toHaveBeenCalledWith([expect.objectContaining({ id: '1' })], 'maxAge');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // maxBytes
+  // ---------------------------------------------------------------------------
+
+  describe('maxBytes', () => {
+    it('evicts the oldest events until the estimate fits', () => {
+      const onEvict = vi.fn();
+      const event = makeEvent({ id: '1' });
+      const size = JSON.stringify(event).length;
+      const store = new EventStore({ maxBytes: size * 2, onEvict });
+
+      store.add(event);
+      store.add(makeEvent({ id: '2' }));
+      store.add(makeEvent({ id: '3' }));
+
+      expect(store.all().map((e) => e.id)).toEqual(['2', '3']);
+      expect(onEvict).toHaveBeenCalledWith([expect.objectContaining({ id: '1' })], 'maxBytes');
+    });
+
+    it('evicts several small events to make room for a large one', () => {
+      const onEvict = vi.fn();
+      const small = makeEvent({ id: '1' });
+      const size = JSON.stringify(small).length;
+      const store = new EventStore({ maxBytes: size * 3, onEvict });
+
+      store.add(small);
+      store.add(makeEvent({ id: '2' }));
+      store.add(makeEvent({ id: '3', data: { blob: 'x'.repeat(size) } }));
+
+      expect(store.all().map((e) => e.id)).toEqual(['3']);
+      expect(onEvict.mock.calls[0]?.[0]).toHaveLength(2);
+    });
+
+    it('does not retain an event larger than the limit', () => {
+      const store = new EventStore({ maxBytes: 10 });
+
+      store.add(makeEvent());
+
+      expect(store.all()).toHaveLength(0);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // onEvict errors
+  // ---------------------------------------------------------------------------
+
+  describe('onEvict errors', () => {
+    it('are reported instead of thrown', () => {
+      const error = new Error('evict broke');
+      const reportError = vi.fn();
+      const store = new EventStore(
+        {
+          maxEvents: 1,
+          onEvict: () => {
+            throw error;
+          },
+        },
+        reportError,
+      );
+
+      store.add(makeEvent({ id: '1' }));
+      expect(() => store.add(makeEvent({ id: '2' }))).not.toThrow();
+
+      expect(reportError).toHaveBeenCalledWith(error);
+      expect(store.all().map((e) => e.id)).toEqual(['2']);
+    });
+  });
+});
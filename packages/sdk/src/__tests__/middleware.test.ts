@@ -215,4 +215,326 @@ describe('MiddlewarePipeline', () => {
       expect(finalHandler).not.toHaveBeenCalled();
     });
   });
+
+  // ---------------------------------------------------------------------------
+  // Stages and priorities
+  // ---------------------------------------------------------------------------
+
+  describe('stages and priorities', () => {
+    it('runs middleware in stage order regardless of registration order', () => {
+      const order: string[] = [];
+      const record =
+        (label: string) =>
+        (_event: ODLEvent, next: () => void): void => {
+          order.push(label);
+          next();
+        };
+
+      pipeline.use(record('route'), { stage: 'route' });
+      pipeline.use(record('transform'), { stage: 'transform' });
+      pipeline.use(record('enrich'), { stage: 'enrich' });
+      pipeline.use(record('validate'), { stage: 'validate' });
+
+      pipeline.execute(makeEvent(), vi.fn());
+
+      expect(order).toEqual(['validate', 'enrich', 'transform', 'route']);
+    });
+
+    it('runs higher priorities first within a stage, then registration order', () => {
+      const order: string[] = [];
+      const record =
+        (label: string) =>
+        (_event: ODLEvent, next: () => void): void => {
+          order.push(label);
+          next();
+        };
+
+      pipeline.use(record('a'), { stage: 'enrich' });
+      pipeline.use(record('b'), { stage: 'enrich', priority: 10 });
+      pipeline.use(record('c'), { stage: 'enrich' });
+      pipeline.use(record('d'), { stage: 'enrich', priority: -5 });
+
+      pipeline.execute(makeEvent(), vi.fn());
+
+      expect(order).toEqual(['b', 'a', 'c', 'd']);
+    });
+
+    it('defaults to the transform stage with priority 0', () => {
+      pipeline.use((_event, next) => next());
+
+      expect(pipeline.list()).toEqual([{ stage: 'transform', priority: 0 }]);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Named middleware: remove() and list()
+  // ---------------------------------------------------------------------------
+
+  describe('named middleware', () => {
+    it('list() describes middleware in execution order', () => {
+      pipeline.use((_event, next) => next(), { name: 'router', stage: 'route' });
+      pipeline.use((_event, next) => next(), { name: 'geo', stage: 'enrich', priority: 2 });
+
+      expect(pipeline.list()).toEqual([
+        { name: 'geo', stage: 'enrich', priority: 2 },
+        { name: 'router', stage: 'route', priority: 0 },
+      ]);
+    });
+
+    it('remove() unregisters a middleware by name', () => {
+      const mw = vi.fn((_e: ODLEvent, next: () => void) => next());
+      pipeline.use(mw, { name: 'geo' });
+
+      expect(pipeline.remove('geo')).toBe(true);
+      pipeline.execute(makeEvent(), vi.fn());
+
+      expect(mw).not.toHaveBeenCalled();
+      expect(pipeline.list()).toEqual([]);
+    });
+
+    it('remove() returns false for unknown names', () => {
+      expect(pipeline.remove('missing')).toBe(false);
+    });
+
+    it('throws when a name is registered twice', () => {
+      pipeline.use((_event, next) => next(), { name: 'geo' });
+
+      expect(() => pipeline.use((_event, next) => next(), { name: 'geo' })).toThrow(
+        'Middleware "geo" is already registered',
+      );
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // executeAsync() awaits asynchronous middleware
+  // ---------------------------------------------------------------------------
+
+  describe('executeAsync()', () => {
+    it('awaits async middleware before running finalHandler', async () => {
+      const order: string[] = [];
+
+      pipeline.use(async (event, next) => {
+        await Promise.resolve();
+        event.data = { enriched: true };
+        order.push('async');
+        await next();
+      });
+
+      pipeline.use((_event, next) => {
+        order.push('sync');
+        next();
+      });
+
+      const finalHandler = vi.fn(() => {
+        order.push('final');
+      });
+      const event = makeEvent();
+      const passed = await pipeline.executeAsync(event, finalHandler);
+
+      expect(passed).toBe(true);
+      expect(order).toEqual(['async', 'sync', 'final']);
+      expect(finalHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { enriched: true } }),
+      );
+    });
+
+    it('resolves false when a middleware settles without calling next()', async () => {
+      const finalHandler = vi.fn();
+
+      pipeline.use(async () => {
+        await Promise.resolve();
+      });
+
+      const passed = await pipeline.executeAsync(makeEvent(), finalHandler);
+
+      expect(passed).toBe(false);
+      expect(finalHandler).not.toHaveBeenCalled();
+    });
+
+    it('resolves once downstream middleware have completed', async () => {
+      const order: string[] = [];
+
+      pipeline.use(async (_event, next) => {
+        order.push('before');
+        await next();
+        order.push('after');
+      });
+
+      await pipeline.executeAsync(makeEvent(), () => {
+        order.push('final');
+      });
+
+      expect(order).toEqual(['before', 'final', 'after']);
+    });
+
+    it('rejects when a middleware rejects under the "rethrow" policy', async () => {
+      pipeline = new MiddlewarePipeline({ onError: 'rethrow' });
+      pipeline.use(async () => {
+        throw new Error('lookup failed');
+      });
+
+      await expect(pipeline.executeAsync(makeEvent(), vi.fn())).rejects.toThrow('lookup failed');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Error policies
+  // ---------------------------------------------------------------------------
+
+  describe('error policies', () => {
+    const failing = (): void => {
+      throw new Error('boom');
+    };
+
+    it('skips a throwing middleware and continues by default', () => {
+      const report = vi.fn();
+      pipeline = new MiddlewarePipeline(undefined, report);
+      const after = vi.fn((_e: ODLEvent, next: () => void) => next());
+      const finalHandler = vi.fn();
+
+      pipeline.use(failing, { name: 'broken', stage: 'enrich' });
+      pipeline.use(after);
+
+      const event = makeEvent();
+      expect(() => pipeline.execute(event, finalHandler)).not.toThrow();
+      expect(after).toHaveBeenCalledTimes(1);
+      expect(finalHandler).toHaveBeenCalledTimes(1);
+      expect(report).toHaveBeenCalledWith({
+        error: expect.objectContaining({ message: 'boom' }),
+        event,
+        name: 'broken',
+        stage: 'enrich',
+        policy: 'continue',
+      });
+    });
+
+    it('drops the event under the "cancel" policy', () => {
+      pipeline = new MiddlewarePipeline({ onError: 'cancel' });
+      const finalHandler = vi.fn();
+      pipeline.use(failing);
+
+      pipeline.execute(makeEvent(), finalHandler);
+
+      expect(finalHandler).not.toHaveBeenCalled();
+    });
+
+    it('rethrows to the caller under the "rethrow" policy, reporting once', () => {
+      const report = vi.fn();
+      pipeline = new MiddlewarePipeline({ onError: 'rethrow' }, report);
+      pipeline.use((_event, next) => next());
+      pipeline.use(failing);
+
+      expect(() => pipeline.execute(makeEvent(), vi.fn())).toThrow('boom');
+      expect(report).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not call next() twice when a middleware throws after calling it', () => {
+      const finalHandler = vi.fn();
+      pipeline.use((_event, next) => {
+        next();
+        throw new Error('after next');
+      });
+
+      pipeline.execute(makeEvent(), finalHandler);
+
+      expect(finalHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('applies the policy to rejecting middleware in executeAsync()', async () => {
+      const report = vi.fn();
+      pipeline = new MiddlewarePipeline(undefined, report);
+      pipeline.use(async () => {
+        throw new Error('lookup failed');
+      });
+      const finalHandler = vi.fn();
+
+      await expect(pipeline.executeAsync(makeEvent(), finalHandler)).resolves.toBe(true);
+      expect(finalHandler).toHaveBeenCalledTimes(1);
+      expect(report).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Middleware timeouts
+  // ---------------------------------------------------------------------------
+
+  describe('middleware timeouts', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const hang = (): Promise<void> => new Promise<void>(() => {});
+
+    it('fails open by default when a middleware exceeds its timeout', async () => {
+      pipeline = new MiddlewarePipeline({ timeout: 50 });
+      pipeline.use(() => hang());
+      const finalHandler = vi.fn();
+
+      const result = pipeline.executeAsync(makeEvent(), finalHandler);
+      await vi.advanceTimersByTimeAsync(50);
+
+      await expect(result).resolves.toBe(true);
+      expect(finalHandler).toHaveBeenCalledTimes(1);
+    });
+
+    it('fails closed when onTimeout is "cancel"', async () => {
+      pipeline = new MiddlewarePipeline({ timeout: 50, onTimeout: 'cancel' });
+      pipeline.use(() => hang());
+      const finalHandler = vi.fn();
+
+      const result = pipeline.executeAsync(makeEvent(), finalHandler);
+      await vi.advanceTimersByTimeAsync(50);
+
+      await expect(result).resolves.toBe(false);
+      expect(finalHandler).not.toHaveBeenCalled();
+    });
+
+    it('per-middleware options override pipeline defaults', async () => {
+      pipeline = new MiddlewarePipeline({ timeout: 1000 });
+      pipeline.use(() => hang(), { timeout: 10, onTimeout: 'cancel' });
+      const finalHandler = vi.fn();
+
+      const result = pipeline.executeAsync(makeEvent(), finalHandler);
+      await vi.advanceTimersByTimeAsync(10);
+
+      await expect(result).resolves.toBe(false);
+      expect(finalHandler).not.toHaveBeenCalled();
+    });
+
+    it('ignores a late next() from a timed-out middleware', async () => {
+      pipeline = new MiddlewarePipeline({ timeout: 50, onTimeout: 'cancel' });
+      let lateNext: (() => void) | undefined;
+      pipeline.use((_event, next) => {
+        lateNext = next;
+        return hang();
+      });
+      const finalHandler = vi.fn();
+
+      const result = pipeline.executeAsync(makeEvent(), finalHandler);
+      await vi.advanceTimersByTimeAsync(50);
+      await result;
+      lateNext?.();
+
+      expect(finalHandler).not.toHaveBeenCalled();
+    });
+
+    it('does not time out middleware that calls next() in time', async () => {
+      pipeline = new MiddlewarePipeline({ timeout: 50, onTimeout: 'cancel' });
+      pipeline.use(async (_event, next) => {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        await next();
+      });
+      const finalHandler = vi.fn();
+
+      const result = pipeline.executeAsync(makeEvent(), finalHandler);
+      await vi.advanceTimersByTimeAsync(20);
+
+      await expect(result).resolves.toBe(true);
+      expect(finalHandler).toHaveBeenCalledTimes(1);
+    });
+  });
 });
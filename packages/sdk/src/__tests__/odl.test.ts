@@ -1,6 +1,7 @@
-import type { DataLayer } from '../core/data-layer.js';
 import type { ODLEvent } from '../core/event-bus.js';
 import { OpenDataLayer } from '../odl.js';
+import { consent } from '../plugins/consent.js';
+import { piiGuard } from '../plugins/pii-guard.js';
 import type { ODLPlugin } from '../plugins/types.js';
 
 describe('OpenDataLayer', () => {
@@ -17,12 +18,12 @@ describe('OpenDataLayer', () => {
 
     it('sets initial context when provided', () => {
       const odl = new OpenDataLayer({
-        context: { user: { id: '42' }, page: { url: '/home' } },
+        context: { user: { id: '42' }, page: { url: '/home', path: '/home' } },
       });
 
       expect(odl.getContext()).toEqual({
         user: { id: '42' },
-        page: { url: '/home' },
+        page: { url: '/home', path: '/home' },
       });
     });
 
@@ -31,7 +32,7 @@ describe('OpenDataLayer', () => {
         source: { name: 'my-app', version: '1.0.0' },
       });
 
-      const event = odl.track('test.event');
+      const event = odl.track('custom.test_event');
       expect(event.source).toEqual({ name: 'my-app', version: '1.0.0' });
     });
 
@@ -53,17 +54,35 @@ describe('OpenDataLayer', () => {
 
       const plugin1: ODLPlugin = {
         name: 'first',
-        initialize: () => order.push('first'),
+        initialize: () => {
+          order.push('first');
+        },
       };
       const plugin2: ODLPlugin = {
         name: 'second',
-        initialize: () => order.push('second'),
+        initialize: () => {
+          order.push('second');
+        },
       };
 
       new OpenDataLayer({ plugins: [plugin1, plugin2] });
 
       expect(order).toEqual(['first', 'second']);
     });
+
+    it('passes the retention option to the data layer', () => {
+      const onEvict = vi.fn();
+      const odl = new OpenDataLayer({ retention: { maxEvents: 1, onEvict } });
+
+      odl.track('custom.first');
+      odl.track('custom.second');
+
+      expect(odl.getEvents().map((e) => e.event)).toEqual(['custom.second']);
+      expect(onEvict).toHaveBeenCalledWith(
+        [expect.objectContaining({ event: 'custom.first' })],
+        'maxEvents',
+      );
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -84,15 +103,16 @@ describe('OpenDataLayer', () => {
 
     it('includes data and customDimensions', () => {
       const odl = new OpenDataLayer();
-      const event = odl.track('ecommerce.purchase', { amount: 99.99 }, { campaign: 'summer' });
+      const data = { orderId: 'A-1', total: 99.99, currency: 'EUR', products: [] };
+      const event = odl.track('ecommerce.purchase', data, { campaign: 'summer' });
 
-      expect(event.data).toEqual({ amount: 99.99 });
+      expect(event.data).toEqual(data);
       expect(event.customDimensions).toEqual({ campaign: 'summer' });
     });
 
     it('stores the event in getEvents()', () => {
       const odl = new OpenDataLayer();
-      const event = odl.track('test.event');
+      const event = odl.track('custom.test_event');
 
       expect(odl.getEvents()).toHaveLength(1);
       expect(odl.getEvents()[0]).toBe(event);
@@ -103,11 +123,173 @@ describe('OpenDataLayer', () => {
         context: { user: { id: '42' } },
       });
 
-      const event = odl.track('test.event');
+      const event = odl.track('custom.test_event');
       expect(event.context).toEqual({ user: { id: '42' } });
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Context TTL and providers
+  // ---------------------------------------------------------------------------
+
+  describe('context TTL and providers', () => {
+    it('setContext() with a sliding TTL keeps the key alive while events are tracked', () => {
+      vi.useFakeTimers();
+      try {
+        const odl = new OpenDataLayer();
+        odl.setContext('session', { id: 's1' }, { ttl: 30 * 60 * 1000, sliding: true });
+
+        vi.advanceTimersByTime(20 * 60 * 1000);
+        expect(odl.track('page.view').context).toEqual({ session: { id: 's1' } });
+
+        vi.advanceTimersByTime(20 * 60 * 1000);
+        expect(odl.track('page.view').context).toEqual({ session: { id: 's1' } });
+
+        vi.advanceTimersByTime(31 * 60 * 1000);
+        expect(odl.track('page.view').context).toEqual({});
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('provideContext() attaches a fresh value to every event', () => {
+      const odl = new OpenDataLayer();
+      let count = 0;
+      odl.provideContext('device', () => ({ viewport: { width: ++count, height: 1 } }));
+
+      expect(odl.track('page.view').context?.device).toEqual({ viewport: { width: 1, height: 1 } });
+      expect(odl.track('page.view').context?.device).toEqual({ viewport: { width: 2, height: 1 } });
+    });
+
+    it('providers are not evaluated for events the key is out of scope for', () => {
+      const provider = vi.fn(() => ({ itemCount: 1 }));
+      const odl = new OpenDataLayer({ contextScope: { cart: { include: 'ecommerce.*' } } });
+      odl.provideContext('cart', provider);
+
+      odl.track('page.view');
+
+      expect(provider).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Context change events and history
+  // ---------------------------------------------------------------------------
+
+  describe('onContextChange()', () => {
+    it('notifies handlers for the given key only', () => {
+      const odl = new OpenDataLayer();
+      const handler = vi.fn();
+      odl.onContextChange('consent', handler);
+
+      odl.setContext('user', { id: '1' });
+      odl.updateContext('consent', { status: 'granted' });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'consent',
+          previous: undefined,
+          next: { status: 'granted' },
+        }),
+      );
+    });
+
+    it('"*" notifies for every key', () => {
+      const odl = new OpenDataLayer();
+      const handler = vi.fn();
+      odl.onContextChange('*', handler);
+
+      odl.setContext('user', { id: '1' });
+      odl.setContext('page', { url: '/', path: '/' });
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports handler errors on the diagnostic channel', () => {
+      const odl = new OpenDataLayer();
+      const onError = vi.fn();
+      odl.onError(onError);
+      odl.onContextChange('user', () => {
+        throw new Error('handler broke');
+      });
+
+      expect(() => odl.setContext('user', { id: '1' })).not.toThrow();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ origin: 'subscriber', name: 'context:user' }),
+      );
+    });
+
+    it('getContextAt() returns the context an earlier event was tracked with', () => {
+      vi.useFakeTimers();
+      try {
+        const odl = new OpenDataLayer({ contextHistory: 50 });
+        odl.setContext('user', { id: '1' });
+        const first = odl.track('page.view');
+        vi.advanceTimersByTime(1000);
+        odl.setContext('user', { id: '2' });
+
+        expect(odl.getContextAt(first.timestamp)).toEqual({ user: { id: '1' } });
+        expect(odl.getContextHistory()).toHaveLength(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Context scoping
+  // ---------------------------------------------------------------------------
+
+  describe('contextScope', () => {
+    it('attaches scoped context keys only to matching events', () => {
+      const odl = new OpenDataLayer({
+        context: { cart: { itemCount: 1 }, page: { url: '/', path: '/' } },
+        contextScope: { cart: { include: 'ecommerce.*' } },
+      });
+
+      expect(odl.track('page.view').context).toEqual({ page: { url: '/', path: '/' } });
+      expect(odl.track('ecommerce.cart_viewed').context).toEqual({
+        cart: { itemCount: 1 },
+        page: { url: '/', path: '/' },
+      });
+    });
+
+    it('track() options override the rules for one event', () => {
+      const odl = new OpenDataLayer({
+        context: { cart: { itemCount: 1 } },
+        contextScope: { cart: { include: 'ecommerce.*' } },
+      });
+
+      const event = odl.track('page.view', undefined, undefined, { context: { cart: true } });
+
+      expect(event.context).toEqual({ cart: { itemCount: 1 } });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // trackAsync()
+  // ---------------------------------------------------------------------------
+
+  describe('trackAsync()', () => {
+    it('awaits async middleware and plugin hooks before resolving', async () => {
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({ plugins: [{ name: 'after', afterEvent }] });
+
+      odl.addMiddleware(async (event, next) => {
+        await Promise.resolve();
+        event.customDimensions = { hashed: 'abc' };
+        await next();
+      });
+
+      const event = await odl.trackAsync('user.signed_in', { method: 'email' });
+
+      expect(event.customDimensions).toEqual({ hashed: 'abc' });
+      expect(odl.getEvents()).toEqual([event]);
+      expect(afterEvent).toHaveBeenCalledWith(event);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Context methods
   // ---------------------------------------------------------------------------
@@ -122,26 +304,26 @@ describe('OpenDataLayer', () => {
 
     it('updateContext() deep-merges', () => {
       const odl = new OpenDataLayer();
-      odl.setContext('user', { id: '42', name: 'Alice' });
-      odl.updateContext('user', { role: 'admin' });
+      odl.setContext('user', { id: '42', traits: { firstName: 'Alice' } });
+      odl.updateContext('user', { role: 'admin', traits: { plan: 'pro' } });
 
       expect(odl.getContext().user).toEqual({
         id: '42',
-        name: 'Alice',
+        traits: { firstName: 'Alice', plan: 'pro' },
         role: 'admin',
       });
     });
 
     it('context changes are reflected in subsequent events', () => {
       const odl = new OpenDataLayer();
-      odl.setContext('page', { url: '/a' });
+      odl.setContext('page', { url: '/a', path: '/a' });
       const e1 = odl.track('page.view');
 
-      odl.setContext('page', { url: '/b' });
+      odl.setContext('page', { url: '/b', path: '/b' });
       const e2 = odl.track('page.view');
 
-      expect(e1.context).toEqual({ page: { url: '/a' } });
-      expect(e2.context).toEqual({ page: { url: '/b' } });
+      expect(e1.context).toEqual({ page: { url: '/a', path: '/a' } });
+      expect(e2.context).toEqual({ page: { url: '/b', path: '/b' } });
     });
   });
 
@@ -186,16 +368,95 @@ describe('OpenDataLayer', () => {
     it('returns an unsubscribe function', () => {
       const odl = new OpenDataLayer();
       const handler = vi.fn();
-      const unsub = odl.on('test.event', handler);
+      const unsub = odl.on('custom.test_event', handler);
 
-      odl.track('test.event');
+      odl.track('custom.test_event');
       expect(handler).toHaveBeenCalledTimes(1);
 
       unsub();
 
-      odl.track('test.event');
+      odl.track('custom.test_event');
       expect(handler).toHaveBeenCalledTimes(1);
     });
+
+    it('replay delivers events tracked before the subscription', () => {
+      const odl = new OpenDataLayer();
+      const initial = odl.track('page.view');
+      odl.track('ecommerce.purchase');
+
+      const handler = vi.fn();
+      odl.on('page.*', handler, { replay: true });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(initial);
+    });
+
+    it('replay does not redeliver events after reset()', () => {
+      const odl = new OpenDataLayer();
+      odl.track('page.view');
+      odl.reset();
+
+      const handler = vi.fn();
+      odl.on('*', handler, { replay: true });
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // once() / waitFor()
+  // ---------------------------------------------------------------------------
+
+  describe('once() / waitFor()', () => {
+    it('once() fires for the first matching event only', () => {
+      const odl = new OpenDataLayer();
+      const handler = vi.fn();
+      odl.once('ecommerce.purchase', handler);
+
+      odl.track('ecommerce.purchase', { orderId: 'A', total: 1, currency: 'EUR', products: [] });
+      odl.track('ecommerce.purchase', { orderId: 'B', total: 1, currency: 'EUR', products: [] });
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0]?.[0].data).toMatchObject({ orderId: 'A' });
+    });
+
+    it('waitFor() resolves with the next tracked match', async () => {
+      const odl = new OpenDataLayer();
+      const promise = odl.waitFor('consent.given');
+
+      odl.track('page.view');
+      const event = odl.track('consent.given', { purposes: { analytics: true } });
+
+      await expect(promise).resolves.toBe(event);
+    });
+
+    it('waitFor() ignores events tracked before the call', async () => {
+      const odl = new OpenDataLayer();
+      vi.useFakeTimers();
+      try {
+        odl.track('consent.given');
+        const promise = odl.waitFor('consent.given', { timeout: 10 });
+        const assertion = expect(promise).rejects.toThrow('Timed out');
+
+        await vi.advanceTimersByTimeAsync(10);
+        await assertion;
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('waitFor() does not resolve for events cancelled by middleware', async () => {
+      const odl = new OpenDataLayer();
+      odl.addMiddleware((event, next) => {
+        if (event.data?.drop !== true) next();
+      });
+      const promise = odl.waitFor('custom.test_event');
+
+      odl.track('custom.test_event', { drop: true });
+      const kept = odl.track('custom.test_event', { drop: false });
+
+      await expect(promise).resolves.toBe(kept);
+    });
   });
 
   // ---------------------------------------------------------------------------
@@ -203,7 +464,7 @@ describe('OpenDataLayer', () => {
   // ---------------------------------------------------------------------------
 
   describe('use() registers plugin', () => {
-    it('calls initialize with the DataLayer', () => {
+    it('calls initialize with a PluginContext', () => {
       const odl = new OpenDataLayer();
       const initSpy = vi.fn();
       const plugin: ODLPlugin = { name: 'test', initialize: initSpy };
@@ -211,7 +472,8 @@ describe('OpenDataLayer', () => {
       odl.use(plugin);
 
       expect(initSpy).toHaveBeenCalledTimes(1);
-      expect(initSpy).toHaveBeenCalledWith(expect.any(Object));
+      expect(initSpy).toHaveBeenCalledWith(expect.objectContaining({ name: 'test' }));
+      expect(initSpy.mock.calls[0]?.[0]).not.toHaveProperty('reset');
     });
 
     it('works with a plugin that has no initialize', () => {
@@ -222,6 +484,626 @@ describe('OpenDataLayer', () => {
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Plugin context and permissions
+  // ---------------------------------------------------------------------------
+
+  describe('plugin context', () => {
+    it('runs events tracked by a plugin through the hooks of other plugins', () => {
+      const beforeEvent = vi.fn((event: ODLEvent) => event);
+      const odl = new OpenDataLayer({ plugins: [{ name: 'filter', beforeEvent }] });
+
+      odl.use({ name: 'source', initialize: (context) => void context.track('custom.ping') });
+
+      expect(beforeEvent).toHaveBeenCalledTimes(1);
+      expect(odl.getEvents().map((e) => e.event)).toEqual(['custom.ping']);
+    });
+
+    it('unuse() releases the subscriptions and timers the plugin created', () => {
+      vi.useFakeTimers();
+      const handler = vi.fn();
+      const tick = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'vendor',
+            initialize(context) {
+              context.on('*', handler);
+              context.scheduler.setInterval(tick, 100);
+            },
+          },
+        ],
+      });
+
+      odl.unuse('vendor');
+      odl.track('page.view');
+      vi.advanceTimersByTime(500);
+      vi.useRealTimers();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(tick).not.toHaveBeenCalled();
+    });
+
+    it('hides context a plugin may not read from its hooks', () => {
+      const seen: Array<Record<string, unknown> | undefined> = [];
+      const odl = new OpenDataLayer({
+        context: { user: { id: '42' }, page: { url: 'https://example.com/', path: '/' } },
+        pluginPermissions: { vendor: { readContext: { exclude: ['user'] } } },
+        plugins: [
+          {
+            name: 'vendor',
+            beforeEvent(event) {
+              seen.push(event.context);
+              return { ...event, context: { ...event.context, x_vendor: true } };
+            },
+            afterEvent: (event) => void seen.push(event.context),
+          },
+        ],
+      });
+
+      odl.track('page.view');
+
+      const page = { url: 'https://example.com/', path: '/' };
+      expect(seen).toEqual([{ page }, { page, x_vendor: true }]);
+      expect(odl.getEvents()[0]?.context).toEqual({ page, x_vendor: true, user: { id: '42' } });
+    });
+
+    it('throws from use() when initialize breaks a permission', () => {
+      const odl = new OpenDataLayer({
+        pluginPermissions: { vendor: { writeContext: false } },
+      });
+      const plugin: ODLPlugin = {
+        name: 'vendor',
+        initialize: (context) => context.setContext('user', { id: '42' }),
+      };
+
+      expect(() => odl.use(plugin)).toThrow('Plugin "vendor" may not write context "user"');
+      expect(odl.getContext().user).toBeUndefined();
+    });
+
+    it('does not register the plugins after one whose initialize throws', () => {
+      const odl = new OpenDataLayer();
+      const afterEvent = vi.fn();
+      const broken: ODLPlugin = {
+        name: 'broken',
+        initialize: () => {
+          throw new Error('init failed');
+        },
+      };
+
+      expect(() => odl.use(broken, { name: 'next', afterEvent })).toThrow('init failed');
+      expect(odl.getPlugins().map((p) => [p.name, p.status])).toEqual([['broken', 'failed']]);
+
+      odl.use({ name: 'next', afterEvent });
+      odl.track('page.view');
+
+      expect(afterEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Plugin ordering
+  // ---------------------------------------------------------------------------
+
+  describe('plugin ordering', () => {
+    function recordingPlugin(
+      name: string,
+      calls: string[],
+      order: Pick<ODLPlugin, 'dependsOn' | 'before' | 'after'> = {},
+    ): ODLPlugin {
+      return {
+        name,
+        ...order,
+        initialize: () => {
+          calls.push(`${name}:initialize`);
+        },
+        beforeEvent: (event) => {
+          calls.push(`${name}:beforeEvent`);
+          return event;
+        },
+        afterEvent: () => calls.push(`${name}:afterEvent`),
+        destroy: () => calls.push(`${name}:destroy`),
+      };
+    }
+
+    it('runs every lifecycle hook in dependency order', () => {
+      const calls: string[] = [];
+      const odl = new OpenDataLayer({
+        plugins: [
+          recordingPlugin('adapter', calls, { dependsOn: ['consent'] }),
+          recordingPlugin('consent', calls),
+        ],
+      });
+
+      odl.track('page.view');
+      odl.destroy();
+
+      expect(calls).toEqual([
+        'consent:initialize',
+        'adapter:initialize',
+        'consent:beforeEvent',
+        'adapter:beforeEvent',
+        'consent:afterEvent',
+        'adapter:afterEvent',
+        'adapter:destroy',
+        'consent:destroy',
+      ]);
+    });
+
+    it('orders hooks of a later plugin declaring before', () => {
+      const calls: string[] = [];
+      const odl = new OpenDataLayer({ plugins: [recordingPlugin('adapter', calls)] });
+
+      odl.use(recordingPlugin('filter', calls, { before: ['adapter'] }));
+      calls.length = 0;
+      odl.track('page.view');
+
+      expect(calls.filter((call) => call.endsWith(':beforeEvent'))).toEqual([
+        'filter:beforeEvent',
+        'adapter:beforeEvent',
+      ]);
+    });
+
+    it('use() accepts several plugins and orders them together', () => {
+      const calls: string[] = [];
+      const odl = new OpenDataLayer();
+
+      odl.use(
+        recordingPlugin('adapter', calls, { after: ['consent'] }),
+        recordingPlugin('consent', calls),
+      );
+
+      expect(calls).toEqual(['consent:initialize', 'adapter:initialize']);
+    });
+
+    it('throws for a missing dependency and registers nothing', () => {
+      const calls: string[] = [];
+      const odl = new OpenDataLayer();
+
+      expect(() => odl.use(recordingPlugin('adapter', calls, { dependsOn: ['consent'] }))).toThrow(
+        'Plugin "adapter" depends on "consent", which is not registered',
+      );
+
+      odl.track('page.view');
+      expect(calls).toEqual([]);
+    });
+
+    it('throws for a cycle and keeps the plugins registered before it', () => {
+      const calls: string[] = [];
+      const odl = new OpenDataLayer({ plugins: [recordingPlugin('a', calls)] });
+
+      expect(() =>
+        odl.use(
+          recordingPlugin('b', calls, { dependsOn: ['a'], before: ['c'] }),
+          recordingPlugin('c', calls, { before: ['b'] }),
+        ),
+      ).toThrow('Plugin dependency cycle');
+
+      calls.length = 0;
+      odl.track('page.view');
+      expect(calls).toEqual(['a:beforeEvent', 'a:afterEvent']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Async plugin initialization
+  // ---------------------------------------------------------------------------
+
+  describe('async plugin initialization', () => {
+    function deferred(): {
+      promise: Promise<void>;
+      resolve: () => void;
+      reject: (e: unknown) => void;
+    } {
+      let resolve!: () => void;
+      let reject!: (e: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    }
+
+    it('buffers events until initialize resolves, then delivers them in order', async () => {
+      const loaded = deferred();
+      const afterEvent = vi.fn();
+      const beforeEvent = vi.fn((event: ODLEvent) => event);
+      const odl = new OpenDataLayer({
+        plugins: [{ name: 'vendor', initialize: () => loaded.promise, beforeEvent, afterEvent }],
+      });
+
+      odl.track('page.view');
+      odl.track('custom.clicked');
+      expect(beforeEvent).toHaveBeenCalledTimes(2);
+      expect(afterEvent).not.toHaveBeenCalled();
+
+      loaded.resolve();
+      await odl.ready();
+
+      expect(afterEvent.mock.calls.map(([event]) => event.event)).toEqual([
+        'page.view',
+        'custom.clicked',
+      ]);
+
+      odl.track('custom.later');
+      expect(afterEvent).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not hold back plugins that are already ready', () => {
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          { name: 'slow', initialize: () => new Promise<void>(() => {}) },
+          { name: 'sync', afterEvent },
+        ],
+      });
+
+      odl.track('page.view');
+
+      expect(afterEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('ready() resolves once every plugin has initialized', async () => {
+      const first = deferred();
+      const second = deferred();
+      const odl = new OpenDataLayer({
+        plugins: [
+          { name: 'a', initialize: () => first.promise },
+          { name: 'b', initialize: () => second.promise },
+        ],
+      });
+      let isReady = false;
+      const ready = odl.ready().then(() => {
+        isReady = true;
+      });
+
+      first.resolve();
+      await Promise.resolve();
+      expect(isReady).toBe(false);
+
+      second.resolve();
+      await ready;
+      expect(isReady).toBe(true);
+    });
+
+    it('reports a failed initialize and drops its buffered events', async () => {
+      const error = new Error('vendor script blocked');
+      const afterEvent = vi.fn();
+      const onError = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [{ name: 'vendor', initialize: () => Promise.reject(error), afterEvent }],
+      });
+      odl.onError(onError);
+
+      odl.track('page.view');
+      await odl.ready();
+      odl.track('page.view');
+
+      expect(afterEvent).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith({ origin: 'plugin', error, name: 'vendor' });
+    });
+
+    it('initializes a plugin after the async plugins it depends on', async () => {
+      const consentLoaded = deferred();
+      const calls: string[] = [];
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'adapter',
+            dependsOn: ['consent'],
+            initialize: () => {
+              calls.push('adapter');
+            },
+          },
+          {
+            name: 'consent',
+            initialize: async () => {
+              await consentLoaded.promise;
+              calls.push('consent');
+            },
+          },
+        ],
+      });
+
+      expect(calls).toEqual([]);
+      consentLoaded.resolve();
+      await odl.ready();
+
+      expect(calls).toEqual(['consent', 'adapter']);
+    });
+
+    it('does not initialize a plugin whose dependency failed', async () => {
+      const initialize = vi.fn();
+      const onError = vi.fn();
+      const odl = new OpenDataLayer();
+      odl.onError(onError);
+
+      odl.use(
+        { name: 'consent', initialize: () => Promise.reject(new Error('CMP unavailable')) },
+        { name: 'adapter', dependsOn: ['consent'], initialize },
+      );
+      await odl.ready();
+
+      expect(initialize).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'adapter',
+          error: new Error('Plugin "adapter" was not initialized because "consent" failed'),
+        }),
+      );
+    });
+
+    it('keeps at most pluginBuffer events per plugin, dropping the oldest', async () => {
+      const loaded = deferred();
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        pluginBuffer: 2,
+        plugins: [{ name: 'vendor', initialize: () => loaded.promise, afterEvent }],
+      });
+
+      odl.track('custom.one');
+      odl.track('custom.two');
+      odl.track('custom.three');
+      loaded.resolve();
+      await odl.ready();
+
+      expect(afterEvent.mock.calls.map(([event]) => event.event)).toEqual([
+        'custom.two',
+        'custom.three',
+      ]);
+    });
+
+    it('delivers nothing to a plugin destroyed before it became ready', async () => {
+      const loaded = deferred();
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [{ name: 'vendor', initialize: () => loaded.promise, afterEvent }],
+      });
+
+      odl.track('page.view');
+      const ready = odl.ready();
+      odl.destroy();
+      loaded.resolve();
+      await ready;
+
+      expect(afterEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Plugin removal, replacement and introspection
+  // ---------------------------------------------------------------------------
+
+  describe('unuse() / replace() / getPlugins()', () => {
+    it('use() rejects a duplicate name', () => {
+      const odl = new OpenDataLayer({ plugins: [{ name: 'vendor' }] });
+
+      expect(() => odl.use({ name: 'vendor' })).toThrow('Plugin "vendor" is already registered');
+      expect(odl.getPlugins()).toHaveLength(1);
+    });
+
+    it('unuse() destroys the plugin and stops its hooks, keeping events and context', () => {
+      const destroy = vi.fn();
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({ plugins: [{ name: 'vendor', afterEvent, destroy }] });
+      odl.setContext('user', { id: '42' });
+      odl.track('page.view');
+
+      expect(odl.unuse('vendor')).toBe(true);
+      odl.track('page.view');
+
+      expect(destroy).toHaveBeenCalledTimes(1);
+      expect(afterEvent).toHaveBeenCalledTimes(1);
+      expect(odl.getEvents()).toHaveLength(2);
+      expect(odl.getContext().user).toEqual({ id: '42' });
+    });
+
+    it('unuse() returns false for an unknown name', () => {
+      const odl = new OpenDataLayer();
+
+      expect(odl.unuse('missing')).toBe(false);
+    });
+
+    it('unuse() refuses to remove a plugin others depend on', () => {
+      const odl = new OpenDataLayer({
+        plugins: [{ name: 'consent' }, { name: 'adapter', dependsOn: ['consent'] }],
+      });
+
+      expect(() => odl.unuse('consent')).toThrow('Plugin "consent" is required by "adapter"');
+      expect(odl.unuse('adapter')).toBe(true);
+      expect(odl.unuse('consent')).toBe(true);
+    });
+
+    it('unuse() reports destroy errors as diagnostics', () => {
+      const error = new Error('teardown failed');
+      const onError = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'broken',
+            destroy() {
+              throw error;
+            },
+          },
+        ],
+      });
+      odl.onError(onError);
+
+      expect(() => odl.unuse('broken')).not.toThrow();
+      expect(onError).toHaveBeenCalledWith({ origin: 'plugin', error, name: 'broken' });
+    });
+
+    it('replace() swaps a plugin in place', () => {
+      const calls: string[] = [];
+      const plugin = (name: string, version: string): ODLPlugin => ({
+        name,
+        initialize: () => {
+          calls.push(`${name}@${version}:initialize`);
+        },
+        afterEvent: () => {
+          calls.push(`${name}@${version}:afterEvent`);
+        },
+        destroy: () => {
+          calls.push(`${name}@${version}:destroy`);
+        },
+      });
+      const odl = new OpenDataLayer({ plugins: [plugin('a', '1'), plugin('b', '1')] });
+
+      odl.replace(plugin('a', '2'));
+      expect(calls).toEqual(['a@1:initialize', 'b@1:initialize', 'a@1:destroy', 'a@2:initialize']);
+
+      calls.length = 0;
+      odl.track('page.view');
+      expect(calls).toEqual(['a@2:afterEvent', 'b@1:afterEvent']);
+    });
+
+    it('replace() registers a plugin that is not registered yet', () => {
+      const odl = new OpenDataLayer();
+
+      odl.replace({ name: 'vendor' });
+
+      expect(odl.getPlugins().map((p) => p.name)).toEqual(['vendor']);
+    });
+
+    it('replace() keeps the old plugin if the new one cannot be registered', () => {
+      const destroy = vi.fn();
+      const odl = new OpenDataLayer({ plugins: [{ name: 'vendor', destroy }] });
+
+      expect(() => odl.replace({ name: 'vendor', dependsOn: ['consent'] })).toThrow(
+        'Plugin "vendor" depends on "consent", which is not registered',
+      );
+      expect(destroy).not.toHaveBeenCalled();
+      expect(odl.getPlugins()).toHaveLength(1);
+    });
+
+    it('getPlugins() describes plugins in hook order with their status', async () => {
+      let load!: () => void;
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'adapter',
+            dependsOn: ['consent'],
+            initialize: () =>
+              new Promise<void>((resolve) => {
+                load = resolve;
+              }),
+            afterEvent: () => {},
+          },
+          { name: 'consent', before: ['debug'] },
+        ],
+      });
+      odl.track('page.view');
+
+      expect(odl.getPlugins()).toEqual([
+        {
+          name: 'consent',
+          status: 'ready',
+          dependsOn: [],
+          before: ['debug'],
+          after: [],
+          requiresConsent: [],
+          buffered: 0,
+        },
+        {
+          name: 'adapter',
+          status: 'initializing',
+          dependsOn: ['consent'],
+          before: [],
+          after: [],
+          requiresConsent: [],
+          buffered: 1,
+        },
+      ]);
+
+      load();
+      await odl.ready();
+      expect(odl.getPlugins()[1]?.status).toBe('ready');
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Consent-aware routing
+  // ---------------------------------------------------------------------------
+
+  describe('consent-aware routing', () => {
+    it('delivers afterEvent only when the event grants the required purposes', () => {
+      const analytics = vi.fn();
+      const marketing = vi.fn();
+      const odl = new OpenDataLayer({
+        context: { consent: { status: 'granted', purposes: { marketing: false } } },
+        plugins: [
+          { name: 'analytics', requiresConsent: ['analytics'], afterEvent: analytics },
+          { name: 'ads', requiresConsent: ['analytics', 'marketing'], afterEvent: marketing },
+        ],
+      });
+
+      odl.track('page.view');
+
+      expect(analytics).toHaveBeenCalledTimes(1);
+      expect(marketing).not.toHaveBeenCalled();
+      expect(odl.getEvents()).toHaveLength(1);
+    });
+
+    it('uses the consent the event was tracked with', () => {
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [{ name: 'analytics', requiresConsent: ['analytics'], afterEvent }],
+      });
+
+      odl.track('page.view');
+      odl.setContext('consent', { status: 'granted' });
+      odl.track('page.view');
+      odl.updateContext('consent', { purposes: { analytics: false } });
+      odl.track('page.view');
+
+      expect(afterEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('getConsentReport() counts suppressed events per plugin', () => {
+      const odl = new OpenDataLayer({
+        context: { consent: { status: 'denied', purposes: { analytics: true } } },
+        plugins: [
+          { name: 'debug', afterEvent: () => {} },
+          {
+            name: 'ads',
+            requiresConsent: ['analytics', 'marketing', 'x_retargeting'],
+            afterEvent: () => {},
+          },
+        ],
+      });
+
+      odl.track('page.view');
+      odl.track('page.view');
+      odl.track('custom.promo');
+
+      expect(odl.getConsentReport()).toEqual([
+        {
+          name: 'ads',
+          requiresConsent: ['analytics', 'marketing', 'x_retargeting'],
+          suppressed: 3,
+          events: { 'page.view': 2, 'custom.promo': 1 },
+          purposes: { marketing: 3, x_retargeting: 3 },
+        },
+      ]);
+    });
+
+    it('delivers events released by the consent plugin', () => {
+      const afterEvent = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          consent({ persist: false }),
+          { name: 'analytics', requiresConsent: ['analytics'], afterEvent },
+        ],
+      });
+
+      odl.track('page.view');
+      odl.track('consent.given', { purposes: { analytics: true } });
+
+      expect(afterEvent.mock.calls.map(([event]) => event.event)).toEqual(['page.view']);
+      expect(odl.getConsentReport()[0]?.events).toEqual({ 'consent.given': 1 });
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // Plugin beforeEvent can modify event
   // ---------------------------------------------------------------------------
@@ -236,7 +1118,7 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
-      const event = odl.track('test.event', { original: true });
+      const event = odl.track('custom.test_event', { original: true });
 
       expect(event.data).toEqual({ original: true, enriched: true });
     });
@@ -251,9 +1133,9 @@ describe('OpenDataLayer', () => {
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
       const handler = vi.fn();
-      odl.on('test.event', handler);
+      odl.on('custom.test_event', handler);
 
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       const received = handler.mock.calls[0]?.[0] as ODLEvent;
       expect(received.customDimensions).toEqual({ tagged: true });
@@ -274,7 +1156,7 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
-      odl.track('blocked.event');
+      odl.track('custom.blocked');
 
       expect(odl.getEvents()).toHaveLength(0);
     });
@@ -289,9 +1171,9 @@ describe('OpenDataLayer', () => {
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
       const handler = vi.fn();
-      odl.on('blocked.event', handler);
+      odl.on('custom.blocked', handler);
 
-      odl.track('blocked.event');
+      odl.track('custom.blocked');
 
       expect(handler).not.toHaveBeenCalled();
     });
@@ -312,7 +1194,7 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [plugin1, plugin2] });
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       // Second plugin should not have been called because first returned null
       expect(secondPluginBeforeEvent).not.toHaveBeenCalled();
@@ -333,7 +1215,7 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
-      const event = odl.track('test.event');
+      const event = odl.track('custom.test_event');
 
       expect(afterSpy).toHaveBeenCalledTimes(1);
       expect(afterSpy).toHaveBeenCalledWith(event);
@@ -355,7 +1237,7 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [blocker, logger] });
-      odl.track('blocked.event');
+      odl.track('custom.blocked');
 
       expect(afterSpy).not.toHaveBeenCalled();
     });
@@ -376,7 +1258,7 @@ describe('OpenDataLayer', () => {
 
       const odl = new OpenDataLayer({ plugins: [plugin] });
 
-      expect(() => odl.track('test.event')).not.toThrow();
+      expect(() => odl.track('custom.test_event')).not.toThrow();
     });
 
     it('other plugins afterEvent still runs despite one throwing', () => {
@@ -395,12 +1277,46 @@ describe('OpenDataLayer', () => {
       };
 
       const odl = new OpenDataLayer({ plugins: [broken, healthy] });
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       expect(secondAfterSpy).toHaveBeenCalledTimes(1);
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Plugin beforeEvent errors cancel the event
+  // ---------------------------------------------------------------------------
+
+  describe('plugin beforeEvent errors cancel the event', () => {
+    it('does not let the event skip the plugins after the broken one', () => {
+      const flaky: ODLPlugin = {
+        name: 'flaky',
+        beforeEvent() {
+          throw new Error('boom');
+        },
+      };
+      const vendor = vi.fn();
+      const odl = new OpenDataLayer({
+        plugins: [
+          flaky,
+          piiGuard(),
+          consent({ persist: false }),
+          { name: 'vendor', afterEvent: vendor },
+        ],
+      });
+      const onError = vi.fn();
+      odl.onError(onError);
+
+      expect(() => odl.track('custom.signup', { email: 'jane@example.com' })).not.toThrow();
+
+      expect(vendor).not.toHaveBeenCalled();
+      expect(odl.getEvents()).toHaveLength(0);
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ origin: 'plugin', name: 'flaky' }),
+      );
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // addMiddleware() adds custom middleware
   // ---------------------------------------------------------------------------
@@ -411,7 +1327,7 @@ describe('OpenDataLayer', () => {
       const mw = vi.fn((_e: ODLEvent, next: () => void) => next());
 
       odl.addMiddleware(mw);
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       expect(mw).toHaveBeenCalledTimes(1);
     });
@@ -423,7 +1339,7 @@ describe('OpenDataLayer', () => {
         // Don't call next() => cancel
       });
 
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       expect(odl.getEvents()).toHaveLength(0);
     });
@@ -436,12 +1352,164 @@ describe('OpenDataLayer', () => {
         next();
       });
 
-      const event = odl.track('test.event');
+      const event = odl.track('custom.test_event');
 
       expect(event.customDimensions).toEqual({ injected: true });
     });
   });
 
+  // ---------------------------------------------------------------------------
+  // Error isolation: onError() and reportErrors
+  // ---------------------------------------------------------------------------
+
+  describe('error isolation', () => {
+    it('a throwing middleware does not throw into track()', () => {
+      const odl = new OpenDataLayer();
+      odl.addMiddleware(() => {
+        throw new Error('boom');
+      });
+
+      expect(() => odl.track('custom.test_event')).not.toThrow();
+      expect(odl.getEvents()).toHaveLength(1);
+    });
+
+    it('onError() receives middleware failures', () => {
+      const odl = new OpenDataLayer();
+      const onError = vi.fn();
+      odl.onError(onError);
+      odl.addMiddleware(
+        () => {
+          throw new Error('boom');
+        },
+        { name: 'geo' },
+      );
+
+      const event = odl.track('custom.test_event');
+
+      expect(onError).toHaveBeenCalledWith({
+        origin: 'middleware',
+        error: expect.objectContaining({ message: 'boom' }),
+        event,
+        name: 'geo',
+      });
+    });
+
+    it('onError() receives plugin afterEvent failures', () => {
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'broken',
+            afterEvent: () => {
+              throw new Error('boom');
+            },
+          },
+        ],
+      });
+      const onError = vi.fn();
+      odl.onError(onError);
+
+      odl.track('custom.test_event');
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ origin: 'plugin', name: 'broken' }),
+      );
+    });
+
+    it('middleware.onError "rethrow" restores throwing behaviour', () => {
+      const odl = new OpenDataLayer({ middleware: { onError: 'rethrow' } });
+      odl.addMiddleware(() => {
+        throw new Error('boom');
+      });
+
+      expect(() => odl.track('custom.test_event')).toThrow('boom');
+    });
+
+    it('reportErrors tracks failures as error.occurred events', () => {
+      const odl = new OpenDataLayer({ reportErrors: true });
+      odl.addMiddleware((event, next) => {
+        if (event.event === 'custom.test_event') {
+          throw new Error('boom');
+        }
+        next();
+      });
+
+      odl.track('custom.test_event');
+
+      const errorEvent = odl.getEvents().find((e) => e.event === 'error.occurred');
+      expect(errorEvent?.data).toEqual(
+        expect.objectContaining({
+          message: 'boom',
+          type: 'javascript',
+          code: 'odl.middleware',
+          severity: 'error',
+          handled: true,
+        }),
+      );
+    });
+
+    it('reportErrors does not recurse when reporting itself fails', () => {
+      const odl = new OpenDataLayer({ reportErrors: true });
+      odl.addMiddleware(() => {
+        throw new Error('always');
+      });
+
+      expect(() => odl.track('custom.test_event')).not.toThrow();
+      expect(odl.getEvents().filter((e) => e.event === 'error.occurred')).toHaveLength(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // removeMiddleware() / listMiddleware()
+  // ---------------------------------------------------------------------------
+
+  describe('removeMiddleware() / listMiddleware()', () => {
+    it('lists the built-in plugin hooks alongside user middleware', () => {
+      const odl = new OpenDataLayer();
+      odl.addMiddleware((_event, next) => next(), { name: 'schema', stage: 'validate' });
+
+      expect(odl.listMiddleware()).toEqual([
+        { name: 'schema', stage: 'validate', priority: 0 },
+        { name: 'odl:plugin-hooks', stage: 'transform', priority: 0 },
+      ]);
+    });
+
+    it('removes named middleware', () => {
+      const odl = new OpenDataLayer();
+      odl.addMiddleware(() => {}, { name: 'blocker' });
+
+      odl.removeMiddleware('blocker');
+      odl.track('custom.test_event');
+
+      expect(odl.getEvents()).toHaveLength(1);
+    });
+
+    it('runs validate-stage middleware before plugin beforeEvent hooks', () => {
+      const order: string[] = [];
+      const odl = new OpenDataLayer({
+        plugins: [
+          {
+            name: 'hooks',
+            beforeEvent: (event) => {
+              order.push('beforeEvent');
+              return event;
+            },
+          },
+        ],
+      });
+      odl.addMiddleware(
+        (_event, next) => {
+          order.push('validate');
+          next();
+        },
+        { stage: 'validate' },
+      );
+
+      odl.track('custom.test_event');
+
+      expect(order).toEqual(['validate', 'beforeEvent']);
+    });
+  });
+
   // ---------------------------------------------------------------------------
   // getEvents() returns stored events
   // ---------------------------------------------------------------------------
@@ -454,15 +1522,15 @@ describe('OpenDataLayer', () => {
 
     it('returns all tracked events', () => {
       const odl = new OpenDataLayer();
-      odl.track('first');
-      odl.track('second');
-      odl.track('third');
+      odl.track('custom.first');
+      odl.track('custom.second');
+      odl.track('custom.third');
 
       const events = odl.getEvents();
       expect(events).toHaveLength(3);
-      expect(events[0]?.event).toBe('first');
-      expect(events[1]?.event).toBe('second');
-      expect(events[2]?.event).toBe('third');
+      expect(events[0]?.event).toBe('custom.first');
+      expect(events[1]?.event).toBe('custom.second');
+      expect(events[2]?.event).toBe('custom.third');
     });
   });
 
@@ -473,8 +1541,8 @@ describe('OpenDataLayer', () => {
   describe('reset()', () => {
     it('clears all stored events', () => {
       const odl = new OpenDataLayer();
-      odl.track('test.event');
-      odl.track('test.event');
+      odl.track('custom.test_event');
+      odl.track('custom.test_event');
 
       odl.reset();
 
@@ -493,11 +1561,11 @@ describe('OpenDataLayer', () => {
     it('new events after reset start fresh', () => {
       const odl = new OpenDataLayer();
       odl.setContext('user', { id: '42' });
-      odl.track('before-reset');
+      odl.track('custom.before_reset');
 
       odl.reset();
 
-      const event = odl.track('after-reset');
+      const event = odl.track('custom.after_reset');
       expect(event.context).toEqual({});
       expect(odl.getEvents()).toHaveLength(1);
     });
@@ -536,7 +1604,7 @@ describe('OpenDataLayer', () => {
     it('clears events and context', () => {
       const odl = new OpenDataLayer();
       odl.setContext('user', { id: '42' });
-      odl.track('test.event');
+      odl.track('custom.test_event');
 
       odl.destroy();
 
@@ -0,0 +1,133 @@
+import type { ODLEvent } from '../core/event-bus.js';
+import { compilePattern, patternShape } from '../core/pattern.js';
+
+function makeEvent(overrides: Partial<ODLEvent> = {}): ODLEvent {
+  return {
+    event: 'test.event',
+    id: 'test-id',
+    timestamp: '2024-01-15T10:00:00.000Z',
+    specVersion: '1.0.0',
+    ...overrides,
+  };
+}
+
+/** Return the subset of `names` matched by `pattern`. */
+function matching(pattern: string, names: string[]): string[] {
+  const matches = compilePattern(pattern);
+  return names.filter((name) => matches(makeEvent({ event: name })));
+}
+
+const NAMES = [
+  'page.view',
+  'page.virtual_view',
+  'ecommerce.purchase',
+  'ecommerce.refund',
+  'media.video.started',
+  'custom',
+];
+
+describe('compilePattern', () => {
+  // ---------------------------------------------------------------------------
+  // Exact and universal patterns
+  // ---------------------------------------------------------------------------
+
+  describe('exact and universal patterns', () => {
+    it('matches exact names only', () => {
+      expect(matching('page.view', NAMES)).toEqual(['page.view']);
+    });
+
+    it('"*" on its own matches every event', () => {
+      expect(matching('*', NAMES)).toEqual(NAMES);
+    });
+
+    it('treats regex metacharacters literally', () => {
+      expect(matching('page.vie?', ['page.view', 'page.vie?'])).toEqual(['page.vie?']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Globs
+  // ---------------------------------------------------------------------------
+
+  describe('globs', () => {
+    it('"*" inside a pattern matches exactly one segment', () => {
+      expect(matching('ecommerce.*', NAMES)).toEqual(['ecommerce.purchase', 'ecommerce.refund']);
+      expect(matching('media.*', NAMES)).toEqual([]);
+    });
+
+    it('"**" matches one or more segments', () => {
+      expect(matching('media.**', NAMES)).toEqual(['media.video.started']);
+      expect(matching('**.started', NAMES)).toEqual(['media.video.started']);
+    });
+
+    it('"*" can stand for the category', () => {
+      expect(matching('*.view', NAMES)).toEqual(['page.view']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Alternation and negation
+  // ---------------------------------------------------------------------------
+
+  describe('alternation and negation', () => {
+    it('"{a,b}" matches any alternative', () => {
+      expect(matching('{page,ecommerce}.*', NAMES)).toEqual([
+        'page.view',
+        'page.virtual_view',
+        'ecommerce.purchase',
+        'ecommerce.refund',
+      ]);
+      expect(matching('ecommerce.{purchase,refund}', NAMES)).toEqual([
+        'ecommerce.purchase',
+        'ecommerce.refund',
+      ]);
+    });
+
+    it('"!" negates the pattern', () => {
+      expect(matching('!ecommerce.refund', NAMES)).toEqual(
+        NAMES.filter((name) => name !== 'ecommerce.refund'),
+      );
+      expect(matching('!{page,ecommerce}.*', NAMES)).toEqual(['media.video.started', 'custom']);
+    });
+
+    it('tolerates an unclosed alternation', () => {
+      expect(() => compilePattern('{page,ecommerce.*')).not.toThrow();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Predicates
+  // ---------------------------------------------------------------------------
+
+  describe('predicates', () => {
+    it('uses a function pattern as the matcher', () => {
+      const matches = compilePattern((event) => event.data?.value === 1);
+
+      expect(matches(makeEvent({ data: { value: 1 } }))).toBe(true);
+      expect(matches(makeEvent({ data: { value: 2 } }))).toBe(false);
+    });
+  });
+});
+
+describe('patternShape', () => {
+  it('classifies exact names and the universal wildcard', () => {
+    expect(patternShape('page.view')).toEqual({ kind: 'exact', name: 'page.view' });
+    expect(patternShape('*')).toEqual({ kind: 'universal' });
+    expect(patternShape('**')).toEqual({ kind: 'universal' });
+  });
+
+  it('extracts the literal leading segments of glob patterns', () => {
+    expect(patternShape('ecommerce.*')).toEqual({ kind: 'prefix', segments: ['ecommerce'] });
+    expect(patternShape('media.video.{started,paused}')).toEqual({
+      kind: 'prefix',
+      segments: ['media', 'video'],
+    });
+  });
+
+  it('marks patterns that cannot be indexed as opaque', () => {
+    expect(patternShape('*.view')).toEqual({ kind: 'opaque' });
+    expect(patternShape('{page,ecommerce}.*')).toEqual({ kind: 'opaque' });
+    expect(patternShape('!page.view')).toEqual({ kind: 'opaque' });
+    expect(patternShape(() => true)).toEqual({ kind: 'opaque' });
+  });
+});
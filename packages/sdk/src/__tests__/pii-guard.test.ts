@@ -0,0 +1,165 @@
+import type { ODLEvent } from '../core/event-bus.js';
+import { OpenDataLayer } from '../odl.js';
+import { piiGuard } from '../plugins/pii-guard.js';
+import type { PiiGuardOptions } from '../plugins/pii-guard.js';
+import { sha256 } from '../utils/sha256.js';
+
+/** Track an event through a guard and return the stored event. */
+function guarded(options: PiiGuardOptions | undefined, data: Record<string, unknown>): ODLEvent {
+  const odl = new OpenDataLayer({ plugins: [piiGuard(options)] });
+  odl.track('custom.event', data);
+  return odl.getEvents()[0] as ODLEvent;
+}
+
+describe('piiGuard', () => {
+  // ---------------------------------------------------------------------------
+  // Fields
+  // ---------------------------------------------------------------------------
+
+  describe('fields', () => {
+    it('drops PII fields at any depth, including inside arrays', () => {
+      const event = guarded(undefined, {
+        orderId: 'o1',
+        customer: { email: 'a@b.com', tier: 'gold' },
+        recipients: [{ firstName: 'Ann', city: 'Oslo' }],
+      });
+
+      expect(event.data).toEqual({
+        orderId: 'o1',
+        customer: { tier: 'gold' },
+        recipients: [{ city: 'Oslo' }],
+      });
+    });
+
+    it('masks or hashes fields, renaming hashed ones', () => {
+      expect(guarded({ action: 'mask' }, { phone: '555 123 4567' }).data).toEqual({
+        phone: '[REDACTED]',
+      });
+      expect(guarded({ action: 'hash' }, { email: ' Jane@Example.com ' }).data).toEqual({
+        emailHash: sha256('jane@example.com'),
+      });
+      expect(
+        guarded({ action: 'hash', hashSuffix: false, salt: 's1' }, { email: 'jane@example.com' })
+          .data,
+      ).toEqual({ email: sha256('s1jane@example.com') });
+    });
+
+    it('drops objects it cannot hash', () => {
+      const event = guarded({ action: 'hash' }, { address: { street: 'Main St 1' } });
+
+      expect(event.data).toEqual({});
+    });
+
+    it('guards context and custom dimensions', () => {
+      const odl = new OpenDataLayer({
+        context: { user: { id: 'u1', email: 'a@b.com' } },
+        plugins: [piiGuard()],
+      });
+
+      odl.track('page.view', undefined, { email: 'a@b.com', plan: 'pro' });
+
+      const [event] = odl.getEvents();
+      expect(event?.context?.user).toEqual({ id: 'u1' });
+      expect(event?.customDimensions).toEqual({ plan: 'pro' });
+      expect(odl.getContext().user).toEqual({ id: 'u1', email: 'a@b.com' });
+    });
+
+    it('only guards the given scopes', () => {
+      const event = guarded({ scopes: ['context'] }, { email: 'a@b.com' });
+
+      expect(event.data).toEqual({ email: 'a@b.com' });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Path rules
+  // ---------------------------------------------------------------------------
+
+  describe('rules', () => {
+    it('applies the first matching rule over field names', () => {
+      const event = guarded(
+        {
+          rules: {
+            'data.contact.email': 'hash',
+            'data.support.email': 'keep',
+            'data.items.*.note': 'mask',
+            'data.items.*': 'keep',
+          },
+        },
+        {
+          contact: { email: 'jane@example.com' },
+          support: { email: 'help@example.com' },
+          items: [{ sku: 'A1', note: 'gift' }],
+        },
+      );
+
+      expect(event.data).toEqual({
+        contact: { emailHash: sha256('jane@example.com') },
+        support: { email: 'help@example.com' },
+        items: [{ sku: 'A1', note: 'gift' }],
+      });
+    });
+
+    it('matches array items by index', () => {
+      const event = guarded(
+        { rules: { 'data.notes.*.text': 'mask', 'data.tags.1': 'drop' } },
+        { notes: [{ text: 'call me' }], tags: ['a', 'b', 'c'] },
+      );
+
+      expect(event.data).toEqual({ notes: [{ text: '[REDACTED]' }], tags: ['a', 'c'] });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Detection
+  // ---------------------------------------------------------------------------
+
+  describe('detection', () => {
+    it('masks emails, phone numbers and card numbers within strings', () => {
+      const event = guarded(undefined, {
+        message: 'Mail jane@example.com or call +1 (555) 123-4567',
+        payment: 'card 4111 1111 1111 1111 on file',
+        list: ['+4915112345678', '+49 151 12345678', '(555) 123-4567', 'ok'],
+      });
+
+      expect(event.data).toEqual({
+        message: 'Mail [REDACTED] or call [REDACTED]',
+        payment: 'card [REDACTED] on file',
+        list: ['[REDACTED]', '[REDACTED]', '[REDACTED]', 'ok'],
+      });
+    });
+
+    it('leaves values that only look like PII', () => {
+      const data = {
+        date: '2026-10-19',
+        order: '4111 1111 1111 1112',
+        version: '1.2.3',
+        id: '550e8400-e29b-41d4-a716-446655440000',
+        sku: '123-456-789',
+        ticket: '100-2000-3000',
+        video: '1920 1080 24',
+        extension: '(555) 1234',
+      };
+
+      expect(guarded(undefined, data).data).toEqual(data);
+    });
+
+    it('hashes or drops detected values', () => {
+      expect(guarded({ detectAction: 'hash' }, { q: 'from jane@example.com' }).data).toEqual({
+        q: `from ${sha256('jane@example.com')}`,
+      });
+      expect(guarded({ detectAction: 'drop' }, { q: 'from jane@example.com', n: 1 }).data).toEqual({
+        n: 1,
+      });
+    });
+
+    it('uses custom patterns and can be turned off', () => {
+      expect(guarded({ detect: [/EMP-\d+/] }, { owner: 'EMP-42 and EMP-7' }).data).toEqual({
+        owner: '[REDACTED] and [REDACTED]',
+      });
+      expect(guarded({ detect: false }, { q: 'jane@example.com' }).data).toEqual({
+        q: 'jane@example.com',
+      });
+    });
+  });
+});
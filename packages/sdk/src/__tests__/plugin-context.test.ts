@@ -0,0 +1,254 @@
+import { DataLayer } from '../core/data-layer.js';
+import type { ODLDiagnostic, ODLEvent } from '../core/event-bus.js';
+import { compilePermissions, createPluginContext, redactEvent } from '../plugins/context.js';
+import type { PluginPermissions } from '../plugins/types.js';
+
+function contextFor(dataLayer: DataLayer, permissions?: PluginPermissions) {
+  return createPluginContext('vendor', dataLayer, compilePermissions(permissions));
+}
+
+describe('createPluginContext', () => {
+  let dl: DataLayer;
+
+  beforeEach(() => {
+    dl = new DataLayer();
+  });
+
+  // ---------------------------------------------------------------------------
+  // Events and context
+  // ---------------------------------------------------------------------------
+
+  describe('events and context', () => {
+    it('tracks events and subscribes through the data layer', () => {
+      const { context } = contextFor(dl);
+      const handler = vi.fn();
+      context.on('custom.*', handler);
+
+      const event = context.track('custom.ping', { n: 1 }, { dim: 'a' });
+
+      expect(dl.getEvents()).toEqual([event]);
+      expect(handler).toHaveBeenCalledWith(event);
+    });
+
+    it('reads and writes context', () => {
+      const { context } = contextFor(dl);
+
+      context.setContext('user', { id: '42' });
+      context.updateContext('user', { role: 'admin' });
+
+      expect(context.getContext()).toEqual({ user: { id: '42', role: 'admin' } });
+    });
+
+    it('hands out copies of the context', () => {
+      const { context } = contextFor(dl);
+      dl.setContext('user', { id: '42', traits: { plan: 'free' } });
+      context.onContextChange('user', (change) => {
+        (change.next as { traits: { plan: string } }).traits.plan = 'changed';
+      });
+
+      (context.getContext().user as { traits: { plan: string } }).traits.plan = 'pro';
+      dl.updateContext('user', { role: 'admin' });
+
+      expect(dl.getContext()).toEqual({
+        user: { id: '42', role: 'admin', traits: { plan: 'free' } },
+      });
+    });
+
+    it('dispose() releases subscriptions and context listeners', () => {
+      const { context, dispose } = contextFor(dl);
+      const handler = vi.fn();
+      const onChange = vi.fn();
+      context.on('*', handler);
+      context.onContextChange('*', onChange);
+
+      dispose();
+      dl.push('custom.ping');
+      dl.setContext('user', { id: '42' });
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Permissions
+  // ---------------------------------------------------------------------------
+
+  describe('permissions', () => {
+    it('hides context keys the plugin may not read', () => {
+      dl.setContext('user', { id: '42' });
+      dl.setContext('page', { path: '/' });
+      const { context } = contextFor(dl, { readContext: { exclude: ['user'] } });
+      const handler = vi.fn();
+      const onChange = vi.fn();
+      context.on('*', handler);
+      context.onContextChange('*', onChange);
+
+      dl.push('custom.ping');
+      dl.setContext('user', { id: '43' });
+      dl.setContext('page', { path: '/cart' });
+
+      expect(context.getContext()).toEqual({ page: { path: '/cart' } });
+      expect(handler.mock.calls[0]?.[0].context).toEqual({ page: { path: '/' } });
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange.mock.calls[0]?.[0].key).toBe('page');
+    });
+
+    it('hides those keys from predicates and tracked events', () => {
+      dl.setContext('user', { id: '42' });
+      dl.setContext('page', { path: '/' });
+      const { context } = contextFor(dl, { readContext: { include: ['page'] } });
+      const predicate = vi.fn((event: ODLEvent) => event.context?.user === undefined);
+      const handler = vi.fn();
+      context.on(predicate, handler);
+
+      const event = context.track('custom.ping');
+
+      expect(event.context).toEqual({ page: { path: '/' } });
+      expect(predicate.mock.calls[0]?.[0].context).toEqual({ page: { path: '/' } });
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(dl.getEvents()[0]?.context).toEqual({ user: { id: '42' }, page: { path: '/' } });
+    });
+
+    it('ignores listeners on a key the plugin may not read', () => {
+      const { context } = contextFor(dl, { readContext: { include: ['page'] } });
+      const onChange = vi.fn();
+      context.onContextChange('user', onChange);
+
+      dl.setContext('user', { id: '42' });
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('throws when writing a key the plugin may not write', () => {
+      const { context } = contextFor(dl, { writeContext: { include: ['page'] } });
+
+      expect(() => context.setContext('user', { id: '42' })).toThrow(
+        'Plugin "vendor" may not write context "user"',
+      );
+      expect(() => context.updateContext('user', { id: '42' })).toThrow(
+        'Plugin "vendor" may not write context "user"',
+      );
+      expect(dl.getContext()).toEqual({});
+    });
+
+    it('throws when tracking is not allowed', () => {
+      const { context } = contextFor(dl, { track: false });
+
+      expect(() => context.track('custom.ping')).toThrow('Plugin "vendor" may not track events');
+      expect(dl.getEvents()).toHaveLength(0);
+    });
+
+    it('throws when storage is not allowed', () => {
+      const { context } = contextFor(dl, { storage: false });
+
+      expect(() => context.storage.get('key')).toThrow('Plugin "vendor" may not use storage');
+    });
+
+    it('redactEvent() returns the event itself when nothing is hidden', () => {
+      const event = dl.push('custom.ping');
+
+      expect(redactEvent(event, compilePermissions({ readContext: false }))).toBe(event);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Storage
+  // ---------------------------------------------------------------------------
+
+  describe('storage', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('keeps values in memory without localStorage', () => {
+      const { context } = contextFor(dl);
+
+      context.storage.set('visits', { count: 2 });
+      expect(context.storage.get('visits')).toEqual({ count: 2 });
+
+      context.storage.remove('visits');
+      expect(context.storage.get('visits')).toBeUndefined();
+    });
+
+    it('stores JSON in localStorage under the plugin name', () => {
+      const items = new Map<string, string>();
+      vi.stubGlobal('window', {});
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key),
+      });
+      const { context } = contextFor(dl);
+
+      context.storage.set('visits', 2);
+
+      expect(items.get('odl:vendor:visits')).toBe('2');
+      expect(context.storage.get('visits')).toBe(2);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Logger and scheduler
+  // ---------------------------------------------------------------------------
+
+  describe('logger and scheduler', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('prefixes log messages with the plugin name', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { context } = contextFor(dl);
+
+      context.logger.warn('script missing', 42);
+
+      expect(warn).toHaveBeenCalledWith('[ODL vendor]', 'script missing', 42);
+    });
+
+    it('runs and cancels timers', () => {
+      vi.useFakeTimers();
+      const { context } = contextFor(dl);
+      const tick = vi.fn();
+      const once = vi.fn();
+
+      const cancel = context.scheduler.setInterval(tick, 100);
+      context.scheduler.setTimeout(once, 150);
+      vi.advanceTimersByTime(250);
+      cancel();
+      vi.advanceTimersByTime(250);
+
+      expect(tick).toHaveBeenCalledTimes(2);
+      expect(once).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports errors thrown by timer callbacks', () => {
+      vi.useFakeTimers();
+      const diagnostics: ODLDiagnostic[] = [];
+      dl.onDiagnostic((diagnostic) => diagnostics.push(diagnostic));
+      const { context } = contextFor(dl);
+      const error = new Error('boom');
+
+      context.scheduler.setTimeout(() => {
+        throw error;
+      }, 10);
+      vi.advanceTimersByTime(10);
+
+      expect(diagnostics).toEqual([{ origin: 'plugin', error, name: 'vendor' }]);
+    });
+
+    it('dispose() clears pending timers', () => {
+      vi.useFakeTimers();
+      const { context, dispose } = contextFor(dl);
+      const tick = vi.fn();
+      context.scheduler.setInterval(tick, 100);
+      context.scheduler.setTimeout(tick, 100);
+
+      dispose();
+      vi.advanceTimersByTime(500);
+
+      expect(tick).not.toHaveBeenCalled();
+    });
+  });
+});
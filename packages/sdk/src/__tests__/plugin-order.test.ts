@@ -0,0 +1,110 @@
+import { checkRegistration, orderPlugins } from '../plugins/order.js';
+import type { ODLPlugin } from '../plugins/types.js';
+
+function names(plugins: ODLPlugin[]): string[] {
+  return plugins.map((plugin) => plugin.name);
+}
+
+describe('orderPlugins', () => {
+  // ---------------------------------------------------------------------------
+  // Ordering
+  // ---------------------------------------------------------------------------
+
+  describe('ordering', () => {
+    it('keeps registration order without constraints', () => {
+      const plugins = [{ name: 'a' }, { name: 'b' }, { name: 'c' }];
+
+      expect(names(orderPlugins(plugins))).toEqual(['a', 'b', 'c']);
+    });
+
+    it('places a plugin after its dependencies', () => {
+      const plugins = [{ name: 'adapter', dependsOn: ['consent'] }, { name: 'consent' }];
+
+      expect(names(orderPlugins(plugins))).toEqual(['consent', 'adapter']);
+    });
+
+    it('honours before and after', () => {
+      const plugins = [
+        { name: 'a', after: ['c'] },
+        { name: 'b' },
+        { name: 'c' },
+        { name: 'd', before: ['b'] },
+      ];
+
+      expect(names(orderPlugins(plugins))).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('ignores before and after entries for unregistered plugins', () => {
+      const plugins = [
+        { name: 'a', after: ['missing'] },
+        { name: 'b', before: ['missing'] },
+      ];
+
+      expect(names(orderPlugins(plugins))).toEqual(['a', 'b']);
+    });
+
+    it('orders a chain of dependencies', () => {
+      const plugins = [
+        { name: 'c', dependsOn: ['b'] },
+        { name: 'b', dependsOn: ['a'] },
+        { name: 'a' },
+      ];
+
+      expect(names(orderPlugins(plugins))).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Cycles
+  // ---------------------------------------------------------------------------
+
+  describe('cycles', () => {
+    it('throws naming the plugins in the cycle', () => {
+      const plugins = [
+        { name: 'x' },
+        { name: 'a', dependsOn: ['b'], before: ['c'] },
+        { name: 'b', after: ['c'] },
+        { name: 'c' },
+      ];
+
+      expect(() => orderPlugins(plugins)).toThrow('Plugin dependency cycle: c -> b -> a -> c');
+    });
+
+    it('reports the cycle rather than plugins that merely depend on it', () => {
+      const plugins = [
+        { name: 'c', dependsOn: ['a'] },
+        { name: 'a', dependsOn: ['b'] },
+        { name: 'b', dependsOn: ['a'] },
+      ];
+
+      expect(() => orderPlugins(plugins)).toThrow('Plugin dependency cycle: b -> a -> b');
+    });
+  });
+});
+
+describe('checkRegistration', () => {
+  it('accepts dependencies registered earlier or alongside', () => {
+    const registered = [{ name: 'consent' }];
+    const added = [{ name: 'adapter', dependsOn: ['consent', 'identity'] }, { name: 'identity' }];
+
+    expect(() => checkRegistration(registered, added)).not.toThrow();
+  });
+
+  it('throws for a name that is already registered', () => {
+    expect(() => checkRegistration([{ name: 'consent' }], [{ name: 'consent' }])).toThrow(
+      'Plugin "consent" is already registered',
+    );
+  });
+
+  it('throws for a name used twice in one registration', () => {
+    expect(() => checkRegistration([], [{ name: 'a' }, { name: 'a' }])).toThrow(
+      'Plugin "a" is already registered',
+    );
+  });
+
+  it('throws for a missing dependency', () => {
+    expect(() => checkRegistration([], [{ name: 'adapter', dependsOn: ['consent'] }])).toThrow(
+      'Plugin "adapter" depends on "consent", which is not registered',
+    );
+  });
+});
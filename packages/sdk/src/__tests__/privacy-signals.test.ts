@@ -0,0 +1,182 @@
+import type { ConsentContext } from '@opendatalayer/types';
+import { OpenDataLayer } from '../odl.js';
+import { consent } from '../plugins/consent.js';
+import { privacySignals } from '../plugins/privacy-signals.js';
+import type { PrivacySignalsOptions } from '../plugins/privacy-signals.js';
+
+function stubSignals(signals: { globalPrivacyControl?: boolean; doNotTrack?: string | null }) {
+  vi.stubGlobal('navigator', signals);
+}
+
+function create(options?: PrivacySignalsOptions, context?: { consent: ConsentContext }) {
+  return new OpenDataLayer({
+    context,
+    plugins: [privacySignals(options), consent({ persist: false })],
+  });
+}
+
+describe('privacySignals', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // ---------------------------------------------------------------------------
+  // Recording signals
+  // ---------------------------------------------------------------------------
+
+  describe('recording signals', () => {
+    it('records GPC and Do Not Track in the consent context', () => {
+      stubSignals({ globalPrivacyControl: true, doNotTrack: '1' });
+
+      const odl = create();
+
+      expect(odl.getContext().consent).toMatchObject({
+        status: 'pending',
+        gpcEnabled: true,
+        doNotTrack: true,
+      });
+    });
+
+    it('records both signals as off when absent', () => {
+      stubSignals({ doNotTrack: null });
+
+      const odl = create();
+
+      expect(odl.getContext().consent).toMatchObject({ gpcEnabled: false, doNotTrack: false });
+      expect(console.info).not.toHaveBeenCalled();
+    });
+
+    it('logs a detected GPC signal', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      create();
+
+      expect(console.info).toHaveBeenCalledWith(
+        '[ODL privacy-signals]',
+        'Global Privacy Control signal detected',
+      );
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // GPC interactions (privacy spec §7.4)
+  // ---------------------------------------------------------------------------
+
+  describe('GPC interactions', () => {
+    it('denies the opt-out purposes without an explicit choice', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      const odl = create(undefined, {
+        consent: { status: 'granted', method: 'implicit', purposes: { marketing: true } },
+      });
+      odl.track('page.view');
+      odl.track('ad.clicked', { adId: 'a1' });
+
+      expect(odl.getContext().consent?.purposes).toEqual({
+        marketing: false,
+        personalization: false,
+        advertising: false,
+      });
+      expect(odl.getEvents().map((event) => event.event)).toEqual(['page.view']);
+    });
+
+    it('lets an explicit choice override GPC', () => {
+      stubSignals({ globalPrivacyControl: true });
+      const odl = create();
+
+      odl.track('consent.given', { purposes: { analytics: true, marketing: true } });
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({
+        analytics: true,
+        marketing: true,
+        personalization: false,
+        advertising: false,
+      });
+    });
+
+    it('re-applies signals when the consent context is replaced', () => {
+      stubSignals({ globalPrivacyControl: true });
+      const odl = create();
+
+      odl.setContext('consent', { status: 'granted', method: 'implicit' });
+
+      expect(odl.getContext().consent).toMatchObject({
+        gpcEnabled: true,
+        purposes: { marketing: false, personalization: false, advertising: false },
+      });
+    });
+
+    it('leaves consent alone without GPC', () => {
+      stubSignals({});
+
+      const odl = create(undefined, {
+        consent: { status: 'granted', method: 'implicit', purposes: { marketing: true } },
+      });
+
+      expect(odl.getContext().consent?.purposes).toEqual({ marketing: true });
+    });
+
+    it('only treats Do Not Track as an opt-out when asked to', () => {
+      stubSignals({ doNotTrack: '1' });
+      const implied: ConsentContext = { status: 'granted', method: 'implicit' };
+
+      expect(create(undefined, { consent: implied }).getContext().consent?.purposes).toBe(
+        undefined,
+      );
+      expect(
+        create(
+          { doNotTrack: true, optOutPurposes: ['marketing'] },
+          { consent: implied },
+        ).getContext().consent?.purposes,
+      ).toEqual({ marketing: false });
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Regions
+  // ---------------------------------------------------------------------------
+
+  describe('regions', () => {
+    const implied: ConsentContext = { status: 'granted', method: 'implicit' };
+
+    it('opts out in a listed region or one of its subdivisions', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      const odl = create({ region: 'us-ca', regions: ['US'] }, { consent: implied });
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({ marketing: false });
+    });
+
+    it('only records the signal outside the listed regions', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      const odl = create({ region: 'US-TX', regions: ['US-CA', 'US-CO'] }, { consent: implied });
+
+      expect(odl.getContext().consent).toEqual({ ...implied, gpcEnabled: true, doNotTrack: false });
+    });
+
+    it('reads the region from the location context', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      const odl = new OpenDataLayer({
+        context: { consent: implied, location: { country: 'US', region: 'TX' } },
+        plugins: [privacySignals({ regions: ['US-CA'] })],
+      });
+
+      expect(odl.getContext().consent?.purposes).toBe(undefined);
+    });
+
+    it('opts out when the region is unknown', () => {
+      stubSignals({ globalPrivacyControl: true });
+
+      const odl = create({ regions: ['US-CA'] }, { consent: implied });
+
+      expect(odl.getContext().consent?.purposes).toMatchObject({ marketing: false });
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { OpenDataLayer } from '../odl.js';
+import { QUEUE_SNIPPET, isQueuedCommand, isQueuedEvent } from '../queue.js';
+import type { ODLQueueProxy } from '../queue.js';
+
+/** Run the inline snippet against a fake `window`. */
+function runSnippet(win: Record<string, unknown>): void {
+  new Function('window', QUEUE_SNIPPET)(win);
+}
+
+describe('push-before-ready queue', () => {
+  // ---------------------------------------------------------------------------
+  // QUEUE_SNIPPET
+  // ---------------------------------------------------------------------------
+
+  describe('QUEUE_SNIPPET', () => {
+    it('defines window.odl as an array with method stubs', () => {
+      const win: Record<string, unknown> = {};
+      runSnippet(win);
+
+      const queue = win.odl as unknown[] & { track: (...args: unknown[]) => void };
+      expect(Array.isArray(queue)).toBe(true);
+
+      queue.track('page.view', { title: 'Home' });
+
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toEqual({
+        method: 'track',
+        args: ['page.view', { title: 'Home' }],
+        timestamp: expect.any(String),
+      });
+    });
+
+    it('preserves an existing queue', () => {
+      const win: Record<string, unknown> = { odl: [{ event: 'page.view' }] };
+      runSnippet(win);
+
+      expect(win.odl).toHaveLength(1);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // Queue item guards
+  // ---------------------------------------------------------------------------
+
+  describe('queue item guards', () => {
+    it('recognises recorded commands', () => {
+      expect(isQueuedCommand({ method: 'track', args: ['page.view'] })).toBe(true);
+      expect(isQueuedCommand({ method: 'reset', args: [] })).toBe(false);
+      expect(isQueuedCommand({ method: 'track' })).toBe(false);
+    });
+
+    it('recognises plain event objects', () => {
+      expect(isQueuedEvent({ event: 'page.view' })).toBe(true);
+      expect(isQueuedEvent({ data: {} })).toBe(false);
+      expect(isQueuedEvent(null)).toBe(false);
+    });
+  });
+
+  // ---------------------------------------------------------------------------
+  // attachQueue()
+  // ---------------------------------------------------------------------------
+
+  describe('attachQueue()', () => {
+    it('replays queued calls in order with their original timestamps', () => {
+      const win: Record<string, unknown> = {};
+      runSnippet(win);
+      const queue = win.odl as unknown[];
+      queue.push(
+        {
+          method: 'setContext',
+          args: ['user', { id: '42' }],
+          timestamp: '2026-01-01T00:00:00.000Z',
+        },
+        {
+          method: 'track',
+          args: ['page.view', { title: 'Home' }],
+          timestamp: '2026-01-01T00:00:01.000Z',
+        },
+        {
+          method: 'updateContext',
+          args: ['user', { tier: 'gold' }],
+          timestamp: '2026-01-01T00:00:02.000Z',
+        },
+        { event: 'ecommerce.cart_viewed', timestamp: '2026-01-01T00:00:03.000Z' },
+      );
+
+      const odl = new OpenDataLayer();
+      odl.attachQueue({ target: win });
+
+      const events = odl.getEvents();
+      expect(events.map((e) => e.event)).toEqual(['page.view', 'ecommerce.cart_viewed']);
+      expect(events[0]?.timestamp).toBe('2026-01-01T00:00:01.000Z');
+      expect(events[0]?.data).toEqual({ title: 'Home' });
+      expect(events[0]?.context).toEqual({ user: { id: '42' } });
+      expect(events[1]?.timestamp).toBe('2026-01-01T00:00:03.000Z');
+      expect(events[1]?.context).toEqual({ user: { id: '42', tier: 'gold' } });
+    });
+
+    it('queued events pass through plugin hooks', () => {
+      const afterEvent = vi.fn();
+      const win: Record<string, unknown> = { odl: [{ event: 'page.view' }] };
+
+      const odl = new OpenDataLayer({ plugins: [{ name: 'spy', afterEvent }] });
+      odl.attachQueue({ target: win });
+
+      expect(afterEvent).toHaveBeenCalledWith(expect.objectContaining({ event: 'page.view' }));
+    });
+
+    it('ignores unrecognised entries', () => {
+      const win: Record<string, unknown> = {
+        odl: [42, 'page.view', { method: 'track', args: [123] }, { event: 'page.view' }],
+      };
+
+      const odl = new OpenDataLayer();
+      odl.attachQueue({ target: win });
+
+      expect(odl.getEvents()).toHaveLength(1);
+    });
+
+    it('replaces the global with a live proxy', () => {
+      const win: Record<string, unknown> = {};
+      runSnippet(win);
+
+      const odl = new OpenDataLayer();
+      const proxy = odl.attachQueue({ target: win });
+
+      expect(win.odl).toBe(proxy);
+
+      const live = win.odl as ODLQueueProxy;
+      live.push({ event: 'page.view' });
+      live.setContext('page', { path: '/' });
+      live.track('ecommerce.purchase', { orderId: 'A1' });
+
+      expect(odl.getEvents().map((e) => e.event)).toEqual(['page.view', 'ecommerce.purchase']);
+      expect(odl.getEvents()[1]?.context).toEqual({ page: { path: '/' } });
+    });
+
+    it('keeps references to the queue array working', () => {
+      const win: Record<string, unknown> = {};
+      runSnippet(win);
+      const queue = win.odl as unknown[] & ODLQueueProxy;
+      queue.track('page.view');
+
+      const odl = new OpenDataLayer();
+      odl.attachQueue({ target: win });
+
+      expect(win.odl).toBe(queue);
+      expect(queue).toHaveLength(0);
+
+      queue.setContext('page', { path: '/' });
+      queue.track('ecommerce.cart_viewed');
+      queue.push({ event: 'search.performed' });
+
+      expect(odl.getEvents().map((e) => e.event)).toEqual([
+        'page.view',
+        'ecommerce.cart_viewed',
+        'search.performed',
+      ]);
+      expect(odl.getEvents()[1]?.context).toEqual({ page: { path: '/' } });
+      expect(queue).toHaveLength(0);
+    });
+
+    it('supports a custom global name and works without a queue', () => {
+      const win: Record<string, unknown> = {};
+
+      const odl = new OpenDataLayer();
+      odl.attachQueue({ target: win, name: 'myOdl' });
+
+      expect(win.myOdl).toBeDefined();
+      expect(odl.getEvents()).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import type {
+  ConsentContext,
+  ODLEventMap,
+  PageContext,
+  ProductAddedData,
+  ProductViewedData,
+  PromotionClickedData,
+  PromotionViewedData,
+} from '@opendatalayer/types';
+import { describe, expectTypeOf, it } from 'vitest';
+import type { ODLContextKey, ODLEventName, OpenDataLayer } from '../odl.js';
+
+declare module '@opendatalayer/types' {
+  interface ODLContext {
+    x_loyalty?: { tier: string; points: number };
+  }
+}
+
+declare const odl: OpenDataLayer;
+
+describe('typed track()', () => {
+  it('accepts taxonomy events with their data type', () => {
+    odl.track('ecommerce.purchase', {
+      orderId: 'A-1',
+      total: 10,
+      currency: 'EUR',
+      products: [],
+    });
+    odl.track('page.view');
+
+    expectTypeOf(odl.track<'ecommerce.purchase'>)
+      .parameter(1)
+      .toEqualTypeOf<ODLEventMap['ecommerce.purchase']>();
+  });
+
+  it('requires data when the data type has required properties', () => {
+    // @ts-expect-error -- a purchase needs its order
+    odl.track('ecommerce.purchase');
+    // @ts-expect-error -- a purchase needs its order
+    void odl.trackAsync('ecommerce.purchase');
+    odl.track('page.view', undefined, { section: 'home' });
+    void odl.trackAsync('custom.quiz_completed');
+
+    expectTypeOf(odl.track<'page.view'>)
+      .parameter(1)
+      .toEqualTypeOf<ODLEventMap['page.view'] | undefined>();
+  });
+
+  it('knows the product and promotion events', () => {
+    expectTypeOf<'ecommerce.product_added'>().toMatchTypeOf<ODLEventName>();
+    expectTypeOf<'ecommerce.promotion_viewed'>().toMatchTypeOf<ODLEventName>();
+    expectTypeOf<ODLEventMap['ecommerce.product_added']>().toEqualTypeOf<ProductAddedData>();
+    expectTypeOf<ODLEventMap['ecommerce.product_viewed']>().toEqualTypeOf<ProductViewedData>();
+    expectTypeOf<ODLEventMap['ecommerce.promotion_viewed']>().toEqualTypeOf<PromotionViewedData>();
+    expectTypeOf<
+      ODLEventMap['ecommerce.promotion_clicked']
+    >().toEqualTypeOf<PromotionClickedData>();
+
+    // @ts-expect-error -- a product needs a price
+    odl.track('ecommerce.product_added', { product: { id: 'p1', name: 'Shoe' } });
+    // @ts-expect-error -- a promotion needs a name
+    odl.track('ecommerce.promotion_clicked', { promotion: { id: 'promo1' } });
+  });
+
+  it('keeps custom.* events open', () => {
+    odl.track('custom.quiz_completed', { anything: true });
+
+    expectTypeOf(odl.track<'custom.quiz_completed'>)
+      .parameter(1)
+      .toEqualTypeOf<Record<string, unknown> | undefined>();
+    expectTypeOf<'custom.anything'>().toMatchTypeOf<ODLEventName>();
+  });
+
+  it('rejects unknown event names and wrong payloads', () => {
+    // @ts-expect-error -- typo in the event name
+    odl.track('ecommerce.purchse', { orderId: 'A-1' });
+    odl.track('ecommerce.purchase', {
+      orderId: 'A-1',
+      // @ts-expect-error -- `total` must be a number
+      total: '10',
+      currency: 'EUR',
+      products: [],
+    });
+    // @ts-expect-error -- non-standard category
+    odl.track('mycompany.quiz_completed');
+
+    expectTypeOf<'ecommerce.purchse'>().not.toMatchTypeOf<ODLEventName>();
+  });
+});
+
+describe('typed context', () => {
+  it('types values by ODLContext domain', () => {
+    odl.setContext('page', { url: 'https://example.com/', path: '/' });
+    odl.updateContext('user', { traits: { plan: 'pro' } });
+
+    expectTypeOf(odl.setContext<'consent'>)
+      .parameter(1)
+      .toEqualTypeOf<ConsentContext>();
+    expectTypeOf(odl.getContext().page).toEqualTypeOf<PageContext | undefined>();
+  });
+
+  it('accepts extension contexts, typed when declared on ODLContext', () => {
+    odl.setContext('x_loyalty', { tier: 'gold', points: 15000 });
+    odl.setContext('x_crm', 'anything');
+
+    expectTypeOf(odl.getContext().x_loyalty).toEqualTypeOf<
+      { tier: string; points: number } | undefined
+    >();
+    expectTypeOf(odl.getContext().x_crm).toBeUnknown();
+  });
+
+  it('rejects unknown domains and wrong values', () => {
+    // @ts-expect-error -- not an ODLContext domain or an x_ extension
+    odl.setContext('loyaltyProgram', {});
+    // @ts-expect-error -- `url` and `path` are required
+    odl.setContext('page', { title: 'Home' });
+    // @ts-expect-error -- `points` must be a number
+    odl.updateContext('x_loyalty', { points: '10' });
+
+    expectTypeOf<'x_anything'>().toMatchTypeOf<ODLContextKey>();
+    expectTypeOf<'loyaltyProgram'>().not.toMatchTypeOf<ODLContextKey>();
+  });
+});
@@ -1,5 +1,8 @@
+import { cloneDeep } from '../utils/clone.js';
 import { deepMerge } from '../utils/deep-merge.js';
+import { diff, isEqual } from '../utils/diff.js';
 import { sanitizeString, stripPII } from '../utils/sanitize.js';
+import { sha256 } from '../utils/sha256.js';
 import { now } from '../utils/timestamp.js';
 import { generateUUID } from '../utils/uuid.js';
 
@@ -164,6 +167,123 @@ describe('deepMerge', () => {
   });
 });
 
+// =============================================================================
+// cloneDeep
+// =============================================================================
+
+describe('cloneDeep', () => {
+  it('copies nested plain objects and arrays', () => {
+    const source = { user: { traits: { tags: ['a', 'b'] } } };
+
+    const result = cloneDeep(source);
+
+    expect(result).toEqual(source);
+    expect(result.user).not.toBe(source.user);
+    expect(result.user.traits.tags).not.toBe(source.user.traits.tags);
+  });
+
+  it('keeps undefined values', () => {
+    const result = cloneDeep({ a: undefined, b: [undefined] });
+
+    expect(Object.keys(result)).toEqual(['a', 'b']);
+    expect(result.b).toHaveLength(1);
+  });
+
+  it('copies dates, regular expressions, maps and sets', () => {
+    const date = new Date('2024-01-01T00:00:00.000Z');
+    const source = {
+      date,
+      pattern: /ab+c/gi,
+      map: new Map([['k', { v: 1 }]]),
+      set: new Set([1, 2]),
+    };
+
+    const result = cloneDeep(source);
+
+    expect(result.date).toEqual(date);
+    expect(result.date).not.toBe(date);
+    expect(result.pattern).toEqual(/ab+c/gi);
+    expect(result.map.get('k')).toEqual({ v: 1 });
+    expect(result.map.get('k')).not.toBe(source.map.get('k'));
+    expect(result.set).toEqual(new Set([1, 2]));
+    expect(result.set).not.toBe(source.set);
+  });
+
+  it('preserves cycles and shared references', () => {
+    const shared = { id: 1 };
+    const source: Record<string, unknown> = { a: shared, b: shared };
+    source.self = source;
+
+    const result = cloneDeep(source);
+
+    expect(result.self).toBe(result);
+    expect(result.a).toBe(result.b);
+    expect(result.a).not.toBe(shared);
+  });
+
+  it('shares class instances and functions by reference', () => {
+    class Tracker {}
+    const tracker = new Tracker();
+    const fn = (): void => {};
+
+    const result = cloneDeep({ tracker, fn });
+
+    expect(result.tracker).toBe(tracker);
+    expect(result.fn).toBe(fn);
+  });
+});
+
+// =============================================================================
+// diff / isEqual
+// =============================================================================
+
+describe('isEqual', () => {
+  it('compares primitives, arrays and plain objects structurally', () => {
+    expect(isEqual(1, 1)).toBe(true);
+    expect(isEqual(Number.NaN, Number.NaN)).toBe(true);
+    expect(isEqual([1, { a: 2 }], [1, { a: 2 }])).toBe(true);
+    expect(isEqual({ a: { b: 1 } }, { a: { b: 2 } })).toBe(false);
+    expect(isEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+  });
+
+  it('compares dates by time', () => {
+    expect(isEqual(new Date(0), new Date(0))).toBe(true);
+    expect(isEqual(new Date(0), new Date(1))).toBe(false);
+  });
+});
+
+describe('diff', () => {
+  it('returns no entries for equal values', () => {
+    expect(diff({ a: [1, 2] }, { a: [1, 2] })).toEqual([]);
+  });
+
+  it('reports changed, added and removed leaves by path', () => {
+    const result = diff(
+      { id: '1', traits: { email: 'a@example.com', tier: 'gold' } },
+      { id: '1', traits: { email: 'b@example.com', name: 'Jane' } },
+      'user',
+    );
+
+    expect(result).toEqual([
+      { path: 'user.traits.email', previous: 'a@example.com', next: 'b@example.com' },
+      { path: 'user.traits.tier', previous: 'gold', next: undefined },
+      { path: 'user.traits.name', previous: undefined, next: 'Jane' },
+    ]);
+  });
+
+  it('reports arrays as a whole', () => {
+    expect(diff({ tags: ['a'] }, { tags: ['a', 'b'] })).toEqual([
+      { path: 'tags', previous: ['a'], next: ['a', 'b'] },
+    ]);
+  });
+
+  it('reports a replaced non-object value at the root path', () => {
+    expect(diff(undefined, { id: '1' }, 'user')).toEqual([
+      { path: 'user', previous: undefined, next: { id: '1' } },
+    ]);
+  });
+});
+
 // =============================================================================
 // sanitizeString
 // =============================================================================
@@ -332,7 +452,17 @@ describe('stripPII', () => {
     expect(result.keepMe).toBe('safe');
   });
 
-  it('leaves arrays as-is (no recursion into arrays)', () => {
+  it('strips PII from objects inside arrays', () => {
+    const input = {
+      items: [{ sku: 'A1', email: 'a@b.com' }, [{ phone: '555', qty: 2 }], 'plain'],
+    };
+
+    const result = stripPII(input);
+
+    expect(result).toEqual({ items: [{ sku: 'A1' }, [{ qty: 2 }], 'plain'] });
+  });
+
+  it('leaves arrays of primitives as-is', () => {
     const input = {
       tags: ['email', 'phone'],
       value: 'keep',
@@ -361,3 +491,27 @@ describe('stripPII', () => {
     expect(result).toEqual(input);
   });
 });
+
+// =============================================================================
+// sha256
+// =============================================================================
+
+describe('sha256', () => {
+  it('hashes to the standard digests', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('password')).toBe(
+      '5e884898da28047151d0e56f8dc6292773603d0d6aabbdd62a11ef721d1542d8',
+    );
+  });
+
+  it('hashes messages spanning several blocks', () => {
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1',
+    );
+  });
+
+  it('encodes the message as UTF-8', () => {
+    expect(sha256('é')).toBe('4a99557e4033c3539de2eb65472017cad5f9557f7a0625a09f1c3f6e2ba69c4c');
+  });
+});
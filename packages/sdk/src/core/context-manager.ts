@@ -1,36 +1,149 @@
+import { cloneDeep } from '../utils/clone.js';
 import { deepMerge } from '../utils/deep-merge.js';
+import { diff } from '../utils/diff.js';
+import type { DiffEntry } from '../utils/diff.js';
+import { now } from '../utils/timestamp.js';
+
+/**
+ * A change to a single context key, delivered to
+ * {@link ContextManager.onChange} handlers.
+ *
+ * `previous` and `next` are the stored values themselves, not copies; treat
+ * them as read-only.
+ */
+export interface ContextChange {
+  key: string;
+  /** The value before the change (`undefined` if the key was added). */
+  previous: unknown;
+  /** The value after the change (`undefined` if the key was removed). */
+  next: unknown;
+  /** Every changed path, e.g. `{ path: 'user.traits.email', previous, next }`. */
+  diff: DiffEntry[];
+}
+
+/**
+ * A recorded context change, kept when history is enabled.
+ */
+export interface ContextHistoryEntry {
+  /** ISO 8601 time of the change. */
+  timestamp: string;
+  key: string;
+  diff: DiffEntry[];
+  /** Copy of the stored context after the change (provider values are not recorded). */
+  context: Record<string, unknown>;
+}
+
+/**
+ * Configuration options for a {@link ContextManager}.
+ */
+export interface ContextManagerOptions {
+  /**
+   * Number of context changes to keep for {@link ContextManager.history} and
+   * {@link ContextManager.at} (default: `0`, no history).
+   */
+  history?: number;
+}
+
+/**
+ * Per-call options for {@link ContextManager.set} and
+ * {@link ContextManager.update}.
+ */
+export interface ContextSetOptions {
+  /**
+   * Remove the key this many milliseconds after it was written. Expiry is
+   * checked lazily, whenever the context is next read, and announced as a
+   * change like any other removal.
+   */
+  ttl?: number;
+  /**
+   * Restart the TTL whenever the key is written or attached to an event,
+   * so that it expires after a period of inactivity (default: `false`).
+   */
+  sliding?: boolean;
+}
+
+/**
+ * Computes a context value on demand. Providers are evaluated each time a
+ * snapshot is taken, i.e. once per event.
+ */
+export type ContextProvider = () => unknown;
+
+type ContextChangeHandler = (change: ContextChange) => void;
+
+interface Expiry {
+  ttl: number;
+  sliding: boolean;
+  /** Time (ms since epoch) at which the key expires. */
+  expiresAt: number;
+}
 
 /**
  * Manages ambient context that is automatically attached to every event.
  *
  * Context is stored as a flat map of **keys** to arbitrary values. Each key
  * typically represents a context domain (e.g. `"page"`, `"user"`, `"session"`).
+ *
+ * Every change that actually alters a value is announced to
+ * {@link onChange} handlers and, when enabled, recorded in a bounded history.
+ *
+ * Keys can be given a TTL, and values that are expensive to compute or
+ * always changing can be registered as lazy {@link provide | providers}.
  */
 export class ContextManager {
   private context: Record<string, unknown> = {};
+  private handlers: Set<ContextChangeHandler> = new Set();
+  private entries: ContextHistoryEntry[] = [];
+  /** True once old history entries have been dropped. */
+  private truncated = false;
+  private maxHistory: number;
+  private expiries: Map<string, Expiry> = new Map();
+  private providers: Map<string, ContextProvider> = new Map();
+  private reportError?: (error: unknown, key: string) => void;
+
+  /**
+   * @param options - History settings.
+   * @param reportError - Called with the affected key when a change handler
+   *   or a provider throws.
+   */
+  constructor(
+    options?: ContextManagerOptions,
+    reportError?: (error: unknown, key: string) => void,
+  ) {
+    this.maxHistory = Math.max(options?.history ?? 0, 0);
+    this.reportError = reportError;
+  }
 
   /**
-   * Return the full context object (by reference).
+   * Return the full context object (by reference), without expired keys.
+   * Provider values are not included.
    * Prefer {@link snapshot} when you need an immutable copy.
    */
   get(): Record<string, unknown> {
+    this.expire();
     return this.context;
   }
 
   /**
    * Set a top-level context key to the given value, replacing any previous
-   * value stored under that key.
+   * value stored under that key (and any TTL it had).
    */
-  set(key: string, value: unknown): void {
+  set(key: string, value: unknown, options?: ContextSetOptions): void {
+    this.expire();
+    const previous = this.context[key];
     this.context[key] = value;
+    this.setExpiry(key, options);
+    this.commit(key, previous, value);
   }
 
   /**
    * Deep-merge `partial` into the existing value stored under `key`.
    *
    * If the key does not yet exist, the partial is used as the initial value.
+   * Passing `options.ttl` replaces the key's TTL; otherwise an existing
+   * sliding TTL is restarted and a fixed one is left as it was.
    */
-  update(key: string, partial: Record<string, unknown>): void {
+  update(key: string, partial: Record<string, unknown>, options?: ContextSetOptions): void {
+    this.expire();
     const existing = this.context[key];
     if (
       existing !== null &&
@@ -42,28 +155,207 @@ export class ContextManager {
     } else {
       this.context[key] = { ...partial };
     }
+    if (options?.ttl !== undefined) {
+      this.setExpiry(key, options);
+    } else {
+      this.touch(key);
+    }
+    this.commit(key, existing, this.context[key]);
   }
 
   /**
    * Remove a top-level key from the context.
    */
   remove(key: string): void {
+    const previous = this.context[key];
     // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
     delete this.context[key];
+    this.expiries.delete(key);
+    this.commit(key, previous, undefined);
   }
 
   /**
-   * Clear all context.
+   * Clear all context. Each removed key is announced as a change; the
+   * history and registered providers are kept.
    */
   reset(): void {
+    const previous = this.context;
     this.context = {};
+    this.expiries.clear();
+    for (const [key, value] of Object.entries(previous)) {
+      this.commit(key, value, undefined);
+    }
+  }
+
+  /**
+   * Register a provider that computes the value of `key` whenever a snapshot
+   * is taken. A provider's value takes precedence over a value stored under
+   * the same key. If the provider throws, the key is left out of the
+   * snapshot and the error is reported.
+   *
+   * @returns A function that unregisters the provider.
+   */
+  provide(key: string, provider: ContextProvider): () => void {
+    this.providers.set(key, provider);
+    return () => {
+      if (this.providers.get(key) === provider) {
+        this.providers.delete(key);
+      }
+    };
+  }
+
+  /**
+   * Subscribe to context changes. Handlers are called synchronously after the
+   * change has been applied, and only when a value actually changed.
+   *
+   * @returns An unsubscribe function.
+   */
+  onChange(handler: ContextChangeHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Return the recorded context changes, oldest first.
+   */
+  history(): readonly ContextHistoryEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Return the context as it was at `timestamp` (an ISO 8601 string such as
+   * an event's `timestamp`, or a `Date`).
+   *
+   * @returns A snapshot, or `undefined` if history is disabled or no longer
+   *   reaches back that far.
+   */
+  at(timestamp: string | Date): Record<string, unknown> | undefined {
+    if (this.maxHistory === 0) {
+      return undefined;
+    }
+
+    const time = typeof timestamp === 'string' ? Date.parse(timestamp) : timestamp.getTime();
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i] as ContextHistoryEntry;
+      if (Date.parse(entry.timestamp) <= time) {
+        return cloneDeep(entry.context);
+      }
+    }
+    // Before the first recorded change the context was empty, unless the
+    // changes in between have been dropped.
+    return this.truncated ? undefined : {};
   }
 
   /**
    * Return a deep clone of the current context so that later mutations do
    * not affect the returned object.
+   *
+   * Values are cloned with {@link cloneDeep}: `Date`, `Map`, `Set` and
+   * `undefined` survive, cycles are preserved, and class instances are
+   * shared by reference.
+   *
+   * Expired keys are dropped first, providers are evaluated, and sliding
+   * TTLs of the included keys are restarted.
+   *
+   * @param include - When given, only keys for which it returns `true` are
+   *   copied into the snapshot (and only their providers are evaluated).
+   */
+  snapshot(include?: (key: string) => boolean): Record<string, unknown> {
+    this.expire();
+
+    const source: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this.context)) {
+      if (!this.providers.has(key) && (!include || include(key))) {
+        source[key] = value;
+        this.touch(key);
+      }
+    }
+    for (const [key, provider] of this.providers) {
+      if (include && !include(key)) continue;
+      try {
+        source[key] = provider();
+      } catch (error) {
+        this.reportError?.(error, key);
+      }
+    }
+    return cloneDeep(source);
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Replace the TTL of `key`, or clear it when `options.ttl` is not given.
+   */
+  private setExpiry(key: string, options?: ContextSetOptions): void {
+    if (options?.ttl === undefined) {
+      this.expiries.delete(key);
+      return;
+    }
+    this.expiries.set(key, {
+      ttl: options.ttl,
+      sliding: options.sliding ?? false,
+      expiresAt: Date.now() + options.ttl,
+    });
+  }
+
+  /**
+   * Restart the TTL of `key` if it is sliding.
+   */
+  private touch(key: string): void {
+    const expiry = this.expiries.get(key);
+    if (expiry?.sliding) {
+      expiry.expiresAt = Date.now() + expiry.ttl;
+    }
+  }
+
+  /**
+   * Remove every key whose TTL has elapsed.
    */
-  snapshot(): Record<string, unknown> {
-    return JSON.parse(JSON.stringify(this.context)) as Record<string, unknown>;
+  private expire(): void {
+    if (this.expiries.size === 0) {
+      return;
+    }
+    const time = Date.now();
+    for (const [key, expiry] of this.expiries) {
+      if (expiry.expiresAt <= time) {
+        this.remove(key);
+      }
+    }
+  }
+
+  /**
+   * Record and announce a change to `key`, unless nothing actually changed.
+   */
+  private commit(key: string, previous: unknown, next: unknown): void {
+    const changes = diff(previous, next, key);
+    if (changes.length === 0) {
+      return;
+    }
+
+    if (this.maxHistory > 0) {
+      this.entries.push({
+        timestamp: now(),
+        key,
+        diff: cloneDeep(changes),
+        context: cloneDeep(this.context),
+      });
+      if (this.entries.length > this.maxHistory) {
+        this.entries.shift();
+        this.truncated = true;
+      }
+    }
+
+    const change: ContextChange = { key, previous, next, diff: changes };
+    for (const handler of this.handlers) {
+      try {
+        handler(change);
+      } catch (error) {
+        this.reportError?.(error, key);
+      }
+    }
   }
 }
@@ -0,0 +1,73 @@
+import type { ODLEvent } from './event-bus.js';
+import { compilePattern } from './pattern.js';
+import type { EventMatcher } from './pattern.js';
+
+/**
+ * Which events a context key is attached to (context-objects spec §2.3,
+ * privacy spec §3.3). Patterns use the subscription glob grammar, e.g.
+ * `"ecommerce.*"` or `"{page,ecommerce}.*"`.
+ */
+export interface ContextScopeRule {
+  /** Attach the key only to events matching one of these patterns. */
+  include?: string | string[];
+  /** Never attach the key to events matching one of these patterns. */
+  exclude?: string | string[];
+}
+
+/**
+ * Scoping rules keyed by context key. Keys without a rule are attached to
+ * every event.
+ */
+export type ContextScope = Record<string, ContextScopeRule>;
+
+/**
+ * Per-event overrides of the scoping rules: `true` attaches the key to this
+ * event even if its rule would omit it, `false` omits it.
+ */
+export type ContextOverrides = Record<string, boolean>;
+
+/**
+ * Decides whether a context key belongs on an event.
+ */
+export type ContextFilter = (key: string, event: ODLEvent, overrides?: ContextOverrides) => boolean;
+
+interface CompiledRule {
+  include?: EventMatcher[];
+  exclude: EventMatcher[];
+}
+
+function compileAll(patterns: string | string[] | undefined): EventMatcher[] {
+  if (patterns === undefined) return [];
+  return (Array.isArray(patterns) ? patterns : [patterns]).map((pattern) =>
+    compilePattern(pattern),
+  );
+}
+
+/**
+ * Compile scoping rules into a filter. Patterns are compiled once, up front.
+ */
+export function compileContextScope(scope: ContextScope = {}): ContextFilter {
+  const rules = new Map<string, CompiledRule>();
+  for (const [key, rule] of Object.entries(scope)) {
+    rules.set(key, {
+      ...(rule.include !== undefined ? { include: compileAll(rule.include) } : {}),
+      exclude: compileAll(rule.exclude),
+    });
+  }
+
+  return (key, event, overrides) => {
+    const override = overrides?.[key];
+    if (override !== undefined) {
+      return override;
+    }
+
+    const rule = rules.get(key);
+    if (!rule) {
+      return true;
+    }
+    if (rule.include && !rule.include.some((matches) => matches(event))) {
+      return false;
+    }
+    return !rule.exclude.some((matches) => matches(event));
+  };
+}
@@ -1,26 +1,95 @@
 import { now } from '../utils/timestamp.js';
 import { generateUUID } from '../utils/uuid.js';
 import { ContextManager } from './context-manager.js';
+import type {
+  ContextChange,
+  ContextHistoryEntry,
+  ContextProvider,
+  ContextSetOptions,
+} from './context-manager.js';
+import { compileContextScope } from './context-scope.js';
+import type { ContextFilter, ContextOverrides, ContextScope } from './context-scope.js';
 import { EventBus } from './event-bus.js';
-import type { ODLEvent } from './event-bus.js';
+import type { ODLDiagnostic, ODLEvent, SubscribeOptions, WaitForOptions } from './event-bus.js';
+import { EventStore } from './event-store.js';
+import type { RetentionOptions } from './event-store.js';
 import { MiddlewarePipeline } from './middleware.js';
-import type { MiddlewareFn } from './middleware.js';
+import type {
+  MiddlewareFn,
+  MiddlewareInfo,
+  MiddlewareOptions,
+  MiddlewarePipelineOptions,
+} from './middleware.js';
+import type { EventPattern } from './pattern.js';
+
+/**
+ * Configuration options for a {@link DataLayer}.
+ */
+export interface DataLayerOptions {
+  /** Defaults applied to every middleware in the pipeline (e.g. timeouts, error policy). */
+  middleware?: MiddlewarePipelineOptions;
+  /**
+   * Limits on the events kept for {@link DataLayer.getEvents} and replay, or
+   * `false` to store no events at all (default: keep every event).
+   */
+  retention?: RetentionOptions | false;
+  /**
+   * Rules restricting which context keys are attached to which events, e.g.
+   * `{ cart: { include: 'ecommerce.*' } }`. Unlisted keys go on every event.
+   */
+  contextScope?: ContextScope;
+  /**
+   * Number of context changes to keep for {@link DataLayer.getContextHistory}
+   * and {@link DataLayer.getContextAt} (default: `0`, no history).
+   */
+  contextHistory?: number;
+}
+
+/**
+ * Per-call options for {@link DataLayer.push} and {@link DataLayer.pushAsync}.
+ */
+export interface PushOptions {
+  /**
+   * ISO 8601 timestamp to use instead of the current time, e.g. for events
+   * that were queued before the SDK loaded.
+   */
+  timestamp?: string;
+  /**
+   * Force context keys onto (`true`) or off (`false`) this event, overriding
+   * the `contextScope` rules.
+   */
+  context?: ContextOverrides;
+}
 
 /**
  * The core data layer that ties together event storage, the event bus,
  * the middleware pipeline, and ambient context management.
  */
 export class DataLayer {
-  private events: ODLEvent[] = [];
+  private events: EventStore;
   private bus: EventBus;
   private middleware: MiddlewarePipeline;
   private contextManager: ContextManager;
+  private contextFilter: ContextFilter;
   private source?: { name: string; version: string };
 
-  constructor(source?: { name: string; version: string }) {
-    this.bus = new EventBus();
-    this.middleware = new MiddlewarePipeline();
-    this.contextManager = new ContextManager();
+  constructor(source?: { name: string; version: string }, options?: DataLayerOptions) {
+    this.bus = new EventBus(() => this.events.all());
+    this.events = new EventStore(options?.retention, (error) => {
+      this.bus.reportDiagnostic({ origin: 'storage', error, name: 'onEvict' });
+    });
+    this.middleware = new MiddlewarePipeline(options?.middleware, (failure) => {
+      this.bus.reportDiagnostic({
+        origin: 'middleware',
+        error: failure.error,
+        event: failure.event,
+        ...(failure.name !== undefined ? { name: failure.name } : {}),
+      });
+    });
+    this.contextManager = new ContextManager({ history: options?.contextHistory }, (error, key) => {
+      this.bus.reportDiagnostic({ origin: 'subscriber', error, name: `context:${key}` });
+    });
+    this.contextFilter = compileContextScope(options?.contextScope);
     this.source = source;
   }
 
@@ -46,33 +115,38 @@ export class DataLayer {
     eventName: string,
     data?: Record<string, unknown>,
     customDimensions?: Record<string, string | number | boolean>,
+    options?: PushOptions,
   ): ODLEvent {
-    const event: ODLEvent = {
-      event: eventName,
-      id: generateUUID(),
-      timestamp: now(),
-      specVersion: '1.0.0',
-      context: this.contextManager.snapshot(),
-      ...(data !== undefined ? { data } : {}),
-      ...(customDimensions !== undefined ? { customDimensions } : {}),
-      ...(this.source !== undefined ? { source: this.source } : {}),
-    };
-
-    // We track whether the final handler was reached so we can return the
-    // event regardless of whether middleware allowed it through.
-    let passed = false;
+    const event = this.createEvent(eventName, data, customDimensions, options);
 
+    // If middleware cancels (never calls next()), the final handler does not
+    // run: we still return the event object (useful for inspection), but it
+    // will not appear in getEvents() / be emitted.
     this.middleware.execute(event, (processedEvent: ODLEvent) => {
-      passed = true;
-      this.events.push(processedEvent);
-      this.bus.emit(processedEvent);
+      this.store(processedEvent);
     });
 
-    // If middleware cancelled, we still return the event object (useful for
-    // inspection), but it will not appear in getEvents() / be emitted.
-    if (!passed) {
-      return event;
-    }
+    return event;
+  }
+
+  /**
+   * Asynchronous variant of {@link push} that awaits asynchronous middleware.
+   *
+   * The returned promise resolves once the event has been stored and emitted,
+   * or once a middleware has cancelled it. As with `push`, a cancelled event
+   * is returned but never stored or emitted.
+   */
+  async pushAsync(
+    eventName: string,
+    data?: Record<string, unknown>,
+    customDimensions?: Record<string, string | number | boolean>,
+    options?: PushOptions,
+  ): Promise<ODLEvent> {
+    const event = this.createEvent(eventName, data, customDimensions, options);
+
+    await this.middleware.executeAsync(event, (processedEvent: ODLEvent) => {
+      this.store(processedEvent);
+    });
 
     return event;
   }
@@ -84,10 +158,53 @@ export class DataLayer {
   /**
    * Subscribe to events matching a pattern.
    *
+   * Pass `{ replay: true }` (or a number) to first receive matching events
+   * that are already stored.
+   *
+   * @returns An unsubscribe function.
+   */
+  on(
+    pattern: EventPattern,
+    handler: (event: ODLEvent) => void,
+    options?: SubscribeOptions,
+  ): () => void {
+    return this.bus.on(pattern, handler, options);
+  }
+
+  /**
+   * Subscribe to the first event matching a pattern only.
+   *
+   * @returns An unsubscribe function.
+   */
+  once(
+    pattern: EventPattern,
+    handler: (event: ODLEvent) => void,
+    options?: SubscribeOptions,
+  ): () => void {
+    return this.bus.once(pattern, handler, options);
+  }
+
+  /**
+   * Resolve with the next event matching a pattern.
+   */
+  waitFor(pattern: EventPattern, options?: WaitForOptions): Promise<ODLEvent> {
+    return this.bus.waitFor(pattern, options);
+  }
+
+  /**
+   * Subscribe to diagnostics (middleware, subscriber and plugin failures).
+   *
    * @returns An unsubscribe function.
    */
-  on(pattern: string, handler: (event: ODLEvent) => void): () => void {
-    return this.bus.on(pattern, handler);
+  onDiagnostic(handler: (diagnostic: ODLDiagnostic) => void): () => void {
+    return this.bus.onDiagnostic(handler);
+  }
+
+  /**
+   * Report a failure on the diagnostic channel.
+   */
+  reportDiagnostic(diagnostic: ODLDiagnostic): void {
+    this.bus.reportDiagnostic(diagnostic);
   }
 
   // --------------------------------------------------------------------------
@@ -95,10 +212,28 @@ export class DataLayer {
   // --------------------------------------------------------------------------
 
   /**
-   * Append a middleware function to the pipeline.
+   * Add a middleware function to the pipeline.
+   *
+   * Without options the middleware is appended to the `"transform"` stage.
    */
-  use(fn: MiddlewareFn): void {
-    this.middleware.use(fn);
+  use(fn: MiddlewareFn, options?: MiddlewareOptions): void {
+    this.middleware.use(fn, options);
+  }
+
+  /**
+   * Remove the middleware registered under `name`.
+   *
+   * @returns `true` if a middleware was removed.
+   */
+  removeMiddleware(name: string): boolean {
+    return this.middleware.remove(name);
+  }
+
+  /**
+   * Describe the registered middleware in execution order.
+   */
+  listMiddleware(): MiddlewareInfo[] {
+    return this.middleware.list();
   }
 
   // --------------------------------------------------------------------------
@@ -109,12 +244,50 @@ export class DataLayer {
     return this.contextManager.get();
   }
 
-  setContext(key: string, value: unknown): void {
-    this.contextManager.set(key, value);
+  setContext(key: string, value: unknown, options?: ContextSetOptions): void {
+    this.contextManager.set(key, value, options);
+  }
+
+  updateContext(key: string, partial: Record<string, unknown>, options?: ContextSetOptions): void {
+    this.contextManager.update(key, partial, options);
+  }
+
+  /**
+   * Compute the context `key` lazily, once per event.
+   *
+   * @returns A function that unregisters the provider.
+   */
+  provideContext(key: string, provider: ContextProvider): () => void {
+    return this.contextManager.provide(key, provider);
+  }
+
+  /**
+   * Subscribe to changes of the context `key`, or of every key with `"*"`.
+   *
+   * @returns An unsubscribe function.
+   */
+  onContextChange(key: string, handler: (change: ContextChange) => void): () => void {
+    return this.contextManager.onChange((change) => {
+      if (key === '*' || change.key === key) {
+        handler(change);
+      }
+    });
+  }
+
+  /**
+   * Return the recorded context changes, oldest first. Empty unless the
+   * `contextHistory` option is set.
+   */
+  getContextHistory(): readonly ContextHistoryEntry[] {
+    return this.contextManager.history();
   }
 
-  updateContext(key: string, partial: Record<string, unknown>): void {
-    this.contextManager.update(key, partial);
+  /**
+   * Return the context as it was at `timestamp`, e.g. an earlier event's
+   * `timestamp`, or `undefined` if the history does not reach back that far.
+   */
+  getContextAt(timestamp: string | Date): Record<string, unknown> | undefined {
+    return this.contextManager.at(timestamp);
   }
 
   // --------------------------------------------------------------------------
@@ -122,17 +295,19 @@ export class DataLayer {
   // --------------------------------------------------------------------------
 
   /**
-   * Return an immutable view of all stored events.
+   * Return an immutable view of the retained events, oldest first.
    */
   getEvents(): readonly ODLEvent[] {
-    return this.events;
+    return this.events.all();
   }
 
   /**
-   * Return the most recently stored event, or `undefined` if none exist.
+   * Return the most recently stored event, or `undefined` if none are
+   * retained.
    */
   getLastEvent(): ODLEvent | undefined {
-    return this.events[this.events.length - 1];
+    const events = this.events.all();
+    return events[events.length - 1];
   }
 
   // --------------------------------------------------------------------------
@@ -143,7 +318,45 @@ export class DataLayer {
    * Clear all stored events and reset context.
    */
   reset(): void {
-    this.events = [];
+    this.events.clear();
     this.contextManager.reset();
   }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Build the event envelope (id, timestamp, specVersion "1.0.0") and attach
+   * a snapshot of the context keys in scope for the event.
+   */
+  private createEvent(
+    eventName: string,
+    data?: Record<string, unknown>,
+    customDimensions?: Record<string, string | number | boolean>,
+    options?: PushOptions,
+  ): ODLEvent {
+    const event: ODLEvent = {
+      event: eventName,
+      id: generateUUID(),
+      timestamp: options?.timestamp ?? now(),
+      specVersion: '1.0.0',
+      context: {},
+      ...(data !== undefined ? { data } : {}),
+      ...(customDimensions !== undefined ? { customDimensions } : {}),
+      ...(this.source !== undefined ? { source: this.source } : {}),
+    };
+    event.context = this.contextManager.snapshot((key) =>
+      this.contextFilter(key, event, options?.context),
+    );
+    return event;
+  }
+
+  /**
+   * Store a processed event (subject to retention) and emit it on the bus.
+   */
+  private store(event: ODLEvent): void {
+    this.events.add(event);
+    this.bus.emit(event);
+  }
 }
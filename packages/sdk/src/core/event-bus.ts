@@ -1,109 +1,450 @@
+import type { ODLRuntimeEvent } from '@opendatalayer/types';
+import { compilePattern, patternShape } from './pattern.js';
+import type { EventMatcher, EventPattern } from './pattern.js';
+
+/**
+ * Represents a single event flowing through the OpenDataLayer. Shared with
+ * adapters and test helpers through `@opendatalayer/types`.
+ */
+export type ODLEvent = ODLRuntimeEvent;
+
 /**
- * Represents a single event flowing through the OpenDataLayer.
+ * A failure reported on the bus's diagnostic (`odl.error`) channel.
+ *
+ * Diagnostics are delivered separately from events so that subscribers
+ * forwarding events to vendors never receive them by accident.
  */
-export interface ODLEvent {
-  /** Dot-namespaced event name, e.g. "ecommerce.purchase" */
-  event: string;
-  /** Unique identifier (UUID v4) */
-  id: string;
-  /** ISO 8601 timestamp */
-  timestamp: string;
-  /** ODL specification version */
-  specVersion: string;
-  /** Ambient context snapshot at the time the event was created */
-  context?: Record<string, unknown>;
-  /** Event-specific payload */
-  data?: Record<string, unknown>;
-  /** Flat key/value custom dimensions for analytics tools */
-  customDimensions?: Record<string, string | number | boolean>;
-  /** Information about the source that created the event */
-  source?: { name: string; version: string };
+export interface ODLDiagnostic {
+  /** The component that failed. */
+  origin: 'middleware' | 'subscriber' | 'plugin' | 'storage';
+  /** The thrown value. */
+  error: unknown;
+  /** The event being processed when the failure happened, if any. */
+  event?: ODLEvent;
+  /** Middleware name, subscription pattern, plugin name or callback name, when known. */
+  name?: string;
+}
+
+/**
+ * Options for {@link EventBus.on}.
+ */
+export interface SubscribeOptions {
+  /**
+   * Replay matching events that were emitted before the subscription
+   * (transport spec §3.2.3), in their original order, before live delivery
+   * starts. `true` replays every stored match; a number replays only the most
+   * recent N matches. Requires the bus to have a history source.
+   */
+  replay?: boolean | number;
+}
+
+/**
+ * Options for {@link EventBus.waitFor}.
+ */
+export interface WaitForOptions {
+  /**
+   * Reject if no matching event arrives within this many milliseconds.
+   * Omit (or pass `0`) to wait indefinitely.
+   */
+  timeout?: number;
+  /** Additional condition the event must satisfy to resolve the promise. */
+  predicate?: (event: ODLEvent) => boolean;
 }
 
 type EventHandler = (event: ODLEvent) => void;
+type DiagnosticHandler = (diagnostic: ODLDiagnostic) => void;
+
+interface Subscription {
+  pattern: EventPattern;
+  /** Matcher compiled once from the subscription pattern. */
+  matches: EventMatcher;
+  /**
+   * True when the index lookup alone guarantees a match (exact names and the
+   * universal wildcard), so the matcher can be skipped.
+   */
+  certain: boolean;
+  handlers: Set<EventHandler>;
+  /** Creation order, used to deliver in subscription registration order. */
+  seq: number;
+}
+
+/** Upper bound on the number of event names in the dispatch cache. */
+const MAX_CACHED_NAMES = 1000;
+
+/**
+ * Merge a bucket of subscriptions (in registration order) into an already
+ * ordered candidate list, keeping registration order overall.
+ */
+function mergeBySeq(ordered: Subscription[], bucket: Set<Subscription>): Subscription[] {
+  const merged: Subscription[] = [];
+  let i = 0;
+  for (const subscription of bucket) {
+    while (i < ordered.length && (ordered[i] as Subscription).seq < subscription.seq) {
+      merged.push(ordered[i] as Subscription);
+      i++;
+    }
+    merged.push(subscription);
+  }
+  while (i < ordered.length) {
+    merged.push(ordered[i] as Subscription);
+    i++;
+  }
+  return merged;
+}
+
+/** A node in the prefix trie, keyed by literal name segments. */
+interface PrefixNode {
+  children: Map<string, PrefixNode>;
+  subscriptions: Set<Subscription>;
+}
 
 /**
- * A typed event bus supporting wildcard pattern subscriptions.
+ * A typed event bus supporting glob, negated, alternation and predicate
+ * subscriptions.
  *
- * Patterns:
+ * Patterns (see {@link compilePattern} for the full grammar):
  * - `"*"` matches every event.
- * - `"category.*"` matches any event whose name starts with `"category."`.
+ * - `"category.*"` matches any single action within `category`.
+ * - `"**"` inside a pattern matches one or more segments.
+ * - `"{page,ecommerce}.*"` matches either category.
+ * - `"!ecommerce.refund"` matches every event except `ecommerce.refund`.
+ * - A function `(event) => boolean` is used as a predicate.
  * - An exact string matches only that event name.
+ *
+ * Subscriptions are indexed so that `emit` only looks at candidates that can
+ * match: exact names live in a map, patterns with a literal leading segment
+ * (`"ecommerce.*"`) in a prefix trie, and everything else (universal
+ * wildcards, negations, predicates) in a wildcard list. The resulting
+ * candidate list is cached per event name until subscriptions change.
  */
 export class EventBus {
-  private handlers: Map<string, Set<EventHandler>> = new Map();
+  private subscriptions: Map<EventPattern, Subscription> = new Map();
+  private exact: Map<string, Set<Subscription>> = new Map();
+  private prefixes: PrefixNode = { children: new Map(), subscriptions: new Set() };
+  private wildcards: Set<Subscription> = new Set();
+  /** Candidate lists per event name; cleared whenever the index changes. */
+  private dispatchCache: Map<string, Subscription[]> = new Map();
+  private seq = 0;
+  private diagnosticHandlers: Set<DiagnosticHandler> = new Set();
+  private history?: () => readonly ODLEvent[];
+
+  /**
+   * @param history - Returns previously emitted events, oldest first. Used to
+   *   serve `replay` subscriptions; without it nothing is replayed.
+   */
+  constructor(history?: () => readonly ODLEvent[]) {
+    this.history = history;
+  }
 
   /**
    * Subscribe to events matching `pattern`.
    *
+   * With `options.replay`, matching historical events are delivered
+   * synchronously before `on` returns.
+   *
    * @returns An unsubscribe function.
    */
-  on(pattern: string, handler: EventHandler): () => void {
-    let set = this.handlers.get(pattern);
-    if (!set) {
-      set = new Set();
-      this.handlers.set(pattern, set);
+  on(pattern: EventPattern, handler: EventHandler, options?: SubscribeOptions): () => void {
+    let subscription = this.subscriptions.get(pattern);
+    if (!subscription) {
+      subscription = this.subscribe(pattern);
+    }
+
+    const replay = options?.replay ? this.replayable(subscription.matches, options.replay) : [];
+    subscription.handlers.add(handler);
+
+    for (const event of replay) {
+      // Stop replaying if the handler unsubscribed itself.
+      if (!this.subscriptions.get(pattern)?.handlers.has(handler)) break;
+      this.deliver(pattern, handler, event);
     }
-    set.add(handler);
 
     return () => {
       this.off(pattern, handler);
     };
   }
 
+  /**
+   * Subscribe to the first event matching `pattern` only. The handler is
+   * unsubscribed before it is called.
+   *
+   * @returns An unsubscribe function, for cancelling before a match arrives.
+   */
+  once(pattern: EventPattern, handler: EventHandler, options?: SubscribeOptions): () => void {
+    const wrapper: EventHandler = (event) => {
+      this.off(pattern, wrapper);
+      handler(event);
+    };
+    return this.on(pattern, wrapper, options);
+  }
+
+  /**
+   * Wait for the next event matching `pattern` (and `options.predicate`, if
+   * given).
+   *
+   * The subscription and timer are released as soon as the promise settles.
+   * The promise rejects if the timeout elapses or the predicate throws.
+   */
+  waitFor(pattern: EventPattern, options?: WaitForOptions): Promise<ODLEvent> {
+    return new Promise<ODLEvent>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const handler: EventHandler = (event) => {
+        let accepted: boolean;
+        try {
+          accepted = options?.predicate ? options.predicate(event) : true;
+        } catch (error) {
+          settle();
+          reject(error);
+          return;
+        }
+        if (accepted) {
+          settle();
+          resolve(event);
+        }
+      };
+
+      const unsubscribe = this.on(pattern, handler);
+      const settle = (): void => {
+        unsubscribe();
+        if (timer !== undefined) clearTimeout(timer);
+      };
+
+      const timeout = options?.timeout ?? 0;
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          unsubscribe();
+          const label = typeof pattern === 'string' ? `"${pattern}"` : 'predicate';
+          reject(new Error(`Timed out after ${timeout}ms waiting for ${label}`));
+        }, timeout);
+      }
+    });
+  }
+
   /**
    * Remove a previously registered handler for `pattern`.
    */
-  off(pattern: string, handler: EventHandler): void {
-    const set = this.handlers.get(pattern);
-    if (set) {
-      set.delete(handler);
-      if (set.size === 0) {
-        this.handlers.delete(pattern);
+  off(pattern: EventPattern, handler: EventHandler): void {
+    const subscription = this.subscriptions.get(pattern);
+    if (subscription) {
+      subscription.handlers.delete(handler);
+      if (subscription.handlers.size === 0) {
+        this.unsubscribe(subscription);
       }
     }
   }
 
   /**
-   * Emit an event. All handlers whose pattern matches the event name will be
+   * Emit an event. All handlers whose pattern matches the event will be
    * called synchronously in registration order.
    */
   emit(event: ODLEvent): void {
-    for (const [pattern, handlers] of this.handlers) {
-      if (this.matchPattern(pattern, event.event)) {
-        for (const handler of handlers) {
-          try {
-            handler(event);
-          } catch {
-            // Swallow handler errors so one broken subscriber cannot
-            // prevent others from receiving the event.
-          }
+    for (const subscription of this.candidates(event.event)) {
+      if (
+        subscription.certain ||
+        this.safeMatch(subscription.pattern, subscription.matches, event)
+      ) {
+        for (const handler of subscription.handlers) {
+          this.deliver(subscription.pattern, handler, event);
         }
       }
     }
   }
 
+  /**
+   * Subscribe to the diagnostic channel.
+   *
+   * @returns An unsubscribe function.
+   */
+  onDiagnostic(handler: DiagnosticHandler): () => void {
+    this.diagnosticHandlers.add(handler);
+    return () => {
+      this.diagnosticHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Deliver a diagnostic to every diagnostic handler. Errors thrown by the
+   * handlers themselves are swallowed.
+   */
+  reportDiagnostic(diagnostic: ODLDiagnostic): void {
+    for (const handler of this.diagnosticHandlers) {
+      try {
+        handler(diagnostic);
+      } catch {
+        // Nowhere left to report to.
+      }
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Private helpers
   // -----------------------------------------------------------------------
 
   /**
-   * Determine whether `eventName` matches the given subscription `pattern`.
-   *
-   * - `"*"` matches everything.
-   * - `"foo.*"` matches any event name starting with `"foo."`.
-   * - Otherwise an exact equality check is used.
+   * Create a subscription for `pattern` and add it to the dispatch index.
    */
-  private matchPattern(pattern: string, eventName: string): boolean {
-    if (pattern === '*') {
-      return true;
+  private subscribe(pattern: EventPattern): Subscription {
+    const shape = patternShape(pattern);
+    const subscription: Subscription = {
+      pattern,
+      matches: compilePattern(pattern),
+      certain: shape.kind === 'exact' || shape.kind === 'universal',
+      handlers: new Set(),
+      seq: this.seq++,
+    };
+    this.subscriptions.set(pattern, subscription);
+    this.dispatchCache.clear();
+
+    if (shape.kind === 'exact') {
+      let bucket = this.exact.get(shape.name);
+      if (!bucket) {
+        bucket = new Set();
+        this.exact.set(shape.name, bucket);
+      }
+      bucket.add(subscription);
+    } else if (shape.kind === 'prefix') {
+      let node = this.prefixes;
+      for (const segment of shape.segments) {
+        let child = node.children.get(segment);
+        if (!child) {
+          child = { children: new Map(), subscriptions: new Set() };
+          node.children.set(segment, child);
+        }
+        node = child;
+      }
+      node.subscriptions.add(subscription);
+    } else {
+      this.wildcards.add(subscription);
     }
 
-    if (pattern.endsWith('.*')) {
-      const prefix = pattern.slice(0, -1); // e.g. "ecommerce."
-      return eventName.startsWith(prefix);
+    return subscription;
+  }
+
+  /**
+   * Remove a subscription from the dispatch index.
+   */
+  private unsubscribe(subscription: Subscription): void {
+    const { pattern } = subscription;
+    this.subscriptions.delete(pattern);
+    this.dispatchCache.clear();
+
+    const shape = patternShape(pattern);
+    if (shape.kind === 'exact') {
+      const bucket = this.exact.get(shape.name);
+      bucket?.delete(subscription);
+      if (bucket?.size === 0) {
+        this.exact.delete(shape.name);
+      }
+    } else if (shape.kind === 'prefix') {
+      // Walk down, then prune nodes left empty on the way back up.
+      const path: PrefixNode[] = [this.prefixes];
+      for (const segment of shape.segments) {
+        const child = path[path.length - 1]?.children.get(segment);
+        if (!child) return;
+        path.push(child);
+      }
+      path[path.length - 1]?.subscriptions.delete(subscription);
+      for (let i = shape.segments.length; i > 0; i--) {
+        const node = path[i] as PrefixNode;
+        if (node.subscriptions.size > 0 || node.children.size > 0) break;
+        path[i - 1]?.children.delete(shape.segments[i - 1] as string);
+      }
+    } else {
+      this.wildcards.delete(subscription);
     }
+  }
 
-    return pattern === eventName;
+  /**
+   * Look up the subscriptions that may match `eventName`, in registration
+   * order.
+   */
+  private candidates(eventName: string): Subscription[] {
+    const cached = this.dispatchCache.get(eventName);
+    if (cached) {
+      return cached;
+    }
+
+    let found: Subscription[] = [];
+
+    const exact = this.exact.get(eventName);
+    if (exact) {
+      found = mergeBySeq(found, exact);
+    }
+
+    let node: PrefixNode | undefined = this.prefixes;
+    let start = 0;
+    while (node && node.children.size > 0) {
+      const end = eventName.indexOf('.', start);
+      node = node.children.get(end === -1 ? eventName.slice(start) : eventName.slice(start, end));
+      if (node && node.subscriptions.size > 0) {
+        found = mergeBySeq(found, node.subscriptions);
+      }
+      if (end === -1) break;
+      start = end + 1;
+    }
+
+    if (this.wildcards.size > 0) {
+      found = mergeBySeq(found, this.wildcards);
+    }
+
+    // Event names are usually a small, fixed vocabulary; guard against
+    // unbounded growth when they are not.
+    if (this.dispatchCache.size >= MAX_CACHED_NAMES) {
+      this.dispatchCache.clear();
+    }
+    this.dispatchCache.set(eventName, found);
+    return found;
+  }
+
+  /**
+   * Invoke a single handler, isolating its errors so one broken subscriber
+   * cannot prevent others from receiving the event.
+   */
+  private deliver(pattern: EventPattern, handler: EventHandler, event: ODLEvent): void {
+    try {
+      handler(event);
+    } catch (error) {
+      this.reportDiagnostic({
+        origin: 'subscriber',
+        error,
+        event,
+        ...(typeof pattern === 'string' ? { name: pattern } : {}),
+      });
+    }
+  }
+
+  /**
+   * Run a matcher, treating a throwing predicate as a non-match.
+   */
+  private safeMatch(pattern: EventPattern, matches: EventMatcher, event: ODLEvent): boolean {
+    try {
+      return matches(event);
+    } catch (error) {
+      this.reportDiagnostic({
+        origin: 'subscriber',
+        error,
+        event,
+        ...(typeof pattern === 'string' ? { name: pattern } : {}),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Collect the historical events a replay subscription should receive.
+   */
+  private replayable(matches: EventMatcher, replay: true | number): ODLEvent[] {
+    const matching = (this.history?.() ?? []).filter((event) => {
+      try {
+        return matches(event);
+      } catch {
+        return false;
+      }
+    });
+    if (replay === true) {
+      return matching;
+    }
+    return replay > 0 ? matching.slice(-replay) : [];
   }
 }
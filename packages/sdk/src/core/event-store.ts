@@ -0,0 +1,163 @@
+import type { ODLEvent } from './event-bus.js';
+
+/**
+ * The limit that caused events to be evicted from the store.
+ */
+export type EvictionReason = 'maxEvents' | 'maxAge' | 'maxBytes';
+
+/**
+ * Limits on the events kept in memory for {@link DataLayer.getEvents} and
+ * `replay` subscriptions. Limits combine: an event is evicted as soon as it
+ * breaks any of them, oldest first. Without limits every event is kept.
+ */
+export interface RetentionOptions {
+  /** Keep at most this many events. */
+  maxEvents?: number;
+  /** Evict events stored more than this many milliseconds ago. */
+  maxAge?: number;
+  /**
+   * Keep the estimated size of the stored events (their JSON length) below
+   * this many bytes.
+   */
+  maxBytes?: number;
+  /**
+   * Called with each batch of evicted events, oldest first. Not called by
+   * `reset()`.
+   */
+  onEvict?: (events: ODLEvent[], reason: EvictionReason) => void;
+}
+
+/**
+ * Estimate the in-memory footprint of an event from its JSON length.
+ * Events that cannot be serialised count as zero bytes.
+ */
+function estimateBytes(event: ODLEvent): number {
+  try {
+    return JSON.stringify(event).length;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Holds processed events, oldest first, and enforces the retention policy.
+ *
+ * With retention set to `false` nothing is stored at all: events are still
+ * emitted, but `all()` is always empty.
+ */
+export class EventStore {
+  private events: ODLEvent[] = [];
+  /** Storage time (ms since epoch) per event, parallel to `events`. */
+  private storedAt: number[] = [];
+  /** Estimated size per event, parallel to `events`. Only tracked with `maxBytes`. */
+  private sizes: number[] = [];
+  private bytes = 0;
+  private retention: RetentionOptions | false;
+  private reportError?: (error: unknown) => void;
+
+  /**
+   * @param retention - Retention limits, or `false` to disable storage.
+   * @param reportError - Called when the `onEvict` callback throws.
+   */
+  constructor(retention: RetentionOptions | false = {}, reportError?: (error: unknown) => void) {
+    this.retention = retention === false ? false : { ...retention };
+    this.reportError = reportError;
+  }
+
+  /**
+   * Store an event, evicting older ones as required by the retention limits.
+   */
+  add(event: ODLEvent): void {
+    if (this.retention === false) {
+      return;
+    }
+
+    const { maxEvents, maxBytes } = this.retention;
+    this.events.push(event);
+    this.storedAt.push(Date.now());
+    if (maxBytes !== undefined) {
+      const size = estimateBytes(event);
+      this.sizes.push(size);
+      this.bytes += size;
+    }
+
+    this.expire();
+
+    if (maxEvents !== undefined && this.events.length > maxEvents) {
+      this.evict(this.events.length - Math.max(maxEvents, 0), 'maxEvents');
+    }
+
+    if (maxBytes !== undefined && this.bytes > maxBytes) {
+      let count = 0;
+      let bytes = this.bytes;
+      while (count < this.events.length && bytes > maxBytes) {
+        bytes -= this.sizes[count] as number;
+        count++;
+      }
+      this.evict(count, 'maxBytes');
+    }
+  }
+
+  /**
+   * Return the retained events, oldest first, after evicting expired ones.
+   */
+  all(): readonly ODLEvent[] {
+    this.expire();
+    return this.events;
+  }
+
+  /**
+   * Drop every stored event without calling `onEvict`.
+   */
+  clear(): void {
+    this.events = [];
+    this.storedAt = [];
+    this.sizes = [];
+    this.bytes = 0;
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Evict events that have outlived `maxAge`.
+   */
+  private expire(): void {
+    const maxAge = this.retention === false ? undefined : this.retention.maxAge;
+    if (maxAge === undefined) {
+      return;
+    }
+
+    const cutoff = Date.now() - maxAge;
+    let count = 0;
+    while (count < this.storedAt.length && (this.storedAt[count] as number) < cutoff) {
+      count++;
+    }
+    this.evict(count, 'maxAge');
+  }
+
+  /**
+   * Remove the `count` oldest events and hand them to `onEvict`.
+   */
+  private evict(count: number, reason: EvictionReason): void {
+    if (count <= 0) {
+      return;
+    }
+
+    const evicted = this.events.splice(0, count);
+    this.storedAt.splice(0, count);
+    for (const size of this.sizes.splice(0, count)) {
+      this.bytes -= size;
+    }
+
+    const onEvict = this.retention === false ? undefined : this.retention.onEvict;
+    if (onEvict) {
+      try {
+        onEvict(evicted, reason);
+      } catch (error) {
+        this.reportError?.(error);
+      }
+    }
+  }
+}
@@ -1,28 +1,202 @@
 import type { ODLEvent } from './event-bus.js';
 
+/**
+ * The `next` callback handed to each middleware.
+ *
+ * In a synchronous run it returns nothing. In an asynchronous run
+ * ({@link MiddlewarePipeline.executeAsync}) it returns a promise that resolves
+ * once every downstream middleware and the final handler have completed.
+ */
+export type MiddlewareNext = () => void | Promise<void>;
+
 /**
  * A middleware function receives the current event and a `next` callback.
  *
  * - Call `next()` to pass control to the next middleware (or final handler).
  * - Omit the `next()` call to **cancel** the event (stop the chain).
  * - Mutate `event` in-place to transform it before downstream processing.
+ * - Return a promise to perform asynchronous work before calling `next()`.
+ *   Asynchronous middleware is only awaited by
+ *   {@link MiddlewarePipeline.executeAsync}.
+ */
+export type MiddlewareFn = (event: ODLEvent, next: MiddlewareNext) => void | Promise<void>;
+
+/**
+ * What to do with an event when a middleware exceeds its timeout.
+ *
+ * - `"continue"` — fail open: skip the slow middleware and pass the event on.
+ * - `"cancel"` — fail closed: stop the chain as if `next()` was never called.
+ */
+export type MiddlewareTimeoutPolicy = 'continue' | 'cancel';
+
+/**
+ * Options controlling how asynchronous middleware is awaited.
+ */
+export interface MiddlewareTimeoutOptions {
+  /**
+   * Maximum time in milliseconds a middleware may take before calling `next()`
+   * or settling. Only applies to {@link MiddlewarePipeline.executeAsync}.
+   * Omit (or pass `0`) to wait indefinitely.
+   */
+  timeout?: number;
+  /** Behaviour when the timeout elapses (default: `"continue"`). */
+  onTimeout?: MiddlewareTimeoutPolicy;
+}
+
+/**
+ * What to do with an event when a middleware throws (or rejects).
+ *
+ * - `"continue"` — skip the failing middleware and pass the event on.
+ * - `"cancel"` — drop the event.
+ * - `"rethrow"` — propagate the error to the caller of `push` / `pushAsync`.
  */
-export type MiddlewareFn = (event: ODLEvent, next: () => void) => void;
+export type MiddlewareErrorPolicy = 'continue' | 'cancel' | 'rethrow';
+
+/**
+ * Pipeline-wide defaults. Individual middleware can override the timeout
+ * settings when registered via {@link MiddlewarePipeline.use}.
+ */
+export interface MiddlewarePipelineOptions extends MiddlewareTimeoutOptions {
+  /** Behaviour when a middleware throws (default: `"continue"`). */
+  onError?: MiddlewareErrorPolicy;
+}
+
+/**
+ * Details of a middleware failure, passed to the pipeline's error reporter.
+ */
+export interface MiddlewareFailure {
+  error: unknown;
+  event: ODLEvent;
+  /** Name of the failing middleware, if it was registered with one. */
+  name?: string;
+  stage: MiddlewareStage;
+  /** The policy that was applied to the event. */
+  policy: MiddlewareErrorPolicy;
+}
+
+/**
+ * Processing stages from the transport spec (§4.1), in execution order.
+ */
+const STAGES = ['validate', 'enrich', 'transform', 'route'] as const;
+
+/**
+ * A pipeline stage: `"validate"` → `"enrich"` → `"transform"` → `"route"`.
+ */
+export type MiddlewareStage = (typeof STAGES)[number];
+
+/**
+ * Per-middleware registration options.
+ */
+export interface MiddlewareOptions extends MiddlewareTimeoutOptions {
+  /** Unique name used to remove or inspect the middleware later. */
+  name?: string;
+  /** Stage the middleware belongs to (default: `"transform"`). */
+  stage?: MiddlewareStage;
+  /**
+   * Ordering within the stage. Higher priorities run first; middleware with
+   * equal priority run in registration order (default: `0`).
+   */
+  priority?: number;
+}
+
+/**
+ * Description of a registered middleware, as returned by
+ * {@link MiddlewarePipeline.list}.
+ */
+export interface MiddlewareInfo {
+  name?: string;
+  stage: MiddlewareStage;
+  priority: number;
+}
+
+interface MiddlewareEntry {
+  fn: MiddlewareFn;
+  options: MiddlewareOptions;
+  stage: MiddlewareStage;
+  priority: number;
+  /** Registration sequence number, used as the final ordering tie-breaker. */
+  seq: number;
+}
 
 /**
  * Executes an ordered list of middleware functions as a pipeline.
  *
  * Each middleware can inspect/modify the event and decide whether to
  * continue the chain by calling `next()`.
+ *
+ * Middleware is ordered by stage (validate → enrich → transform → route),
+ * then by descending priority, then by registration order, so middleware
+ * registered by independent plugins composes deterministically.
  */
 export class MiddlewarePipeline {
-  private middlewares: MiddlewareFn[] = [];
+  private middlewares: MiddlewareEntry[] = [];
+  private defaults: MiddlewarePipelineOptions;
+  private seq = 0;
+  private reportError?: (failure: MiddlewareFailure) => void;
 
   /**
-   * Append a middleware to the pipeline.
+   * @param options - Pipeline-wide defaults.
+   * @param reportError - Called for every middleware failure, whatever the
+   *   error policy, so failures can be surfaced without crashing the caller.
    */
-  use(fn: MiddlewareFn): void {
-    this.middlewares.push(fn);
+  constructor(
+    options?: MiddlewarePipelineOptions,
+    reportError?: (failure: MiddlewareFailure) => void,
+  ) {
+    this.defaults = { ...options };
+    this.reportError = reportError;
+  }
+
+  /**
+   * Add a middleware to the pipeline at the position given by its stage and
+   * priority.
+   *
+   * @throws If a middleware with the same `name` is already registered.
+   */
+  use(fn: MiddlewareFn, options?: MiddlewareOptions): void {
+    const name = options?.name;
+    if (name !== undefined && this.middlewares.some((entry) => entry.options.name === name)) {
+      throw new Error(`Middleware "${name}" is already registered`);
+    }
+
+    this.middlewares.push({
+      fn,
+      options: { ...options },
+      stage: options?.stage ?? 'transform',
+      priority: options?.priority ?? 0,
+      seq: this.seq++,
+    });
+    this.middlewares.sort(
+      (a, b) =>
+        STAGES.indexOf(a.stage) - STAGES.indexOf(b.stage) ||
+        b.priority - a.priority ||
+        a.seq - b.seq,
+    );
+  }
+
+  /**
+   * Remove the middleware registered under `name`.
+   *
+   * @returns `true` if a middleware was removed.
+   */
+  remove(name: string): boolean {
+    const index = this.middlewares.findIndex((entry) => entry.options.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.middlewares.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Describe the registered middleware in execution order.
+   */
+  list(): MiddlewareInfo[] {
+    return this.middlewares.map((entry) => ({
+      ...(entry.options.name !== undefined ? { name: entry.options.name } : {}),
+      stage: entry.stage,
+      priority: entry.priority,
+    }));
   }
 
   /**
@@ -32,21 +206,192 @@ export class MiddlewarePipeline {
    * is invoked with the (potentially modified) event. If any middleware does
    * **not** call `next()`, neither subsequent middlewares nor the final
    * handler will execute.
+   *
+   * A middleware that throws is reported and handled according to the
+   * pipeline's `onError` policy.
+   *
+   * Promises returned by middleware are not awaited: a middleware that calls
+   * `next()` asynchronously will reach the final handler after `execute`
+   * has returned. Use {@link executeAsync} when asynchronous middleware is
+   * registered.
    */
   execute(event: ODLEvent, finalHandler: (event: ODLEvent) => void): void {
-    const fns = this.middlewares;
-    let index = 0;
-
-    const next = (): void => {
-      if (index < fns.length) {
-        const fn = fns[index];
-        index++;
-        if (fn) fn(event, next);
-      } else {
+    const entries = [...this.middlewares];
+    const reported = new Set<unknown>();
+
+    const run = (index: number): void => {
+      const entry = entries[index];
+      if (!entry) {
         finalHandler(event);
+        return;
+      }
+
+      let called = false;
+      const next = (): void => {
+        if (called) return;
+        called = true;
+        run(index + 1);
+      };
+
+      try {
+        const result = entry.fn(event, next);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => {
+            // Too late to rethrow into the caller; report and apply the
+            // policy as far as it still can be.
+            if (reported.has(error)) return;
+            if (this.fail(error, entry, event, reported, false) === 'continue') next();
+          });
+        }
+      } catch (error) {
+        // Errors from downstream middleware have already been handled at
+        // their own level and only reach us when they are being rethrown.
+        if (reported.has(error)) throw error;
+        if (this.fail(error, entry, event, reported, true) === 'continue') next();
+      }
+    };
+
+    run(0);
+  }
+
+  /**
+   * Run the pipeline for a given event, awaiting asynchronous middleware.
+   *
+   * Each middleware is given until its timeout to call `next()` or settle.
+   * When the timeout elapses the configured `onTimeout` policy decides whether
+   * the event continues down the chain or is cancelled; a late `next()` call
+   * from the timed-out middleware is then ignored.
+   *
+   * A middleware that throws or rejects is reported and handled according
+   * to the pipeline's `onError` policy; with `"rethrow"` the returned promise
+   * rejects.
+   *
+   * @returns `true` if the final handler was reached, `false` if the event
+   *   was cancelled.
+   */
+  async executeAsync(
+    event: ODLEvent,
+    finalHandler: (event: ODLEvent) => void | Promise<void>,
+  ): Promise<boolean> {
+    const entries = [...this.middlewares];
+    const reported = new Set<unknown>();
+    let passed = false;
+
+    const run = async (index: number): Promise<void> => {
+      const entry = entries[index];
+      if (!entry) {
+        passed = true;
+        await finalHandler(event);
+        return;
+      }
+
+      const timeout = entry.options.timeout ?? this.defaults.timeout ?? 0;
+      const onTimeout = entry.options.onTimeout ?? this.defaults.onTimeout ?? 'continue';
+
+      let downstream: Promise<void> | undefined;
+      let closed = false;
+      let signalNext: () => void = () => {};
+      const nextCalled = new Promise<void>((resolve) => {
+        signalNext = resolve;
+      });
+
+      const next = (): Promise<void> => {
+        if (closed) return Promise.resolve();
+        if (!downstream) {
+          downstream = run(index + 1);
+          signalNext();
+        }
+        return downstream;
+      };
+
+      // Run the middleware inside a promise executor so that synchronous
+      // throws surface as rejections.
+      const result = new Promise<void>((resolve) => {
+        resolve(entry.fn(event, next));
+      });
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut =
+        timeout > 0
+          ? new Promise<'timeout'>((resolve) => {
+              timer = setTimeout(() => resolve('timeout'), timeout);
+            })
+          : undefined;
+
+      try {
+        try {
+          const outcome = await Promise.race([
+            result.then(() => 'settled' as const),
+            nextCalled.then(() => 'next' as const),
+            ...(timedOut ? [timedOut] : []),
+          ]);
+
+          if (outcome === 'timeout' && !downstream) {
+            if (onTimeout === 'continue') {
+              next();
+            }
+            closed = true;
+            result.catch(() => {
+              // The middleware was abandoned; its eventual failure is irrelevant.
+            });
+          }
+        } finally {
+          if (timer !== undefined) clearTimeout(timer);
+        }
+
+        if (downstream) {
+          await downstream;
+        }
+        if (!closed) {
+          await result;
+        }
+      } catch (error) {
+        if (reported.has(error)) throw error;
+        const policy = this.fail(error, entry, event, reported, true);
+        if (downstream) {
+          // The event was already handed on before the failure.
+          await downstream;
+        } else if (policy === 'continue') {
+          await next();
+        }
       }
     };
 
-    next();
+    await run(0);
+    return passed;
+  }
+
+  // -----------------------------------------------------------------------
+  // Private helpers
+  // -----------------------------------------------------------------------
+
+  /**
+   * Report a middleware failure and resolve the error policy.
+   *
+   * With the `"rethrow"` policy the error is rethrown when `canThrow` is set;
+   * otherwise the policy degrades to `"cancel"`.
+   */
+  private fail(
+    error: unknown,
+    entry: MiddlewareEntry,
+    event: ODLEvent,
+    reported: Set<unknown>,
+    canThrow: boolean,
+  ): 'continue' | 'cancel' {
+    const policy = this.defaults.onError ?? 'continue';
+    reported.add(error);
+    this.reportError?.({
+      error,
+      event,
+      ...(entry.options.name !== undefined ? { name: entry.options.name } : {}),
+      stage: entry.stage,
+      policy,
+    });
+
+    if (policy === 'rethrow') {
+      if (canThrow) throw error;
+      return 'cancel';
+    }
+    return policy;
   }
 }
@@ -0,0 +1,149 @@
+import type { ODLEvent } from './event-bus.js';
+
+/**
+ * A predicate subscription: receives the full event and decides whether the
+ * handler should be called.
+ */
+export type EventPredicate = (event: ODLEvent) => boolean;
+
+/**
+ * What a subscription matches against: a name pattern or a predicate.
+ */
+export type EventPattern = string | EventPredicate;
+
+/**
+ * A compiled pattern, ready to be tested against events.
+ */
+export type EventMatcher = (event: ODLEvent) => boolean;
+
+/**
+ * How a pattern can be indexed for dispatch:
+ *
+ * - `exact` — matches only `name`.
+ * - `universal` — matches every event.
+ * - `prefix` — can only match names whose leading segments are `segments`.
+ * - `opaque` — must be tested against every event (predicates, negations,
+ *   patterns that start with a glob).
+ */
+export type PatternShape =
+  | { kind: 'exact'; name: string }
+  | { kind: 'universal' }
+  | { kind: 'prefix'; segments: string[] }
+  | { kind: 'opaque' };
+
+/** Characters that introduce glob syntax in a name pattern. */
+const GLOB_SYNTAX = /[*{]/;
+
+/**
+ * Classify a pattern so the event bus can index it.
+ */
+export function patternShape(pattern: EventPattern): PatternShape {
+  if (typeof pattern === 'function' || pattern.startsWith('!')) {
+    return { kind: 'opaque' };
+  }
+  if (pattern === '*' || pattern === '**') {
+    return { kind: 'universal' };
+  }
+  if (!GLOB_SYNTAX.test(pattern)) {
+    return { kind: 'exact', name: pattern };
+  }
+
+  // Collect the literal segments that precede the first glob.
+  const segments: string[] = [];
+  for (const segment of pattern.split('.')) {
+    if (GLOB_SYNTAX.test(segment)) break;
+    segments.push(segment);
+  }
+  return segments.length > 0 ? { kind: 'prefix', segments } : { kind: 'opaque' };
+}
+
+/**
+ * Compile a subscription pattern into a matcher.
+ *
+ * Name patterns use the same glob grammar as `ODLSpy` in
+ * `@opendatalayer/testing`, plus negation and alternation:
+ *
+ * - `"*"` on its own matches every event (transport spec §3.1.3).
+ * - `*` inside a pattern matches exactly one segment: `"ecommerce.*"`.
+ * - `**` matches one or more segments, including dots: `"**.viewed"`.
+ * - `{a,b}` matches any of the comma-separated alternatives:
+ *   `"{page,ecommerce}.*"`.
+ * - A leading `!` negates the rest of the pattern: `"!ecommerce.refund"`.
+ * - Anything else is matched literally.
+ *
+ * Patterns are compiled once, at subscription time, so emitting an event
+ * never re-parses a pattern.
+ */
+export function compilePattern(pattern: EventPattern): EventMatcher {
+  if (typeof pattern === 'function') {
+    return pattern;
+  }
+
+  if (pattern.startsWith('!')) {
+    const inner = compileName(pattern.slice(1));
+    return (event) => !inner(event.event);
+  }
+
+  const match = compileName(pattern);
+  return (event) => match(event.event);
+}
+
+/**
+ * Compile a (non-negated) name pattern into a predicate over event names.
+ */
+function compileName(pattern: string): (eventName: string) => boolean {
+  if (pattern === '*' || pattern === '**') {
+    return () => true;
+  }
+
+  // Fast path: no glob syntax at all means an exact match.
+  if (!GLOB_SYNTAX.test(pattern)) {
+    return (eventName) => eventName === pattern;
+  }
+
+  const regex = new RegExp(`^${toRegexSource(pattern)}$`);
+  return (eventName) => regex.test(eventName);
+}
+
+/**
+ * Translate glob syntax into a regular-expression source string.
+ */
+function toRegexSource(pattern: string): string {
+  let source = '';
+  let depth = 0;
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i] as string;
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**" matches one or more segments
+        source += '.+';
+        i += 2;
+      } else {
+        // "*" matches a single segment (no dots)
+        source += '[^.]+';
+        i += 1;
+      }
+      continue;
+    }
+
+    if (char === '{') {
+      source += '(?:';
+      depth++;
+    } else if (char === '}' && depth > 0) {
+      source += ')';
+      depth--;
+    } else if (char === ',' && depth > 0) {
+      source += '|';
+    } else {
+      // Escape any regex-special character
+      source += char.replace(/[.{}()[\]\\^$|?+]/g, '\\$&');
+    }
+    i += 1;
+  }
+
+  // Close any unbalanced alternation so the regex stays valid.
+  return source + ')'.repeat(depth);
+}
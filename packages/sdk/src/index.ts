@@ -1,22 +1,97 @@
 // Public API
 export { OpenDataLayer } from './odl.js';
-export type { ODLOptions } from './odl.js';
+export type {
+  ODLContextKey,
+  ODLContextObject,
+  ODLContextPatch,
+  ODLContextValue,
+  ODLEventData,
+  ODLEventName,
+  ODLOptions,
+  ODLTrackArgs,
+  TrackOptions,
+} from './odl.js';
+export type { ConsentCategory, ODLContext, ODLEventMap } from '@opendatalayer/types';
+export { QUEUE_SNIPPET } from './queue.js';
+export type {
+  AttachQueueOptions,
+  ODLQueueItem,
+  ODLQueueProxy,
+  ODLQueuedCommand,
+  ODLQueuedEvent,
+} from './queue.js';
 
 // Core
 export { DataLayer } from './core/data-layer.js';
+export type { DataLayerOptions, PushOptions } from './core/data-layer.js';
 export { EventBus } from './core/event-bus.js';
-export type { ODLEvent } from './core/event-bus.js';
+export type {
+  ODLDiagnostic,
+  ODLEvent,
+  SubscribeOptions,
+  WaitForOptions,
+} from './core/event-bus.js';
+export { EventStore } from './core/event-store.js';
+export type { EvictionReason, RetentionOptions } from './core/event-store.js';
+export { compilePattern } from './core/pattern.js';
+export type { EventMatcher, EventPattern, EventPredicate } from './core/pattern.js';
 export { ContextManager } from './core/context-manager.js';
+export type {
+  ContextChange,
+  ContextHistoryEntry,
+  ContextManagerOptions,
+  ContextProvider,
+  ContextSetOptions,
+} from './core/context-manager.js';
+export { compileContextScope } from './core/context-scope.js';
+export type {
+  ContextFilter,
+  ContextOverrides,
+  ContextScope,
+  ContextScopeRule,
+} from './core/context-scope.js';
 export { MiddlewarePipeline } from './core/middleware.js';
-export type { MiddlewareFn } from './core/middleware.js';
+export type {
+  MiddlewareErrorPolicy,
+  MiddlewareFailure,
+  MiddlewareFn,
+  MiddlewareInfo,
+  MiddlewareNext,
+  MiddlewareOptions,
+  MiddlewarePipelineOptions,
+  MiddlewareStage,
+  MiddlewareTimeoutOptions,
+  MiddlewareTimeoutPolicy,
+} from './core/middleware.js';
 
 // Plugins
-export type { ODLPlugin } from './plugins/types.js';
+export type {
+  ContextPermission,
+  ODLPlugin,
+  PluginConsentReport,
+  PluginContext,
+  PluginInfo,
+  PluginLogger,
+  PluginPermissions,
+  PluginScheduler,
+  PluginStorage,
+} from './plugins/types.js';
 export { autoPageView } from './plugins/auto-page-view.js';
+export { cmp, DEFAULT_TCF_PURPOSES } from './plugins/cmp.js';
+export type { CmpContext, CmpOptions, TcfPurposeMap } from './plugins/cmp.js';
+export { consent, DEFAULT_CONSENT_PURPOSES } from './plugins/consent.js';
+export type { ConsentOptions, ConsentPurposeMap } from './plugins/consent.js';
 export { debug } from './plugins/debug.js';
 export { persistence } from './plugins/persistence.js';
+export { piiGuard } from './plugins/pii-guard.js';
+export type { PiiAction, PiiDetector, PiiGuardOptions, PiiScope } from './plugins/pii-guard.js';
+export { DEFAULT_OPT_OUT_PURPOSES, privacySignals } from './plugins/privacy-signals.js';
+export type { PrivacySignalsOptions } from './plugins/privacy-signals.js';
 
 // Utilities
 export { generateUUID } from './utils/uuid.js';
 export { now } from './utils/timestamp.js';
+export { cloneDeep } from './utils/clone.js';
 export { deepMerge } from './utils/deep-merge.js';
+export { DEFAULT_PII_FIELDS, sanitizeString, stripPII } from './utils/sanitize.js';
+export type { DiffEntry } from './utils/diff.js';
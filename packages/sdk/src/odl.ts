@@ -1,18 +1,214 @@
+import type { ConsentContext, ODLContext, ODLEventMap } from '@opendatalayer/types';
+import type {
+  ContextChange,
+  ContextHistoryEntry,
+  ContextSetOptions,
+} from './core/context-manager.js';
+import type { ContextOverrides, ContextScope } from './core/context-scope.js';
 import { DataLayer } from './core/data-layer.js';
-import type { ODLEvent } from './core/event-bus.js';
-import type { MiddlewareFn } from './core/middleware.js';
-import type { ODLPlugin } from './plugins/types.js';
+import type {
+  ODLDiagnostic,
+  ODLEvent,
+  SubscribeOptions,
+  WaitForOptions,
+} from './core/event-bus.js';
+import type { RetentionOptions } from './core/event-store.js';
+import type {
+  MiddlewareFn,
+  MiddlewareInfo,
+  MiddlewareOptions,
+  MiddlewarePipelineOptions,
+} from './core/middleware.js';
+import type { EventPattern } from './core/pattern.js';
+import { isConsentGranted } from './plugins/consent.js';
+import {
+  compilePermissions,
+  createPluginContext,
+  redactEvent,
+  restoreHiddenContext,
+} from './plugins/context.js';
+import type { PluginAccess } from './plugins/context.js';
+import { checkRegistration, orderPlugins } from './plugins/order.js';
+import type {
+  ODLPlugin,
+  PluginConsentReport,
+  PluginContext,
+  PluginInfo,
+  PluginPermissions,
+} from './plugins/types.js';
+import { isQueuedCommand, isQueuedEvent } from './queue.js';
+import type { AttachQueueOptions, ODLQueueItem, ODLQueueProxy } from './queue.js';
+
+/** Name of the built-in middleware that runs plugin `beforeEvent` hooks. */
+const PLUGIN_HOOKS_MIDDLEWARE = 'odl:plugin-hooks';
 
 /**
  * Configuration options for an {@link OpenDataLayer} instance.
  */
 export interface ODLOptions {
-  /** Plugins to register immediately on construction. */
+  /** Plugins to register immediately on construction (see `use()` for ordering). */
   plugins?: ODLPlugin[];
   /** Initial ambient context (keyed by domain, e.g. `{ user: { id: '42' } }`). */
-  context?: Record<string, unknown>;
+  context?: ODLContextObject;
   /** Source metadata attached to every event. */
   source?: { name: string; version: string };
+  /** Pipeline-wide middleware defaults: async timeouts and the error policy. */
+  middleware?: MiddlewarePipelineOptions;
+  /**
+   * Limits on the events kept in memory for `getEvents()` and replay
+   * (`maxEvents`, `maxAge`, `maxBytes`, `onEvict`), or `false` to keep none.
+   * By default every event is kept for the lifetime of the page.
+   */
+  retention?: RetentionOptions | false;
+  /**
+   * Rules restricting which context keys are attached to which events, e.g.
+   * `{ cart: { include: 'ecommerce.*' }, location: { exclude: 'page.*' } }`.
+   * Keys without a rule are attached to every event.
+   */
+  contextScope?: ContextScope;
+  /**
+   * Number of context changes to keep for `getContextHistory()` and
+   * `getContextAt()` (default: `0`, no history).
+   */
+  contextHistory?: number;
+  /**
+   * Maximum number of events held for each plugin whose async `initialize`
+   * has not finished (default: `1000`). Beyond it the oldest are dropped.
+   */
+  pluginBuffer?: number;
+  /**
+   * Restrictions on what each plugin may do through its `PluginContext`,
+   * keyed by plugin name, e.g. `{ 'vendor-adapter': { readContext: { exclude: ['user'] } } }`.
+   * Plugins without an entry may do everything.
+   */
+  pluginPermissions?: Record<string, PluginPermissions>;
+  /**
+   * When true, every diagnostic (middleware, subscriber or plugin failure) is
+   * also tracked as an `error.occurred` event (default: false).
+   */
+  reportErrors?: boolean;
+}
+
+/**
+ * Event names accepted by {@link OpenDataLayer.track}: every event in the ODL
+ * taxonomy, plus open-ended `custom.*` events (extensions spec §2.1).
+ */
+export type ODLEventName = keyof ODLEventMap | `custom.${string}`;
+
+/**
+ * The `data` payload type for an event name. Custom events without an
+ * `ODLEventMap` entry accept any object.
+ */
+export type ODLEventData<K extends ODLEventName> = K extends keyof ODLEventMap
+  ? ODLEventMap[K]
+  : Record<string, unknown>;
+
+/**
+ * The arguments after the event name in {@link OpenDataLayer.track}. `data`
+ * can only be left out when the event's data type has no required properties.
+ */
+export type ODLTrackArgs<K extends ODLEventName> = Record<never, never> extends ODLEventData<K>
+  ? [
+      data?: ODLEventData<K>,
+      customDimensions?: Record<string, string | number | boolean>,
+      options?: TrackOptions,
+    ]
+  : [
+      data: ODLEventData<K>,
+      customDimensions?: Record<string, string | number | boolean>,
+      options?: TrackOptions,
+    ];
+
+/**
+ * Context keys accepted by {@link OpenDataLayer.setContext}: every domain in
+ * `ODLContext`, plus `x_`-prefixed extension contexts (extensions spec §4.1.2).
+ *
+ * Give an extension context a type by merging it into `ODLContext`:
+ *
+ * ```ts
+ * declare module '@opendatalayer/types' {
+ *   interface ODLContext {
+ *     x_loyalty?: { tier: string; points: number };
+ *   }
+ * }
+ * ```
+ */
+export type ODLContextKey = keyof ODLContext | `x_${string}`;
+
+/**
+ * The value type for a context key. Undeclared extension contexts accept
+ * any value.
+ */
+export type ODLContextValue<K extends ODLContextKey> = K extends keyof ODLContext
+  ? Exclude<ODLContext[K], undefined>
+  : unknown;
+
+/**
+ * The partial accepted by {@link OpenDataLayer.updateContext} for a context
+ * key: any subset of the value, at any depth. Arrays are replaced, not merged,
+ * so they must be given whole.
+ */
+export type ODLContextPatch<K extends ODLContextKey> = K extends keyof ODLContext
+  ? DeepPartial<ODLContextValue<K>>
+  : Record<string, unknown>;
+
+/**
+ * The full ambient context: the `ODLContext` domains plus any extension
+ * contexts.
+ */
+export type ODLContextObject = ODLContext & { [key: `x_${string}`]: unknown };
+
+type DeepPartial<T> = T extends readonly unknown[]
+  ? T
+  : T extends object
+    ? { [P in keyof T]?: DeepPartial<T[P]> }
+    : T;
+
+/**
+ * Per-call options for {@link OpenDataLayer.track} and
+ * {@link OpenDataLayer.trackAsync}.
+ */
+export interface TrackOptions {
+  /**
+   * Force context keys onto (`true`) or off (`false`) this event, overriding
+   * the `contextScope` rules: `{ context: { user: false } }`.
+   */
+  context?: ContextOverrides;
+}
+
+/**
+ * Map a diagnostic onto the `error.occurred` event data schema.
+ */
+function toErrorOccurredData(diagnostic: ODLDiagnostic): Record<string, unknown> {
+  const { error } = diagnostic;
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    type: 'javascript',
+    ...(error instanceof Error && error.stack !== undefined ? { stack: error.stack } : {}),
+    code: `odl.${diagnostic.origin}`,
+    severity: 'error',
+    handled: true,
+  };
+}
+
+/**
+ * Initialization state of a registered plugin.
+ */
+interface PluginState {
+  /** True once `initialize` has finished; until then events are buffered. */
+  ready: boolean;
+  /** True if `initialize` failed; the plugin then receives no `afterEvent` calls. */
+  failed: boolean;
+  /** Events to deliver to `afterEvent` once the plugin is ready. */
+  buffer: ODLEvent[];
+  /** Settles when initialization has finished, successfully or not. */
+  settled: Promise<void>;
+  /** The plugin's permissions. */
+  access: PluginAccess;
+  /** Releases the subscriptions and timers the plugin created through its context. */
+  dispose: () => void;
+  /** Events withheld from `afterEvent` for lack of consent. */
+  withheld: Omit<PluginConsentReport, 'name' | 'requiresConsent'>;
 }
 
 /**
@@ -24,46 +220,77 @@ export interface ODLOptions {
 export class OpenDataLayer {
   private dataLayer: DataLayer;
   private plugins: ODLPlugin[] = [];
+  private pluginStates: Map<ODLPlugin, PluginState> = new Map();
+  private pluginBuffer: number;
+  private pluginPermissions: Record<string, PluginPermissions>;
+  private reportingError = false;
 
   constructor(options?: ODLOptions) {
-    this.dataLayer = new DataLayer(options?.source);
+    this.dataLayer = new DataLayer(options?.source, {
+      middleware: options?.middleware,
+      retention: options?.retention,
+      contextScope: options?.contextScope,
+      contextHistory: options?.contextHistory,
+    });
+    this.pluginBuffer = Math.max(options?.pluginBuffer ?? 1000, 0);
+    this.pluginPermissions = options?.pluginPermissions ?? {};
 
     // Wire up plugin beforeEvent / afterEvent hooks as middleware
-    this.dataLayer.use((event, next) => {
-      // Run all beforeEvent hooks.  If any returns null the event is cancelled.
-      let current: ODLEvent | null = event;
-      for (const plugin of this.plugins) {
-        if (!current) break;
-        if (plugin.beforeEvent) {
-          current = plugin.beforeEvent(current);
+    this.dataLayer.use(
+      (event, next) => {
+        // Run all beforeEvent hooks.  If any returns null the event is cancelled.
+        let current: ODLEvent | null = event;
+        for (const plugin of this.plugins) {
+          if (!current) break;
+          if (plugin.beforeEvent) {
+            current = this.runBeforeEvent(plugin, current);
+          }
         }
-      }
 
-      if (!current) {
-        // A plugin cancelled the event — do not call next().
-        return;
-      }
+        if (!current) {
+          // A plugin cancelled the event — do not call next().
+          return;
+        }
 
-      // Copy any mutations from the (possibly replaced) event back onto the
-      // original reference so downstream middleware and the data layer see them.
-      Object.assign(event, current);
-      next();
-    });
+        // Copy any mutations from the (possibly replaced) event back onto the
+        // original reference so downstream middleware and the data layer see them.
+        Object.assign(event, current);
+        next();
+      },
+      { name: PLUGIN_HOOKS_MIDDLEWARE, stage: 'transform' },
+    );
 
     // After-event hooks are fired via a wildcard subscription so they only
-    // trigger for events that actually passed through the pipeline.
+    // trigger for events that actually passed through the pipeline. Plugins
+    // only get events their consent purposes are granted for, and those that
+    // are still initializing get them once they are ready.
     this.dataLayer.on('*', (evt) => {
       for (const plugin of this.plugins) {
-        if (plugin.afterEvent) {
-          try {
-            plugin.afterEvent(evt);
-          } catch {
-            // Isolate plugin errors
-          }
+        if (!plugin.afterEvent) continue;
+        const state = this.pluginStates.get(plugin);
+        if (state?.failed) continue;
+        if (state && !this.hasConsent(plugin, state, evt)) continue;
+        if (state && !state.ready) {
+          this.bufferEvent(state, evt);
+          continue;
         }
+        this.runAfterEvent(plugin, evt);
       }
     });
 
+    if (options?.reportErrors) {
+      this.dataLayer.onDiagnostic((diagnostic) => {
+        // Guard against failures while reporting a failure.
+        if (this.reportingError) return;
+        this.reportingError = true;
+        try {
+          this.dataLayer.push('error.occurred', toErrorOccurredData(diagnostic));
+        } finally {
+          this.reportingError = false;
+        }
+      });
+    }
+
     // Apply initial context
     if (options?.context) {
       for (const [key, value] of Object.entries(options.context)) {
@@ -73,9 +300,7 @@ export class OpenDataLayer {
 
     // Register plugins provided via options
     if (options?.plugins) {
-      for (const plugin of options.plugins) {
-        this.use(plugin);
-      }
+      this.use(...options.plugins);
     }
   }
 
@@ -87,29 +312,117 @@ export class OpenDataLayer {
    * Track an event.
    *
    * Alias for the internal `DataLayer.push()`, exposed as the primary public API.
+   * `options.context` overrides the `contextScope` rules for this event only.
+   *
+   * `eventName` must be an event from the ODL taxonomy (`ODLEventMap`) or a
+   * `custom.*` event, and `data` must match the event's data type, so typos
+   * and wrong payloads fail to compile. `data` is required when the data type
+   * has required properties.
    */
-  track(
-    eventName: string,
-    data?: Record<string, unknown>,
-    customDimensions?: Record<string, string | number | boolean>,
+  track<K extends ODLEventName>(
+    eventName: K,
+    ...[data, customDimensions, options]: ODLTrackArgs<K>
   ): ODLEvent {
-    return this.dataLayer.push(eventName, data, customDimensions);
+    return this.dataLayer.push(
+      eventName,
+      data as Record<string, unknown> | undefined,
+      customDimensions,
+      options,
+    );
+  }
+
+  /**
+   * Track an event, awaiting any asynchronous middleware.
+   *
+   * Resolves with the event once it has been stored and emitted (or cancelled
+   * by middleware).
+   */
+  trackAsync<K extends ODLEventName>(
+    eventName: K,
+    ...[data, customDimensions, options]: ODLTrackArgs<K>
+  ): Promise<ODLEvent> {
+    return this.dataLayer.pushAsync(
+      eventName,
+      data as Record<string, unknown> | undefined,
+      customDimensions,
+      options,
+    );
   }
 
   // --------------------------------------------------------------------------
   // Context methods
   // --------------------------------------------------------------------------
 
-  setContext(key: string, value: unknown): void {
-    this.dataLayer.setContext(key, value);
+  /**
+   * Set a context key, replacing its previous value. Pass `options.ttl` (in
+   * milliseconds) to expire the key, e.g.
+   * `{ ttl: 30 * 60 * 1000, sliding: true }` for a session that ends after
+   * 30 minutes of inactivity.
+   *
+   * `value` must match the key's type in `ODLContext`; see
+   * {@link ODLContextKey} for adding extension contexts.
+   */
+  setContext<K extends ODLContextKey>(
+    key: K,
+    value: ODLContextValue<K>,
+    options?: ContextSetOptions,
+  ): void {
+    this.dataLayer.setContext(key, value, options);
+  }
+
+  /**
+   * Deep-merge `partial` into a context key. See {@link setContext} for
+   * `options`.
+   */
+  updateContext<K extends ODLContextKey>(
+    key: K,
+    partial: ODLContextPatch<K>,
+    options?: ContextSetOptions,
+  ): void {
+    this.dataLayer.updateContext(key, partial as Record<string, unknown>, options);
+  }
+
+  /**
+   * Register a function that computes the context `key` each time an event
+   * is tracked, e.g. the current viewport size. Providers are only evaluated
+   * for events the key is in scope for.
+   *
+   * @returns A function that unregisters the provider.
+   */
+  provideContext<K extends ODLContextKey>(key: K, provider: () => ODLContextValue<K>): () => void {
+    return this.dataLayer.provideContext(key, provider);
+  }
+
+  getContext(): ODLContextObject {
+    return this.dataLayer.getContext() as ODLContextObject;
+  }
+
+  /**
+   * Subscribe to changes of the context `key` (e.g. `"consent"`), or of every
+   * key with `"*"`. Handlers receive the key, the previous and next values
+   * and the list of changed paths.
+   *
+   * @returns An unsubscribe function.
+   */
+  onContextChange(key: ODLContextKey | '*', handler: (change: ContextChange) => void): () => void {
+    return this.dataLayer.onContextChange(key, handler);
   }
 
-  updateContext(key: string, partial: Record<string, unknown>): void {
-    this.dataLayer.updateContext(key, partial);
+  /**
+   * Return the recorded context changes, oldest first. Requires the
+   * `contextHistory` option.
+   */
+  getContextHistory(): readonly ContextHistoryEntry[] {
+    return this.dataLayer.getContextHistory();
   }
 
-  getContext(): Record<string, unknown> {
-    return this.dataLayer.getContext();
+  /**
+   * Return the context as it was at `timestamp`, e.g.
+   * `odl.getContextAt(event.timestamp)`. Returns `undefined` if the
+   * `contextHistory` option is not set or no longer reaches back that far.
+   */
+  getContextAt(timestamp: string | Date): ODLContextObject | undefined {
+    return this.dataLayer.getContextAt(timestamp) as ODLContextObject | undefined;
   }
 
   // --------------------------------------------------------------------------
@@ -119,10 +432,109 @@ export class OpenDataLayer {
   /**
    * Subscribe to events matching a pattern.
    *
+   * `pattern` may be an exact name, a glob (`"ecommerce.*"`, `"**.viewed"`),
+   * an alternation (`"{page,ecommerce}.*"`), a negation (`"!page.view"`) or a
+   * predicate function receiving the event.
+   *
+   * Pass `{ replay: true }` to first receive matching events tracked before
+   * the subscription, or `{ replay: n }` for only the last `n` of them.
+   *
    * @returns An unsubscribe function.
    */
-  on(pattern: string, handler: (event: ODLEvent) => void): () => void {
-    return this.dataLayer.on(pattern, handler);
+  on(
+    pattern: EventPattern,
+    handler: (event: ODLEvent) => void,
+    options?: SubscribeOptions,
+  ): () => void {
+    return this.dataLayer.on(pattern, handler, options);
+  }
+
+  /**
+   * Subscribe to the first event matching a pattern only, e.g. the first
+   * `ecommerce.purchase` of the session.
+   *
+   * @returns An unsubscribe function, for cancelling before a match arrives.
+   */
+  once(
+    pattern: EventPattern,
+    handler: (event: ODLEvent) => void,
+    options?: SubscribeOptions,
+  ): () => void {
+    return this.dataLayer.once(pattern, handler, options);
+  }
+
+  /**
+   * Wait for the next event matching a pattern:
+   *
+   * ```ts
+   * const consent = await odl.waitFor('consent.given', { timeout: 5000 });
+   * ```
+   *
+   * Rejects if `options.timeout` elapses first. Only events tracked after
+   * the call are considered.
+   */
+  waitFor(pattern: EventPattern, options?: WaitForOptions): Promise<ODLEvent> {
+    return this.dataLayer.waitFor(pattern, options);
+  }
+
+  /**
+   * Subscribe to diagnostics: errors thrown by middleware, subscribers and
+   * plugin hooks, which the SDK isolates instead of throwing into the caller.
+   *
+   * @returns An unsubscribe function.
+   */
+  onError(handler: (diagnostic: ODLDiagnostic) => void): () => void {
+    return this.dataLayer.onDiagnostic(handler);
+  }
+
+  // --------------------------------------------------------------------------
+  // Push-before-ready queue
+  // --------------------------------------------------------------------------
+
+  /**
+   * Drain the global pre-load queue (see {@link QUEUE_SNIPPET}) and turn it
+   * into a live proxy.
+   *
+   * Queued `track`, `setContext` and `updateContext` calls, as well as plain
+   * event objects, are replayed in their original order; tracked events keep
+   * the timestamp at which they were queued. Unrecognised entries are
+   * ignored. Afterwards the global is an {@link ODLQueueProxy} whose `push`
+   * processes items immediately. The queue array itself is patched rather
+   * than replaced, so code still holding it (`var q = window.odl`) reaches
+   * the instance too.
+   *
+   * @returns The proxy that now occupies the global.
+   */
+  attachQueue(options?: AttachQueueOptions): ODLQueueProxy {
+    const target = options?.target ?? (globalThis as unknown as Record<string, unknown>);
+    const name = options?.name ?? 'odl';
+
+    const proxy: ODLQueueProxy = {
+      push: (...items: ODLQueueItem[]): number => {
+        for (const item of items) {
+          this.processQueueItem(item);
+        }
+        return items.length;
+      },
+      // Snippet-era code is untyped, so the proxy accepts any event name or
+      // context key.
+      track: (eventName, data, customDimensions) =>
+        this.dataLayer.push(eventName, data, customDimensions),
+      setContext: (key, value) => this.dataLayer.setContext(key, value),
+      updateContext: (key, partial) => this.dataLayer.updateContext(key, partial),
+    };
+
+    const queued = target[name];
+    if (!Array.isArray(queued)) {
+      target[name] = proxy;
+      return proxy;
+    }
+    // Items pushed while draining are appended and replayed in turn.
+    for (const item of queued) {
+      this.processQueueItem(item);
+    }
+    queued.length = 0;
+    return Object.assign(queued, proxy);
   }
 
   // --------------------------------------------------------------------------
@@ -130,13 +542,130 @@ export class OpenDataLayer {
   // --------------------------------------------------------------------------
 
   /**
-   * Register a plugin and call its `initialize` hook.
+   * Register plugins and call their `initialize` hooks.
+   *
+   * Plugins are ordered by their `dependsOn`, `before` and `after`
+   * declarations: hooks run, and plugins registered together are
+   * initialized, in that order, and `destroy` runs in reverse. A plugin
+   * registered later is always initialized after the plugins already
+   * registered, whatever its `before` says.
+   *
+   * @throws If a plugin's name is already taken (use {@link replace} to swap
+   *   a plugin), if it depends on one that is not registered (here or
+   *   earlier), or if the declarations form a cycle. Nothing is registered
+   *   in that case. Also rethrows the error of a synchronous `initialize`:
+   *   that plugin stays registered as failed, and the plugins after it are
+   *   not registered.
+   */
+  use(...plugins: ODLPlugin[]): void {
+    checkRegistration(this.plugins, plugins);
+    this.plugins = orderPlugins([...this.plugins, ...plugins]);
+    try {
+      for (const plugin of this.plugins) {
+        if (plugins.includes(plugin)) {
+          this.initializePlugin(plugin);
+        }
+      }
+    } catch (error) {
+      // Unregister the plugins that were not initialized.
+      this.plugins = this.plugins.filter((plugin) => this.pluginStates.has(plugin));
+      throw error;
+    }
+  }
+
+  /**
+   * Unregister the plugin named `name` and call its `destroy` hook. Events
+   * and context are kept.
+   *
+   * @returns `true` if a plugin was removed.
+   * @throws If another registered plugin depends on it.
    */
-  use(plugin: ODLPlugin): void {
-    this.plugins.push(plugin);
-    if (plugin.initialize) {
-      plugin.initialize(this.dataLayer);
+  unuse(name: string): boolean {
+    const plugin = this.plugins.find((p) => p.name === name);
+    if (!plugin) {
+      return false;
     }
+    const dependent = this.plugins.find((p) => p.dependsOn?.includes(name));
+    if (dependent) {
+      throw new Error(`Plugin "${name}" is required by "${dependent.name}"`);
+    }
+
+    this.plugins = this.plugins.filter((p) => p !== plugin);
+    this.destroyPlugin(plugin);
+    return true;
+  }
+
+  /**
+   * Register `plugin` in place of the plugin with the same name, destroying
+   * the old one first, or simply register it if there is none. Plugins that
+   * depend on it keep running and are not initialized again.
+   *
+   * @throws Like {@link use}, if its dependencies are missing or form a
+   *   cycle. The old plugin is kept in that case.
+   */
+  replace(plugin: ODLPlugin): void {
+    const previous = this.plugins.find((p) => p.name === plugin.name);
+    if (!previous) {
+      this.use(plugin);
+      return;
+    }
+
+    const others = this.plugins.filter((p) => p !== previous);
+    checkRegistration(others, [plugin]);
+    // Keep the old plugin's position among plugins it has no constraints with.
+    const plugins = orderPlugins(this.plugins.map((p) => (p === previous ? plugin : p)));
+
+    this.destroyPlugin(previous);
+    this.plugins = plugins;
+    this.initializePlugin(plugin);
+  }
+
+  /**
+   * Describe the registered plugins in the order their hooks run, e.g. for
+   * debugging tools.
+   */
+  getPlugins(): PluginInfo[] {
+    return this.plugins.map((plugin) => {
+      const state = this.pluginStates.get(plugin);
+      return {
+        name: plugin.name,
+        status: state?.failed ? 'failed' : state?.ready === false ? 'initializing' : 'ready',
+        dependsOn: [...(plugin.dependsOn ?? [])],
+        before: [...(plugin.before ?? [])],
+        after: [...(plugin.after ?? [])],
+        requiresConsent: [...(plugin.requiresConsent ?? [])],
+        buffered: state?.buffer.length ?? 0,
+      };
+    });
+  }
+
+  /**
+   * Report, for every plugin that declares `requiresConsent`, the events
+   * withheld from its `afterEvent` because their `context.consent` did not
+   * grant those purposes (privacy spec §2.5).
+   */
+  getConsentReport(): PluginConsentReport[] {
+    return this.plugins
+      .filter((plugin) => (plugin.requiresConsent ?? []).length > 0)
+      .map((plugin) => {
+        const withheld = this.pluginStates.get(plugin)?.withheld;
+        return {
+          name: plugin.name,
+          requiresConsent: [...(plugin.requiresConsent ?? [])],
+          suppressed: withheld?.suppressed ?? 0,
+          events: { ...withheld?.events },
+          purposes: { ...withheld?.purposes },
+        };
+      });
+  }
+
+  /**
+   * Resolve once every registered plugin has finished initializing. Plugins
+   * whose `initialize` failed are reported on the diagnostic channel rather
+   * than rejecting the promise.
+   */
+  async ready(): Promise<void> {
+    await Promise.all([...this.pluginStates.values()].map((state) => state.settled));
   }
 
   // --------------------------------------------------------------------------
@@ -149,8 +678,25 @@ export class OpenDataLayer {
    * Plugin authors should prefer the `beforeEvent` / `afterEvent` hooks;
    * `addMiddleware` is available for advanced use cases.
    */
-  addMiddleware(fn: MiddlewareFn): void {
-    this.dataLayer.use(fn);
+  addMiddleware(fn: MiddlewareFn, options?: MiddlewareOptions): void {
+    this.dataLayer.use(fn, options);
+  }
+
+  /**
+   * Remove a named middleware from the pipeline.
+   *
+   * @returns `true` if a middleware was removed.
+   */
+  removeMiddleware(name: string): boolean {
+    return this.dataLayer.removeMiddleware(name);
+  }
+
+  /**
+   * Describe the registered middleware (including the built-in plugin hooks)
+   * in execution order.
+   */
+  listMiddleware(): MiddlewareInfo[] {
+    return this.dataLayer.listMiddleware();
   }
 
   // --------------------------------------------------------------------------
@@ -158,7 +704,7 @@ export class OpenDataLayer {
   // --------------------------------------------------------------------------
 
   /**
-   * Return an immutable view of all stored events.
+   * Return an immutable view of the retained events, oldest first.
    */
   getEvents(): readonly ODLEvent[] {
     return this.dataLayer.getEvents();
@@ -175,7 +721,9 @@ export class OpenDataLayer {
    * Tear down all plugins and clean up resources.
    */
   destroy(): void {
-    for (const plugin of this.plugins) {
+    // Dependents first, so a plugin can still rely on its dependencies while
+    // tearing down.
+    for (const plugin of [...this.plugins].reverse()) {
       if (plugin.destroy) {
         try {
           plugin.destroy();
@@ -184,7 +732,227 @@ export class OpenDataLayer {
         }
       }
     }
+    for (const state of this.pluginStates.values()) {
+      state.dispose();
+    }
     this.plugins = [];
+    this.pluginStates.clear();
     this.dataLayer.reset();
   }
+
+  // --------------------------------------------------------------------------
+  // Private helpers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Call a plugin's `initialize`, once the plugins it depends on are ready.
+   *
+   * Synchronous plugins whose dependencies are ready are initialized right
+   * away, and their errors are thrown to the caller of `use()`. Otherwise
+   * the plugin is ready when `initialize` resolves, and failures are
+   * reported as diagnostics.
+   */
+  private initializePlugin(plugin: ODLPlugin): void {
+    const access = compilePermissions(this.pluginPermissions[plugin.name]);
+    const { context, dispose } = createPluginContext(plugin.name, this.dataLayer, access);
+    const state: PluginState = {
+      ready: false,
+      failed: false,
+      buffer: [],
+      settled: Promise.resolve(),
+      access,
+      dispose,
+      withheld: { suppressed: 0, events: {}, purposes: {} },
+    };
+    this.pluginStates.set(plugin, state);
+
+    const dependencies = (plugin.dependsOn ?? []).flatMap((name) =>
+      this.plugins.filter((p) => p.name === name && !this.pluginStates.get(p)?.ready),
+    );
+    let initialization: void | Promise<void>;
+    try {
+      initialization =
+        dependencies.length > 0
+          ? this.initializeAfter(plugin, dependencies, context)
+          : plugin.initialize?.(context);
+    } catch (error) {
+      state.failed = true;
+      throw error;
+    }
+
+    // Callbacks typed as returning void may still return a non-promise value.
+    if (typeof (initialization as PromiseLike<void> | undefined)?.then !== 'function') {
+      this.markReady(plugin, state);
+      return;
+    }
+    state.settled = Promise.resolve(initialization).then(
+      () => this.markReady(plugin, state),
+      (error: unknown) => this.markFailed(plugin, state, error),
+    );
+  }
+
+  /**
+   * Wait for `dependencies` to settle, then initialize `plugin`.
+   */
+  private async initializeAfter(
+    plugin: ODLPlugin,
+    dependencies: ODLPlugin[],
+    context: PluginContext,
+  ): Promise<void> {
+    await Promise.all(dependencies.map((dependency) => this.pluginStates.get(dependency)?.settled));
+    const failed = dependencies.find((dependency) => this.pluginStates.get(dependency)?.failed);
+    if (failed) {
+      throw new Error(
+        `Plugin "${plugin.name}" was not initialized because "${failed.name}" failed`,
+      );
+    }
+    await plugin.initialize?.(context);
+  }
+
+  /**
+   * Mark a plugin as ready and deliver the events buffered for it.
+   */
+  private markReady(plugin: ODLPlugin, state: PluginState): void {
+    // The instance may have been destroyed in the meantime.
+    if (this.pluginStates.get(plugin) !== state) return;
+    state.ready = true;
+    for (const event of state.buffer.splice(0)) {
+      this.runAfterEvent(plugin, event);
+    }
+  }
+
+  /**
+   * Report a failed initialization and drop the events buffered for it.
+   */
+  private markFailed(plugin: ODLPlugin, state: PluginState, error: unknown): void {
+    if (this.pluginStates.get(plugin) !== state) return;
+    state.failed = true;
+    state.buffer = [];
+    this.dataLayer.reportDiagnostic({ origin: 'plugin', error, name: plugin.name });
+  }
+
+  /**
+   * Whether the event's consent grants every purpose the plugin requires.
+   * Withheld events are counted for {@link getConsentReport}.
+   */
+  private hasConsent(plugin: ODLPlugin, state: PluginState, event: ODLEvent): boolean {
+    const consent = event.context?.consent as ConsentContext | undefined;
+    const missing = (plugin.requiresConsent ?? []).filter(
+      (purpose) => !isConsentGranted(consent, [purpose]),
+    );
+    if (missing.length === 0) {
+      return true;
+    }
+    const { withheld } = state;
+    withheld.suppressed++;
+    withheld.events[event.event] = (withheld.events[event.event] ?? 0) + 1;
+    for (const purpose of missing) {
+      withheld.purposes[purpose] = (withheld.purposes[purpose] ?? 0) + 1;
+    }
+    return false;
+  }
+
+  /**
+   * Hold an event for a plugin that is not ready yet, dropping the oldest
+   * beyond the `pluginBuffer` limit.
+   */
+  private bufferEvent(state: PluginState, event: ODLEvent): void {
+    state.buffer.push(event);
+    if (state.buffer.length > this.pluginBuffer) {
+      state.buffer.shift();
+    }
+  }
+
+  /**
+   * Call the `destroy` hook of a plugin removed from a live instance,
+   * reporting its errors, and release what it acquired through its context.
+   */
+  private destroyPlugin(plugin: ODLPlugin): void {
+    try {
+      plugin.destroy?.();
+    } catch (error) {
+      this.dataLayer.reportDiagnostic({ origin: 'plugin', error, name: plugin.name });
+    }
+    this.pluginStates.get(plugin)?.dispose();
+    this.pluginStates.delete(plugin);
+  }
+
+  /**
+   * Call a plugin's `beforeEvent` hook with the context it may read, keeping
+   * the keys hidden from it on the returned event. A hook that throws
+   * cancels the event, so that it cannot skip the guards of the plugins
+   * after it, and its error is reported.
+   */
+  private runBeforeEvent(plugin: ODLPlugin, event: ODLEvent): ODLEvent | null {
+    const access = this.pluginStates.get(plugin)?.access;
+    try {
+      if (!access) {
+        return plugin.beforeEvent?.(event) ?? null;
+      }
+      const view = redactEvent(event, access);
+      const result = plugin.beforeEvent?.(view) ?? null;
+      return result && view !== event ? restoreHiddenContext(result, event, access) : result;
+    } catch (error) {
+      this.dataLayer.reportDiagnostic({ origin: 'plugin', error, event, name: plugin.name });
+      return null;
+    }
+  }
+
+  /**
+   * Call a plugin's `afterEvent` hook, isolating its errors.
+   */
+  private runAfterEvent(plugin: ODLPlugin, event: ODLEvent): void {
+    const access = this.pluginStates.get(plugin)?.access;
+    try {
+      plugin.afterEvent?.(access ? redactEvent(event, access) : event);
+    } catch (error) {
+      // Isolate plugin errors
+      this.dataLayer.reportDiagnostic({
+        origin: 'plugin',
+        error,
+        event,
+        name: plugin.name,
+      });
+    }
+  }
+
+  /**
+   * Replay a single pre-load queue entry.
+   */
+  private processQueueItem(item: unknown): void {
+    if (isQueuedCommand(item)) {
+      const timestamp = item.timestamp !== undefined ? { timestamp: item.timestamp } : undefined;
+      const [first, second, third] = item.args;
+      if (typeof first !== 'string') return;
+
+      switch (item.method) {
+        case 'track':
+          this.dataLayer.push(
+            first,
+            second as Record<string, unknown> | undefined,
+            third as Record<string, string | number | boolean> | undefined,
+            timestamp,
+          );
+          break;
+        case 'setContext':
+          this.dataLayer.setContext(first, second);
+          break;
+        case 'updateContext':
+          if (typeof second === 'object' && second !== null) {
+            this.dataLayer.updateContext(first, second as Record<string, unknown>);
+          }
+          break;
+      }
+      return;
+    }
+
+    if (isQueuedEvent(item)) {
+      this.dataLayer.push(
+        item.event,
+        item.data,
+        item.customDimensions,
+        item.timestamp !== undefined ? { timestamp: item.timestamp } : undefined,
+      );
+    }
+  }
 }
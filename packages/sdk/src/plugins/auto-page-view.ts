@@ -1,5 +1,4 @@
-import type { DataLayer } from '../core/data-layer.js';
-import type { ODLPlugin } from './types.js';
+import type { ODLPlugin, PluginContext } from './types.js';
 
 export interface AutoPageViewOptions {
   /** Listen to popstate / pushState for SPA navigation (default: true). */
@@ -29,7 +28,7 @@ export function autoPageView(options?: AutoPageViewOptions): ODLPlugin {
   return {
     name: 'auto-page-view',
 
-    initialize(odl: DataLayer): void {
+    initialize(odl: PluginContext): void {
       // Guard: only run in browser environments
       if (typeof window === 'undefined' || typeof document === 'undefined') {
         return;
@@ -48,12 +47,12 @@ export function autoPageView(options?: AutoPageViewOptions): ODLPlugin {
       // Helper: push a virtual page view
       const pushVirtualView = (): void => {
         odl.setContext('page', getPageContext());
-        odl.push('page.virtual_view', getPageContext());
+        odl.track('page.virtual_view', getPageContext());
       };
 
       // Initial page view
       odl.setContext('page', getPageContext());
-      odl.push('page.view', getPageContext());
+      odl.track('page.view', getPageContext());
 
       // SPA history tracking
       if (trackHistory) {
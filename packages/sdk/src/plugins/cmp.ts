@@ -0,0 +1,349 @@
+import type { ConsentCategory } from '@opendatalayer/types';
+import { isConsentGranted } from './consent.js';
+import type { ODLPlugin, PluginContext } from './types.js';
+
+/** TCF purpose IDs an ODL purpose needs, all of which must be consented to. */
+export type TcfPurposeMap = Partial<Record<ConsentCategory, number[]>>;
+
+export interface CmpOptions {
+  /** Listen to the TCF v2 API, `window.__tcfapi` (default: true). */
+  tcf?: boolean;
+  /** Listen to the GPP API, `window.__gpp` (default: true). */
+  gpp?: boolean;
+  /**
+   * TCF purposes each ODL purpose needs (default:
+   * {@link DEFAULT_TCF_PURPOSES}). ODL purposes left out are not touched.
+   */
+  purposes?: TcfPurposeMap;
+  /**
+   * Custom consent categories granted by a vendor's consent, e.g.
+   * `{ x_google: 755 }`. Adapters can then require them in `requiresConsent`.
+   */
+  vendors?: Record<`x_${string}`, number>;
+  /**
+   * Context key under which the raw consent strings are kept (default:
+   * `"x_cmp"`).
+   */
+  contextKey?: `x_${string}`;
+  /**
+   * How long to wait for the CMP API to appear, in milliseconds
+   * (default: 5000).
+   */
+  timeout?: number;
+  /**
+   * Consent where the GDPR does not apply: `"grant"` grants every purpose
+   * except those the visitor opted out of in a GPP US section, and
+   * `"defaults"` leaves consent to the consent plugin's `defaults`
+   * (default: `"grant"`).
+   */
+  nonGdprConsent?: 'grant' | 'defaults';
+}
+
+/**
+ * The raw consent strings, kept in the context for adapters that forward
+ * them to vendors.
+ */
+export interface CmpContext {
+  /** TCF v2 TC string. */
+  tcString?: string;
+  /** Whether the CMP considers the GDPR to apply to the visitor. */
+  gdprApplies?: boolean;
+  /** GPP string. */
+  gppString?: string;
+  /** IDs of the GPP sections that apply to the visitor. */
+  applicableSections?: number[];
+}
+
+/**
+ * TCF v2 purposes behind each standard ODL purpose. Every purpose needs
+ * purpose 1, storing and accessing information on the device.
+ */
+export const DEFAULT_TCF_PURPOSES: Readonly<TcfPurposeMap> = {
+  functional: [1],
+  analytics: [1, 8],
+  marketing: [1, 2, 3, 4, 7],
+  advertising: [1, 2, 3, 4, 7],
+  personalization: [1, 5, 6],
+};
+
+/** GPP section ID of the TCF EU v2 section. */
+const GPP_TCF_EU_SECTION = 2;
+
+/** ODL purposes a US opt-out of sale, sharing or targeted advertising refuses. */
+const US_OPT_OUT_PURPOSES: readonly string[] = ['marketing', 'advertising'];
+
+/** Opt-out fields of the GPP US sections, where 1 means the visitor opted out. */
+const US_OPT_OUT_FIELDS = ['SaleOptOut', 'SharingOptOut', 'TargetedAdvertisingOptOut'];
+
+/** How often to look for a CMP API that has not loaded yet. */
+const POLL_INTERVAL = 100;
+
+interface TcData {
+  tcString?: string;
+  gdprApplies?: boolean;
+  eventStatus?: 'tcloaded' | 'cmpuishown' | 'useractioncomplete';
+  listenerId?: number;
+  purpose?: { consents?: Record<string, boolean> };
+  vendor?: { consents?: Record<string, boolean> };
+}
+
+type TcfApi = (
+  command: string,
+  version: number,
+  callback: (data: TcData, success: boolean) => void,
+  parameter?: unknown,
+) => void;
+
+interface GppPingData {
+  gppString?: string;
+  applicableSections?: number[];
+  signalStatus?: 'ready' | 'not ready';
+  parsedSections?: Record<string, unknown>;
+}
+
+interface GppEventData {
+  eventName?: string;
+  listenerId?: number;
+  pingData?: GppPingData;
+}
+
+type GppApi = (
+  command: string,
+  callback: (data: GppEventData, success: boolean) => void,
+  parameter?: unknown,
+) => void;
+
+type CmpWindow = Window & { __tcfapi?: TcfApi; __gpp?: GppApi };
+
+/** The TCF purposes and vendors the visitor consented to. */
+interface TcfConsents {
+  purposes: Set<number>;
+  vendors: Set<number>;
+}
+
+/** Collect the IDs whose value is `true` from a TCF consent map. */
+function consentedIds(consents: Record<string, boolean> | undefined): Set<number> {
+  return new Set(
+    Object.entries(consents ?? {})
+      .filter(([, value]) => value === true)
+      .map(([id]) => Number(id)),
+  );
+}
+
+/**
+ * Read the consents from the parsed TCF EU section of a GPP ping. Its
+ * `PurposeConsents` holds one flag per purpose, starting at purpose 1, and
+ * `VendorConsents` lists the vendor IDs.
+ */
+function gppTcfConsents(pingData: GppPingData): TcfConsents | undefined {
+  if (!pingData.applicableSections?.includes(GPP_TCF_EU_SECTION)) return undefined;
+  const parsed = pingData.parsedSections?.tcfeuv2;
+  const core = (Array.isArray(parsed) ? parsed[0] : parsed) as
+    | { PurposeConsents?: boolean[]; VendorConsents?: number[] }
+    | undefined;
+  if (!core) return undefined;
+  return {
+    purposes: new Set(
+      (core.PurposeConsents ?? []).flatMap((consented, i) => (consented ? [i + 1] : [])),
+    ),
+    vendors: new Set(core.VendorConsents ?? []),
+  };
+}
+
+/**
+ * Whether the visitor opted out of sale, sharing or targeted advertising in
+ * one of the parsed GPP US sections (`usnat`, `usca`, `usva`, ...).
+ */
+function gppUsOptedOut(pingData: GppPingData): boolean {
+  return Object.entries(pingData.parsedSections ?? {}).some(([section, parsed]) => {
+    if (!section.startsWith('us')) return false;
+    const subsections = (Array.isArray(parsed) ? parsed : [parsed]) as Array<
+      Record<string, unknown> | undefined
+    >;
+    return subsections.some((fields) => US_OPT_OUT_FIELDS.some((field) => fields?.[field] === 1));
+  });
+}
+
+/**
+ * Plugin that bridges an IAB TCF v2 or GPP consent management platform
+ * (CMP) to the `consent` plugin, which it depends on.
+ *
+ * - It listens to `window.__tcfapi` and `window.__gpp`, waiting up to
+ *   `timeout` for them to load, and keeps the TC and GPP strings under
+ *   `contextKey`.
+ * - Once the visitor's choice is known, it maps the consented TCF purposes
+ *   and vendors to ODL purposes and tracks `consent.given` or
+ *   `consent.revoked` for a first choice, and `consent.revoked` or
+ *   `consent.preferences_updated` when it changes.
+ * - Where the GDPR does not apply, it grants every purpose except marketing
+ *   and advertising when the visitor opted out of them in a GPP US section,
+ *   unless `nonGdprConsent` is `"defaults"`.
+ */
+export function cmp(options?: CmpOptions): ODLPlugin {
+  const useTcf = options?.tcf ?? true;
+  const useGpp = options?.gpp ?? true;
+  const purposeMap = options?.purposes ?? DEFAULT_TCF_PURPOSES;
+  const vendorMap = options?.vendors ?? {};
+  const contextKey = options?.contextKey ?? 'x_cmp';
+  const timeout = options?.timeout ?? 5000;
+  const nonGdprConsent = options?.nonGdprConsent ?? 'grant';
+
+  // Listener removals, run on destroy.
+  const teardowns: Array<() => void> = [];
+
+  // Map TCF consents to ODL purposes.
+  const decode = (consents: TcfConsents): Record<string, boolean> => {
+    const purposes: Record<string, boolean> = {};
+    for (const [purpose, ids] of Object.entries(purposeMap)) {
+      purposes[purpose] = (ids ?? []).every((id) => consents.purposes.has(id));
+    }
+    for (const [purpose, id] of Object.entries(vendorMap)) {
+      purposes[purpose] = consents.vendors.has(id);
+    }
+    return purposes;
+  };
+
+  // ODL purposes outside the GDPR, refusing those a US opt-out covers.
+  const nonGdpr = (optedOut: boolean): Record<string, boolean> => {
+    const purposes: Record<string, boolean> = {};
+    for (const purpose of Object.keys(purposeMap)) {
+      purposes[purpose] = !(optedOut && US_OPT_OUT_PURPOSES.includes(purpose));
+    }
+    for (const purpose of Object.keys(vendorMap)) {
+      purposes[purpose] = !optedOut;
+    }
+    return purposes;
+  };
+
+  // Whether a GPP listener is connected, which then decides consent outside
+  // the GDPR, as only GPP carries the US opt-outs.
+  let gppConnected = false;
+
+  // Track the consent event that moves the consent context to `purposes`.
+  const announce = (odl: PluginContext, purposes: Record<string, boolean>): void => {
+    const current = odl.getContext().consent;
+    const names = Object.keys(purposes);
+
+    if (current?.status !== 'granted' && current?.status !== 'denied') {
+      if (names.some((purpose) => purposes[purpose])) {
+        odl.track('consent.given', { purposes, method: 'banner' });
+      } else {
+        const revoked = Object.fromEntries(names.map((purpose) => [purpose, true]));
+        odl.track('consent.revoked', { purposes: revoked, method: 'banner' });
+      }
+      return;
+    }
+
+    const previous = Object.fromEntries(
+      names.map((purpose) => [purpose, isConsentGranted(current, [purpose as ConsentCategory])]),
+    );
+    const changed = names.filter((purpose) => previous[purpose] !== purposes[purpose]);
+    if (changed.length === 0) return;
+
+    if (changed.every((purpose) => !purposes[purpose])) {
+      const revoked = Object.fromEntries(changed.map((purpose) => [purpose, true]));
+      odl.track('consent.revoked', { purposes: revoked, method: 'banner' });
+    } else {
+      odl.track('consent.preferences_updated', {
+        purposes,
+        previousPurposes: previous,
+        method: 'banner',
+      });
+    }
+  };
+
+  const listenTcf = (odl: PluginContext, api: TcfApi): void => {
+    let listenerId: number | undefined;
+    const callback = (data: TcData, success: boolean): void => {
+      if (!success) return;
+      listenerId = data.listenerId;
+      odl.updateContext(contextKey, {
+        ...(data.tcString !== undefined ? { tcString: data.tcString } : {}),
+        ...(data.gdprApplies !== undefined ? { gdprApplies: data.gdprApplies } : {}),
+      });
+      if (data.gdprApplies === false) {
+        if (nonGdprConsent === 'grant' && !gppConnected) announce(odl, nonGdpr(false));
+        return;
+      }
+      if (data.eventStatus === 'tcloaded' || data.eventStatus === 'useractioncomplete') {
+        announce(
+          odl,
+          decode({
+            purposes: consentedIds(data.purpose?.consents),
+            vendors: consentedIds(data.vendor?.consents),
+          }),
+        );
+      }
+    };
+    api('addEventListener', 2, callback);
+    teardowns.push(() => {
+      if (listenerId !== undefined) api('removeEventListener', 2, () => {}, listenerId);
+    });
+  };
+
+  const listenGpp = (odl: PluginContext, api: GppApi): void => {
+    let listenerId: number | undefined;
+    const callback = (data: GppEventData, success: boolean): void => {
+      if (!success) return;
+      listenerId = data.listenerId;
+      const pingData = data.pingData;
+      if (pingData?.signalStatus !== 'ready') return;
+      odl.updateContext(contextKey, {
+        ...(pingData.gppString !== undefined ? { gppString: pingData.gppString } : {}),
+        ...(pingData.applicableSections !== undefined
+          ? { applicableSections: pingData.applicableSections }
+          : {}),
+      });
+      const consents = gppTcfConsents(pingData);
+      if (consents) {
+        announce(odl, decode(consents));
+      } else if (
+        nonGdprConsent === 'grant' &&
+        !pingData.applicableSections?.includes(GPP_TCF_EU_SECTION)
+      ) {
+        announce(odl, nonGdpr(gppUsOptedOut(pingData)));
+      }
+    };
+    gppConnected = true;
+    api('addEventListener', callback);
+    teardowns.push(() => {
+      if (listenerId !== undefined) api('removeEventListener', () => {}, listenerId);
+    });
+  };
+
+  return {
+    name: 'cmp',
+    dependsOn: ['consent'],
+
+    initialize(odl: PluginContext): void {
+      // Guard: only run in browser environments
+      if (typeof window === 'undefined') return;
+      const cmpWindow = window as CmpWindow;
+
+      let waitingForTcf = useTcf;
+      let waitingForGpp = useGpp;
+      // Connect to the APIs that have loaded; true once none is missing.
+      const connect = (): boolean => {
+        if (waitingForTcf && typeof cmpWindow.__tcfapi === 'function') {
+          waitingForTcf = false;
+          listenTcf(odl, cmpWindow.__tcfapi);
+        }
+        if (waitingForGpp && typeof cmpWindow.__gpp === 'function') {
+          waitingForGpp = false;
+          listenGpp(odl, cmpWindow.__gpp);
+        }
+        return !waitingForTcf && !waitingForGpp;
+      };
+
+      if (connect() || timeout <= 0) return;
+      const stopPolling = odl.scheduler.setInterval(() => {
+        if (connect()) stopPolling();
+      }, POLL_INTERVAL);
+      odl.scheduler.setTimeout(stopPolling, timeout);
+    },
+
+    destroy(): void {
+      for (const teardown of teardowns.splice(0)) teardown();
+    },
+  };
+}
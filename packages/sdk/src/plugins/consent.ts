@@ -0,0 +1,242 @@
+import type { ConsentCategory, ConsentContext } from '@opendatalayer/types';
+import type { ODLEvent } from '../core/event-bus.js';
+import type { ODLPlugin, PluginContext } from './types.js';
+
+/**
+ * The purposes events require, keyed by event name (`"ecommerce.purchase"`)
+ * or namespace (`"ecommerce"`). An event listing several purposes needs all
+ * of them.
+ */
+export type ConsentPurposeMap = Record<string, ConsentCategory | ConsentCategory[]>;
+
+export interface ConsentOptions {
+  /**
+   * Consent state until the user has made a choice (default: `"pending"`,
+   * with every standard category denied, privacy spec §2.3).
+   */
+  defaults?: ConsentContext;
+  /** Purposes required by events, merged over {@link DEFAULT_CONSENT_PURPOSES}. */
+  purposes?: ConsentPurposeMap;
+  /** Purpose required by events without an entry (default: `"analytics"`). */
+  defaultPurpose?: ConsentCategory;
+  /**
+   * Maximum number of events held while consent is pending (default: 100).
+   * Beyond it the oldest are dropped.
+   */
+  queueSize?: number;
+  /** Store the user's choice and restore it on the next page load (default: true). */
+  persist?: boolean;
+}
+
+/**
+ * Namespaces that need a purpose other than the `defaultPurpose`. Consent,
+ * privacy and error events are strictly necessary (privacy spec §2.4, §2.5).
+ */
+export const DEFAULT_CONSENT_PURPOSES: Readonly<ConsentPurposeMap> = {
+  consent: 'necessary',
+  privacy: 'necessary',
+  error: 'necessary',
+  ad: 'marketing',
+  referral: 'marketing',
+  social: 'social_media',
+  experiment: 'functional',
+  feature: 'functional',
+  performance: 'performance',
+};
+
+/** Storage key of the persisted consent state. */
+const STORAGE_KEY = 'state';
+
+/**
+ * Return the purposes `eventName` requires: its own entry, else its
+ * namespace's, else `defaultPurpose`.
+ */
+export function requiredPurposes(
+  eventName: string,
+  purposes: ConsentPurposeMap,
+  defaultPurpose: ConsentCategory,
+): ConsentCategory[] {
+  const namespace = eventName.split('.')[0] ?? '';
+  const required = purposes[eventName] ?? purposes[namespace] ?? defaultPurpose;
+  return Array.isArray(required) ? required : [required];
+}
+
+/**
+ * Whether `consent` covers every purpose in `required`. A purpose without an
+ * entry in `consent.purposes` follows the overall status, and `"necessary"`
+ * is always granted.
+ */
+export function isConsentGranted(
+  consent: ConsentContext | undefined,
+  required: ConsentCategory[],
+): boolean {
+  return required.every(
+    (purpose) =>
+      purpose === 'necessary' ||
+      (consent?.purposes?.[purpose] ?? consent?.status === 'granted') === true,
+  );
+}
+
+/**
+ * Read a purpose map from consent event data, keeping the entries whose
+ * value is a boolean.
+ */
+function purposeEntries(data: Record<string, unknown> | undefined): Array<[string, boolean]> {
+  const purposes = data?.purposes;
+  if (typeof purposes !== 'object' || purposes === null) return [];
+  return Object.entries(purposes).filter(
+    (entry): entry is [string, boolean] => typeof entry[1] === 'boolean',
+  );
+}
+
+/** The purposes of consent event data whose value is `true`. */
+function truePurposes(data: Record<string, unknown> | undefined): string[] {
+  return purposeEntries(data)
+    .filter(([, value]) => value)
+    .map(([purpose]) => purpose);
+}
+
+/**
+ * Compute the consent state that a `consent.*` event records, or `undefined`
+ * for other events.
+ */
+function consentFromEvent(current: ConsentContext, event: ODLEvent): ConsentContext | undefined {
+  const purposes = { ...current.purposes };
+  switch (event.event) {
+    case 'consent.given':
+      for (const [purpose, granted] of purposeEntries(event.data)) purposes[purpose] = granted;
+      break;
+    case 'consent.revoked':
+      for (const purpose of truePurposes(event.data)) purposes[purpose] = false;
+      break;
+    case 'consent.preferences_updated': {
+      const granted = truePurposes(event.data);
+      for (const purpose of Object.keys(purposes)) purposes[purpose] = false;
+      for (const purpose of granted) purposes[purpose] = true;
+      break;
+    }
+    default:
+      return undefined;
+  }
+
+  const method = event.data?.method;
+  return {
+    ...current,
+    status: Object.values(purposes).some(Boolean) ? 'granted' : 'denied',
+    purposes,
+    ...(typeof method === 'string' ? { method: method as ConsentContext['method'] } : {}),
+    ...(typeof event.data?.version === 'string' ? { version: event.data.version } : {}),
+    updatedAt: event.timestamp,
+  };
+}
+
+/**
+ * Plugin that owns `context.consent` and gates events on it (privacy spec §2).
+ *
+ * - On initialisation it sets `context.consent` to the stored choice, or to
+ *   `defaults`. A consent context set before the plugin is registered is
+ *   kept as is.
+ * - `consent.given`, `consent.revoked` and `consent.preferences_updated`
+ *   events update `context.consent`; so can `setContext('consent', ...)`.
+ * - While the status is `"pending"`, events that need consent are held.
+ *   Once it changes they are tracked again, with their original id,
+ *   timestamp and context, if their purposes are granted, and dropped
+ *   otherwise. Plugins ordered before this one see a released event in
+ *   `beforeEvent` a second time.
+ * - Afterwards, events whose purposes are not granted are cancelled.
+ */
+export function consent(options?: ConsentOptions): ODLPlugin {
+  const purposes: ConsentPurposeMap = { ...DEFAULT_CONSENT_PURPOSES, ...options?.purposes };
+  const defaultPurpose = options?.defaultPurpose ?? 'analytics';
+  const queueSize = Math.max(options?.queueSize ?? 100, 0);
+  const persist = options?.persist ?? true;
+  const defaults: ConsentContext = options?.defaults ?? {
+    status: 'pending',
+    purposes: { analytics: false, marketing: false, personalization: false, functional: false },
+  };
+
+  let state: ConsentContext = defaults;
+  let queue: ODLEvent[] = [];
+  // The held event currently being tracked again, until beforeEvent sees it.
+  let releasing: ODLEvent | undefined;
+
+  const release = (odl: PluginContext): void => {
+    for (const held of queue.splice(0)) {
+      if (!isConsentGranted(state, requiredPurposes(held.event, purposes, defaultPurpose))) {
+        continue;
+      }
+      releasing = held;
+      try {
+        odl.track(held.event, held.data, held.customDimensions, { timestamp: held.timestamp });
+      } finally {
+        releasing = undefined;
+      }
+    }
+  };
+
+  return {
+    name: 'consent',
+
+    initialize(odl: PluginContext): void {
+      const current = odl.getContext().consent;
+      const stored = persist ? odl.storage.get<ConsentContext>(STORAGE_KEY) : undefined;
+      state = current ?? stored ?? defaults;
+
+      odl.onContextChange('consent', (change) => {
+        state = (change.next as ConsentContext | undefined) ?? defaults;
+        if (persist && state.status !== 'pending') {
+          odl.storage.set(STORAGE_KEY, state);
+        }
+        if (state.status !== 'pending') {
+          release(odl);
+        }
+      });
+
+      odl.on('consent.*', (event) => {
+        const next = consentFromEvent(state, event);
+        if (next) odl.setContext('consent', next);
+      });
+
+      if (!current) {
+        odl.setContext('consent', state);
+      }
+    },
+
+    beforeEvent(event: ODLEvent): ODLEvent | null {
+      // Match on the timestamp too, so that events tracked while the held
+      // one is released are not taken for it.
+      if (releasing && event.event === releasing.event && event.timestamp === releasing.timestamp) {
+        // Restore the id and context the event was originally tracked with,
+        // apart from the consent it has been released under.
+        const { id, context: original } = releasing;
+        const { consent: _pending, ...context } = original ?? {};
+        releasing = undefined;
+        return {
+          ...event,
+          id,
+          context: {
+            ...context,
+            ...(event.context?.consent !== undefined ? { consent: event.context.consent } : {}),
+          },
+        };
+      }
+
+      const required = requiredPurposes(event.event, purposes, defaultPurpose);
+      if (required.every((purpose) => purpose === 'necessary')) {
+        return event;
+      }
+      if (state.status === 'pending') {
+        queue.push(event);
+        if (queue.length > queueSize) {
+          queue.shift();
+        }
+        return null;
+      }
+      return isConsentGranted(state, required) ? event : null;
+    },
+
+    destroy(): void {
+      queue = [];
+    },
+  };
+}
@@ -0,0 +1,259 @@
+import type { DataLayer } from '../core/data-layer.js';
+import type { ODLEvent } from '../core/event-bus.js';
+import type { ODLContextObject } from '../odl.js';
+import { cloneDeep } from '../utils/clone.js';
+import { isLocalStorageAvailable } from '../utils/storage.js';
+import type {
+  ContextPermission,
+  PluginContext,
+  PluginPermissions,
+  PluginStorage,
+} from './types.js';
+
+/**
+ * A plugin's permissions, compiled for quick checks.
+ */
+export interface PluginAccess {
+  canRead(key: string): boolean;
+  canWrite(key: string): boolean;
+  track: boolean;
+  storage: boolean;
+}
+
+/**
+ * A {@link PluginContext} together with the function that releases what the
+ * plugin acquired through it.
+ */
+export interface PluginContextHandle {
+  context: PluginContext;
+  /** Remove the plugin's subscriptions and context listeners and clear its timers. */
+  dispose(): void;
+}
+
+function compileContextPermission(
+  permission: ContextPermission | undefined,
+): (key: string) => boolean {
+  if (permission === undefined || typeof permission === 'boolean') {
+    const allowed = permission ?? true;
+    return (): boolean => allowed;
+  }
+  const include = permission.include && new Set(permission.include);
+  const exclude = new Set(permission.exclude);
+  return (key: string): boolean => (!include || include.has(key)) && !exclude.has(key);
+}
+
+/**
+ * Compile a plugin's permissions. Without permissions everything is allowed.
+ */
+export function compilePermissions(permissions?: PluginPermissions): PluginAccess {
+  return {
+    canRead: compileContextPermission(permissions?.readContext),
+    canWrite: compileContextPermission(permissions?.writeContext),
+    track: permissions?.track ?? true,
+    storage: permissions?.storage ?? true,
+  };
+}
+
+function filterContext(
+  context: Record<string, unknown>,
+  keep: (key: string) => boolean,
+): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(context).filter(([key]) => keep(key)));
+}
+
+/**
+ * Return `event` without the context keys the plugin may not read. The event
+ * itself is returned when there is nothing to hide.
+ */
+export function redactEvent(event: ODLEvent, access: PluginAccess): ODLEvent {
+  if (!event.context || Object.keys(event.context).every((key) => access.canRead(key))) {
+    return event;
+  }
+  return { ...event, context: filterContext(event.context, access.canRead) };
+}
+
+/**
+ * Put the context keys hidden by {@link redactEvent} back onto an event a
+ * plugin returned from `beforeEvent`.
+ */
+export function restoreHiddenContext(
+  result: ODLEvent,
+  original: ODLEvent,
+  access: PluginAccess,
+): ODLEvent {
+  if (!original.context) {
+    return result;
+  }
+  const hidden = filterContext(original.context, (key) => !access.canRead(key));
+  if (Object.keys(hidden).length === 0) {
+    return result;
+  }
+  return { ...result, context: { ...result.context, ...hidden } };
+}
+
+/**
+ * Storage under `odl:<name>:` in `localStorage`, or in memory where it is
+ * unavailable.
+ */
+function createStorage(name: string, access: PluginAccess): PluginStorage {
+  const prefix = `odl:${name}:`;
+  const memory = new Map<string, string>();
+  const persistent = isLocalStorageAvailable();
+
+  const check = (): void => {
+    if (!access.storage) {
+      throw new Error(`Plugin "${name}" may not use storage`);
+    }
+  };
+  const read = (key: string): string | null =>
+    persistent ? localStorage.getItem(prefix + key) : (memory.get(key) ?? null);
+
+  return {
+    get<T = unknown>(key: string): T | undefined {
+      check();
+      const raw = read(key);
+      if (raw === null) return undefined;
+      try {
+        return JSON.parse(raw) as T;
+      } catch {
+        return undefined;
+      }
+    },
+    set(key: string, value: unknown): void {
+      check();
+      const raw = JSON.stringify(value);
+      if (persistent) {
+        localStorage.setItem(prefix + key, raw);
+      } else {
+        memory.set(key, raw);
+      }
+    },
+    remove(key: string): void {
+      check();
+      if (persistent) {
+        localStorage.removeItem(prefix + key);
+      } else {
+        memory.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Create the context handed to the plugin `name`, backed by `dataLayer` and
+ * limited by `access`.
+ */
+export function createPluginContext(
+  name: string,
+  dataLayer: DataLayer,
+  access: PluginAccess,
+): PluginContextHandle {
+  const releases = new Set<() => void>();
+  const retain = (release: () => void): (() => void) => {
+    const dispose = (): void => {
+      releases.delete(dispose);
+      release();
+    };
+    releases.add(dispose);
+    return dispose;
+  };
+
+  const checkWrite = (key: string): void => {
+    if (!access.canWrite(key)) {
+      throw new Error(`Plugin "${name}" may not write context "${key}"`);
+    }
+  };
+
+  // Report errors thrown by timer callbacks instead of leaving them uncaught.
+  const guard =
+    (callback: () => void): (() => void) =>
+    () => {
+      try {
+        callback();
+      } catch (error) {
+        dataLayer.reportDiagnostic({ origin: 'plugin', error, name });
+      }
+    };
+
+  const prefix = `[ODL ${name}]`;
+
+  const context: PluginContext = {
+    name,
+
+    track(eventName, data, customDimensions, options) {
+      if (!access.track) {
+        throw new Error(`Plugin "${name}" may not track events`);
+      }
+      return redactEvent(dataLayer.push(eventName, data, customDimensions, options), access);
+    },
+
+    on(pattern, handler, options) {
+      // Predicates see events as the handler does, without hidden context.
+      const visible =
+        typeof pattern === 'function'
+          ? (event: ODLEvent) => pattern(redactEvent(event, access))
+          : pattern;
+      return retain(dataLayer.on(visible, (event) => handler(redactEvent(event, access)), options));
+    },
+
+    // Plugins get copies of the context, so only setContext() and
+    // updateContext() can change it.
+    getContext() {
+      return cloneDeep(filterContext(dataLayer.getContext(), access.canRead)) as ODLContextObject;
+    },
+
+    setContext(key, value, options) {
+      checkWrite(key);
+      dataLayer.setContext(key, value, options);
+    },
+
+    updateContext(key, partial, options) {
+      checkWrite(key);
+      dataLayer.updateContext(key, partial, options);
+    },
+
+    onContextChange(key, handler) {
+      if (key !== '*' && !access.canRead(key)) {
+        return () => {};
+      }
+      return retain(
+        dataLayer.onContextChange(key, (change) => {
+          if (access.canRead(change.key)) handler(cloneDeep(change));
+        }),
+      );
+    },
+
+    storage: createStorage(name, access),
+
+    logger: {
+      debug: (...args) => console.debug(prefix, ...args),
+      info: (...args) => console.info(prefix, ...args),
+      warn: (...args) => console.warn(prefix, ...args),
+      error: (...args) => console.error(prefix, ...args),
+    },
+
+    scheduler: {
+      setTimeout(callback, delay) {
+        const cancel = retain(() => clearTimeout(timer));
+        const timer = setTimeout(() => {
+          cancel();
+          guard(callback)();
+        }, delay);
+        return cancel;
+      },
+      setInterval(callback, interval) {
+        const timer = setInterval(guard(callback), interval);
+        return retain(() => clearInterval(timer));
+      },
+    },
+  };
+
+  return {
+    context,
+    dispose() {
+      for (const release of [...releases]) {
+        release();
+      }
+    },
+  };
+}
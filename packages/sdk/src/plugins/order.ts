@@ -0,0 +1,95 @@
+import type { ODLPlugin } from './types.js';
+
+/**
+ * Throw if a plugin in `added` reuses the name of another registered or added
+ * plugin, or depends on a plugin that is neither in `registered` nor in
+ * `added`.
+ */
+export function checkRegistration(registered: ODLPlugin[], added: ODLPlugin[]): void {
+  const names = new Set(registered.map((plugin) => plugin.name));
+  for (const plugin of added) {
+    if (names.has(plugin.name)) {
+      throw new Error(`Plugin "${plugin.name}" is already registered`);
+    }
+    names.add(plugin.name);
+  }
+
+  for (const plugin of added) {
+    for (const dependency of plugin.dependsOn ?? []) {
+      if (!names.has(dependency)) {
+        throw new Error(
+          `Plugin "${plugin.name}" depends on "${dependency}", which is not registered`,
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Find a cycle among the plugins that could not be ordered and format it as
+ * `"a -> b -> a"`.
+ */
+function describeCycle(plugins: ODLPlugin[], successors: Set<number>[], done: boolean[]): string {
+  // Every remaining plugin has a remaining predecessor, so walking backwards
+  // from any of them must eventually revisit one.
+  const path: number[] = [];
+  let current = done.indexOf(false);
+  while (!path.includes(current)) {
+    path.push(current);
+    current = successors.findIndex((targets, i) => !done[i] && targets.has(current));
+  }
+  const cycle = path.slice(path.indexOf(current)).reverse();
+  return [...cycle, cycle[0] as number].map((i) => (plugins[i] as ODLPlugin).name).join(' -> ');
+}
+
+/**
+ * Sort plugins so that every plugin comes after the plugins it depends on or
+ * declares `after`, and before the plugins it declares `before`. Plugins
+ * without constraints between them keep their registration order.
+ *
+ * `before` and `after` entries naming unregistered plugins are ignored.
+ *
+ * @throws If the constraints form a cycle.
+ */
+export function orderPlugins(plugins: ODLPlugin[]): ODLPlugin[] {
+  const indexes = new Map<string, number[]>();
+  plugins.forEach((plugin, i) => {
+    indexes.set(plugin.name, [...(indexes.get(plugin.name) ?? []), i]);
+  });
+
+  // successors[i] holds the plugins that must come after plugin i.
+  const successors: Set<number>[] = plugins.map(() => new Set());
+  plugins.forEach((plugin, i) => {
+    for (const name of [...(plugin.dependsOn ?? []), ...(plugin.after ?? [])]) {
+      for (const j of indexes.get(name) ?? []) {
+        if (j !== i) successors[j]?.add(i);
+      }
+    }
+    for (const name of plugin.before ?? []) {
+      for (const j of indexes.get(name) ?? []) {
+        if (j !== i) successors[i]?.add(j);
+      }
+    }
+  });
+
+  const inDegree = plugins.map(() => 0);
+  for (const targets of successors) {
+    for (const j of targets) inDegree[j] = (inDegree[j] ?? 0) + 1;
+  }
+
+  // Kahn's algorithm, always taking the earliest registered ready plugin.
+  const ordered: ODLPlugin[] = [];
+  const done = plugins.map(() => false);
+  while (ordered.length < plugins.length) {
+    const next = inDegree.findIndex((degree, i) => degree === 0 && !done[i]);
+    if (next === -1) {
+      throw new Error(`Plugin dependency cycle: ${describeCycle(plugins, successors, done)}`);
+    }
+    done[next] = true;
+    ordered.push(plugins[next] as ODLPlugin);
+    for (const j of successors[next] ?? []) {
+      inDegree[j] = (inDegree[j] ?? 0) - 1;
+    }
+  }
+  return ordered;
+}
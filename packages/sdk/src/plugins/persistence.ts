@@ -1,6 +1,6 @@
-import type { DataLayer } from '../core/data-layer.js';
 import type { ODLEvent } from '../core/event-bus.js';
-import type { ODLPlugin } from './types.js';
+import { isLocalStorageAvailable } from '../utils/storage.js';
+import type { ODLPlugin, PluginContext } from './types.js';
 
 export interface PersistenceOptions {
   /** localStorage key used to store events (default: `"odl_events"`). */
@@ -9,30 +9,11 @@ export interface PersistenceOptions {
   maxEvents?: number;
 }
 
-/**
- * Check whether `localStorage` is available and functional.
- * Handles cases where the API exists but throws (e.g. Safari private mode,
- * SSR environments, restrictive CSP).
- */
-function isLocalStorageAvailable(): boolean {
-  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-    return false;
-  }
-  try {
-    const testKey = '__odl_ls_test__';
-    localStorage.setItem(testKey, '1');
-    localStorage.removeItem(testKey);
-    return true;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Plugin that persists events to `localStorage`.
  *
  * - On initialisation, previously stored events are restored into the data layer
- *   (via direct push — they will pass through middleware again if any is configured).
+ *   (via `track` — they will pass through middleware again if any is configured).
  * - After each new event, the full event array is serialised to localStorage,
  *   capped at `maxEvents` (oldest events are discarded first).
  * - Gracefully degrades to a no-op in non-browser / restricted environments.
@@ -46,7 +27,7 @@ export function persistence(options?: PersistenceOptions): ODLPlugin {
   return {
     name: 'persistence',
 
-    initialize(_odl: DataLayer): void {
+    initialize(odl: PluginContext): void {
       available = isLocalStorageAvailable();
       if (!available) {
         return;
@@ -61,7 +42,7 @@ export function persistence(options?: PersistenceOptions): ODLPlugin {
             // Re-push each event so it flows through normal processing
             for (const event of stored) {
               if (event.event) {
-                _odl.push(event.event, event.data, event.customDimensions);
+                odl.track(event.event, event.data, event.customDimensions);
               }
             }
           }
@@ -0,0 +1,262 @@
+import type { ODLEvent } from '../core/event-bus.js';
+import { DEFAULT_PII_FIELDS } from '../utils/sanitize.js';
+import { sha256 } from '../utils/sha256.js';
+import type { ODLPlugin } from './types.js';
+
+/**
+ * What to do with PII: remove it, replace it with the mask, or replace it
+ * with its SHA-256 hash.
+ */
+export type PiiAction = 'drop' | 'mask' | 'hash';
+
+/** A built-in value detector, or a pattern of your own. */
+export type PiiDetector = 'email' | 'phone' | 'card' | RegExp;
+
+/** The parts of an event the guard looks at. */
+export type PiiScope = 'data' | 'context' | 'customDimensions';
+
+export interface PiiGuardOptions {
+  /**
+   * Field names treated as PII wherever they appear, compared
+   * case-insensitively (default: the `stripPII` list).
+   */
+  fields?: readonly string[];
+  /** What to do with PII fields (default: `"drop"`). */
+  action?: PiiAction;
+  /**
+   * Actions for paths such as `"context.user.traits.email"`, where `*`
+   * matches one key or array index. They take precedence over `fields` and
+   * detection, and `"keep"` leaves a value untouched. The first matching
+   * rule wins.
+   */
+  rules?: Record<string, PiiAction | 'keep'>;
+  /**
+   * Patterns to look for in string values (default: `["email", "phone",
+   * "card"]`), or `false` to only act on fields and rules.
+   */
+  detect?: PiiDetector[] | false;
+  /**
+   * What to do with detected values: mask or hash the matches within the
+   * string, or drop the whole value (default: `"mask"`).
+   */
+  detectAction?: PiiAction;
+  /** Event parts to guard (default: all). */
+  scopes?: PiiScope[];
+  /** Replacement for masked values (default: `"[REDACTED]"`). */
+  mask?: string;
+  /**
+   * Prepended to values before hashing. Leave it unset when hashes must
+   * match those of other systems (privacy spec §4.3).
+   */
+  salt?: string;
+  /**
+   * Appended to the names of hashed fields, e.g. `email` becomes
+   * `emailHash`, or `false` to keep the name (default: `"Hash"`).
+   */
+  hashSuffix?: string | false;
+}
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Numbers in international format, e.g. "+4915112345678" or "+1 (555) 123-4567",
+// or with a parenthesised area code, e.g. "(555) 123-4567". Plain groups of
+// digits such as "123-456-789" are too often IDs, sizes or dates to count.
+const PHONE_PATTERN =
+  /(?<![\w+(])(?:\+\d{8,15}|\+\d{1,3}(?:[\s.-]?\(\d{1,4}\))?(?:[\s.-]\d{1,8}){1,5}|\(\d{2,4}\)[\s.-]?\d{2,5}(?:[\s.-]\d{2,5}){0,3})(?!\w)/g;
+
+const CARD_PATTERN = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+
+/** Whether a string of digits passes the Luhn checksum used by card numbers. */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+interface CompiledDetector {
+  pattern: RegExp;
+  /** Rejects matches that only look like PII. */
+  accept(match: string): boolean;
+}
+
+function compileDetector(detector: PiiDetector): CompiledDetector {
+  const digitCount = (match: string): number => match.replace(/\D/g, '').length;
+  switch (detector) {
+    case 'email':
+      return { pattern: EMAIL_PATTERN, accept: () => true };
+    case 'phone':
+      return {
+        pattern: PHONE_PATTERN,
+        // Without a country code, only numbers with a full area code count.
+        accept: (match) =>
+          digitCount(match) >= (match.startsWith('+') ? 9 : 10) && digitCount(match) <= 15,
+      };
+    case 'card':
+      return { pattern: CARD_PATTERN, accept: (match) => isLuhnValid(match.replace(/\D/g, '')) };
+    default:
+      return {
+        pattern: new RegExp(
+          detector.source,
+          detector.flags.includes('g') ? detector.flags : `${detector.flags}g`,
+        ),
+        accept: () => true,
+      };
+  }
+}
+
+/**
+ * Find the PII in a string. Overlapping matches are merged.
+ *
+ * @returns The `[start, end)` ranges of the matches, in order.
+ */
+function detect(value: string, detectors: CompiledDetector[]): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+  for (const { pattern, accept } of detectors) {
+    for (const match of value.matchAll(pattern)) {
+      if (match[0].length > 0 && accept(match[0])) {
+        ranges.push([match.index, match.index + match[0].length]);
+      }
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] < last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/** Marks a value the guard removes. */
+const DROPPED = Symbol('dropped');
+
+/**
+ * Plugin that removes, masks or hashes personally identifiable information
+ * in events before they are stored or delivered (privacy spec §4).
+ *
+ * - Fields named in `fields` are handled with `action`, at any depth and
+ *   inside arrays.
+ * - Path `rules` override that for individual values.
+ * - String values are scanned for email addresses, phone numbers (in
+ *   international format or with a parenthesised area code) and card
+ *   numbers (checked with Luhn), and the matches handled with
+ *   `detectAction`.
+ *
+ * Hashes are the SHA-256 of the trimmed, lower-cased value. The guard runs in
+ * `beforeEvent`, so plugins ordered after it may still add PII.
+ */
+export function piiGuard(options?: PiiGuardOptions): ODLPlugin {
+  const fields = new Set((options?.fields ?? DEFAULT_PII_FIELDS).map((f) => f.toLowerCase()));
+  const action = options?.action ?? 'drop';
+  const detectAction = options?.detectAction ?? 'mask';
+  const scopes = options?.scopes ?? ['data', 'context', 'customDimensions'];
+  const mask = options?.mask ?? '[REDACTED]';
+  const salt = options?.salt ?? '';
+  const hashSuffix = options?.hashSuffix ?? 'Hash';
+  const detectors =
+    options?.detect === false
+      ? []
+      : (options?.detect ?? ['email', 'phone', 'card']).map(compileDetector);
+  const rules = Object.entries(options?.rules ?? {}).map(([path, ruleAction]) => ({
+    segments: path.split('.'),
+    action: ruleAction,
+  }));
+
+  const ruleFor = (path: string[]): PiiAction | 'keep' | undefined =>
+    rules.find(
+      ({ segments }) =>
+        segments.length === path.length &&
+        segments.every((segment, i) => segment === '*' || segment === path[i]),
+    )?.action;
+
+  const hash = (value: string | number | boolean): string =>
+    sha256(salt + String(value).trim().toLowerCase());
+
+  // Apply an action to a whole value.
+  const apply = (value: unknown, valueAction: PiiAction): unknown => {
+    if (valueAction === 'mask') return mask;
+    if (
+      valueAction === 'hash' &&
+      (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+    ) {
+      return hash(value);
+    }
+    return DROPPED;
+  };
+
+  const guardString = (value: string): unknown => {
+    const ranges = detect(value, detectors);
+    if (ranges.length === 0) return value;
+    if (detectAction === 'drop') return DROPPED;
+
+    let result = '';
+    let position = 0;
+    for (const [start, end] of ranges) {
+      const match = value.slice(start, end);
+      result += value.slice(position, start) + (detectAction === 'hash' ? hash(match) : mask);
+      position = end;
+    }
+    return result + value.slice(position);
+  };
+
+  const guard = (value: unknown, path: string[]): unknown => {
+    if (typeof value === 'string') {
+      return guardString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap((item, i) => {
+        const itemPath = [...path, String(i)];
+        const itemAction = ruleFor(itemPath);
+        if (itemAction === 'keep') return [item];
+        const result = itemAction ? apply(item, itemAction) : guard(item, itemPath);
+        return result === DROPPED ? [] : [result];
+      });
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      const nestedPath = [...path, key];
+      const nestedAction =
+        ruleFor(nestedPath) ?? (fields.has(key.toLowerCase()) ? action : undefined);
+      if (nestedAction === 'keep') {
+        result[key] = nested;
+        continue;
+      }
+      const guarded = nestedAction ? apply(nested, nestedAction) : guard(nested, nestedPath);
+      if (guarded === DROPPED) continue;
+      const renamed = nestedAction === 'hash' && hashSuffix !== false;
+      result[renamed ? `${key}${hashSuffix}` : key] = guarded;
+    }
+    return result;
+  };
+
+  return {
+    name: 'pii-guard',
+
+    beforeEvent(event: ODLEvent): ODLEvent {
+      const guarded: ODLEvent = { ...event };
+      for (const scope of scopes) {
+        const part = event[scope];
+        if (part !== undefined) {
+          (guarded as unknown as Record<string, unknown>)[scope] = guard(part, [scope]);
+        }
+      }
+      return guarded;
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import type { ConsentCategory, ConsentContext } from '@opendatalayer/types';
+import type { ODLPlugin, PluginContext } from './types.js';
+
+export interface PrivacySignalsOptions {
+  /**
+   * Purposes an opt-out signal denies (default:
+   * {@link DEFAULT_OPT_OUT_PURPOSES}).
+   */
+  optOutPurposes?: ConsentCategory[];
+  /**
+   * Treat Do Not Track as an opt-out, like GPC (default: false; the signal is
+   * only recorded in `consent.doNotTrack`).
+   */
+  doNotTrack?: boolean;
+  /**
+   * Region of the visitor as an ISO 3166 code, e.g. `"US-CA"`. Defaults to
+   * `location.country` and `location.region` from the context.
+   */
+  region?: string;
+  /**
+   * Regions in which signals opt out, e.g. `["US-CA", "US-CO"]`. A country
+   * code covers its subdivisions. By default, and whenever the visitor's
+   * region is unknown, signals opt out everywhere.
+   */
+  regions?: string[];
+}
+
+/**
+ * Purposes a GPC signal opts out of: the sale and sharing of personal data
+ * (privacy spec §7.3, §7.4).
+ */
+export const DEFAULT_OPT_OUT_PURPOSES: readonly ConsentCategory[] = [
+  'marketing',
+  'personalization',
+  'advertising',
+];
+
+interface Signals {
+  gpc: boolean;
+  doNotTrack: boolean;
+}
+
+/** Read the browser's privacy signals; both are off outside the browser. */
+function readSignals(): Signals {
+  if (typeof navigator === 'undefined') {
+    return { gpc: false, doNotTrack: false };
+  }
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  return { gpc: nav.globalPrivacyControl === true, doNotTrack: nav.doNotTrack === '1' };
+}
+
+/** Whether `region` is one of `regions` or a subdivision of one. */
+function inRegions(region: string, regions: string[]): boolean {
+  const code = region.toUpperCase();
+  return regions.some((entry) => {
+    const prefix = entry.toUpperCase();
+    return code === prefix || code.startsWith(`${prefix}-`);
+  });
+}
+
+/**
+ * Whether the user has made a choice of their own, which takes precedence
+ * over signals (privacy spec §7.3).
+ */
+function isExplicit(consent: ConsentContext | undefined): boolean {
+  return (
+    (consent?.status === 'granted' || consent?.status === 'denied') && consent.method !== 'implicit'
+  );
+}
+
+/**
+ * Plugin that applies Global Privacy Control and Do Not Track to
+ * `context.consent` (privacy spec §7).
+ *
+ * - It records `navigator.globalPrivacyControl` in `consent.gpcEnabled` and
+ *   `navigator.doNotTrack` in `consent.doNotTrack`.
+ * - While the user has made no explicit choice (the status is `"pending"`,
+ *   or consent was implied), an opt-out signal denies the
+ *   `optOutPurposes`. An explicit choice is left as it is, so the user can
+ *   grant those purposes in spite of GPC.
+ * - Signals are re-applied whenever `context.consent` changes.
+ *
+ * Register it together with the `consent` plugin, which it runs after, so
+ * that it applies to the restored or default consent state.
+ */
+export function privacySignals(options?: PrivacySignalsOptions): ODLPlugin {
+  const optOutPurposes = options?.optOutPurposes ?? DEFAULT_OPT_OUT_PURPOSES;
+  const honourDoNotTrack = options?.doNotTrack ?? false;
+
+  const resolveRegion = (odl: PluginContext): string | undefined => {
+    if (options?.region !== undefined) return options.region;
+    const location = odl.getContext().location;
+    if (location?.country === undefined) return undefined;
+    return location.region !== undefined
+      ? `${location.country}-${location.region}`
+      : location.country;
+  };
+
+  // The update to `context.consent` the signals call for, if any.
+  const signalUpdate = (
+    odl: PluginContext,
+    signals: Signals,
+    optingOut: boolean,
+  ): ConsentContext | undefined => {
+    const current = odl.getContext().consent;
+    const region = resolveRegion(odl);
+    const update: ConsentContext = {};
+
+    if (current?.gpcEnabled !== signals.gpc) update.gpcEnabled = signals.gpc;
+    if (current?.doNotTrack !== signals.doNotTrack) update.doNotTrack = signals.doNotTrack;
+
+    const applies =
+      region === undefined || options?.regions === undefined || inRegions(region, options.regions);
+    if (optingOut && applies && !isExplicit(current)) {
+      const denied = optOutPurposes.filter((purpose) => current?.purposes?.[purpose] !== false);
+      if (denied.length > 0) {
+        update.purposes = Object.fromEntries(denied.map((purpose) => [purpose, false]));
+      }
+    }
+    return Object.keys(update).length > 0 ? update : undefined;
+  };
+
+  return {
+    name: 'privacy-signals',
+    after: ['consent'],
+
+    initialize(odl: PluginContext): void {
+      const signals = readSignals();
+      const optingOut = signals.gpc || (honourDoNotTrack && signals.doNotTrack);
+
+      const apply = (): void => {
+        const update = signalUpdate(odl, signals, optingOut);
+        if (update) odl.updateContext('consent', update as Record<string, unknown>);
+      };
+
+      if (optingOut) {
+        // Kept for compliance auditing (privacy spec §7.3).
+        odl.logger.info(
+          `${signals.gpc ? 'Global Privacy Control' : 'Do Not Track'} signal detected`,
+        );
+      }
+      odl.onContextChange('consent', apply);
+      apply();
+    },
+  };
+}
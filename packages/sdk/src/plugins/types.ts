@@ -1,37 +1,184 @@
-import type { DataLayer } from '../core/data-layer.js';
-import type { ODLEvent } from '../core/event-bus.js';
+import type { ConsentCategory, ODLRuntimePlugin } from '@opendatalayer/types';
+import type { ContextChange, ContextSetOptions } from '../core/context-manager.js';
+import type { PushOptions } from '../core/data-layer.js';
+import type { ODLEvent, SubscribeOptions } from '../core/event-bus.js';
+import type { EventPattern } from '../core/pattern.js';
+import type { ODLContextObject } from '../odl.js';
 
 /**
  * Plugin interface for extending OpenDataLayer behaviour.
  *
- * All methods are optional except `name`.
+ * All methods are optional except `name`. `initialize` receives a
+ * {@link PluginContext}; see `ODLRuntimePlugin` in `@opendatalayer/types`
+ * for the hooks. Adapters implement the same interface without depending on
+ * the SDK.
  */
-export interface ODLPlugin {
-  /** Unique plugin identifier. */
-  name: string;
+export type ODLPlugin = ODLRuntimePlugin<PluginContext>;
+
+/**
+ * The capabilities a plugin receives in `initialize`, limited by its
+ * {@link PluginPermissions}.
+ *
+ * Subscriptions, context listeners and timers created through it are
+ * released when the plugin is removed or the instance destroyed.
+ */
+export interface PluginContext {
+  /** Name of the plugin the context was created for. */
+  readonly name: string;
+
+  /**
+   * Track an event through the full pipeline, including other plugins'
+   * hooks. Plugins relay arbitrary events, so names and data are not checked
+   * against `ODLEventMap`. `options.timestamp` keeps the original time of an
+   * event that was held back. The returned event hides the context keys the
+   * plugin may not read.
+   *
+   * @throws If the plugin may not track events.
+   */
+  track(
+    eventName: string,
+    data?: Record<string, unknown>,
+    customDimensions?: Record<string, string | number | boolean>,
+    options?: PushOptions,
+  ): ODLEvent;
+
+  /**
+   * Subscribe to events matching a pattern, as with `OpenDataLayer.on()`.
+   *
+   * @returns An unsubscribe function.
+   */
+  on(
+    pattern: EventPattern,
+    handler: (event: ODLEvent) => void,
+    options?: SubscribeOptions,
+  ): () => void;
+
+  /** A copy of the current context, without the keys the plugin may not read. */
+  getContext(): ODLContextObject;
 
   /**
-   * Called once when the plugin is registered with an OpenDataLayer instance.
-   * Use this to set up subscriptions, add middleware, or read initial state.
+   * Set a context key, as with `OpenDataLayer.setContext()`.
+   *
+   * @throws If the plugin may not write `key`.
    */
-  initialize?(odl: DataLayer): void;
+  setContext(key: string, value: unknown, options?: ContextSetOptions): void;
 
   /**
-   * Called **before** an event is stored and emitted.
+   * Deep-merge `partial` into a context key.
    *
-   * - Return the (optionally modified) event to allow it through.
-   * - Return `null` to **cancel** the event entirely.
+   * @throws If the plugin may not write `key`.
+   */
+  updateContext(key: string, partial: Record<string, unknown>, options?: ContextSetOptions): void;
+
+  /**
+   * Subscribe to changes of a context key, or of every key the plugin may
+   * read with `"*"`. Handlers receive a copy of the change.
+   *
+   * @returns An unsubscribe function.
+   */
+  onContextChange(key: string, handler: (change: ContextChange) => void): () => void;
+
+  /** Key/value storage private to the plugin. */
+  readonly storage: PluginStorage;
+
+  /** Console logger prefixed with the plugin name. */
+  readonly logger: PluginLogger;
+
+  /** Timers whose callbacks' errors are reported as diagnostics. */
+  readonly scheduler: PluginScheduler;
+}
+
+/**
+ * Storage private to a plugin. Values are serialised as JSON into
+ * `localStorage` under `odl:<plugin name>:<key>`, or kept in memory where
+ * `localStorage` is unavailable.
+ *
+ * Every method throws if the plugin may not use storage.
+ */
+export interface PluginStorage {
+  /** Return the stored value, or `undefined` if there is none. */
+  get<T = unknown>(key: string): T | undefined;
+  set(key: string, value: unknown): void;
+  remove(key: string): void;
+}
+
+/**
+ * Logger handed to plugins. Messages are prefixed with `[ODL <plugin name>]`.
+ */
+export interface PluginLogger {
+  debug(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Timers handed to plugins. Both methods return a function that cancels the
+ * timer.
+ */
+export interface PluginScheduler {
+  setTimeout(callback: () => void, delay: number): () => void;
+  setInterval(callback: () => void, interval: number): () => void;
+}
+
+/**
+ * Context keys a plugin may access: `true` for every key, `false` for none,
+ * or lists of keys to allow (`include`) or deny (`exclude`).
+ */
+export type ContextPermission = boolean | { include?: string[]; exclude?: string[] };
+
+/**
+ * What a plugin may do through its {@link PluginContext}. Everything is
+ * allowed by default.
+ */
+export interface PluginPermissions {
+  /**
+   * Context keys the plugin may read. Other keys are also removed from the
+   * events its hooks and subscriptions receive.
    */
-  beforeEvent?(event: ODLEvent): ODLEvent | null;
+  readContext?: ContextPermission;
+  /** Context keys the plugin may set or update. */
+  writeContext?: ContextPermission;
+  /** Whether the plugin may track events. */
+  track?: boolean;
+  /** Whether the plugin may use {@link PluginContext.storage}. */
+  storage?: boolean;
+}
 
+/**
+ * Description of a registered plugin, as returned by
+ * `OpenDataLayer.getPlugins()`.
+ */
+export interface PluginInfo {
+  name: string;
   /**
-   * Called **after** an event has been stored and emitted.
+   * `"initializing"` while an async `initialize` is pending, `"failed"` if it
+   * rejected.
    */
-  afterEvent?(event: ODLEvent): void;
+  status: 'initializing' | 'ready' | 'failed';
+  dependsOn: string[];
+  before: string[];
+  after: string[];
+  requiresConsent: ConsentCategory[];
+  /** Number of events held until the plugin is ready. */
+  buffered: number;
+}
 
+/**
+ * Events withheld from a plugin's `afterEvent` because their consent did not
+ * grant its `requiresConsent` purposes, as returned by
+ * `OpenDataLayer.getConsentReport()`.
+ */
+export interface PluginConsentReport {
+  name: string;
+  requiresConsent: ConsentCategory[];
+  /** Number of events withheld. */
+  suppressed: number;
+  /** Withheld events counted by event name. */
+  events: Record<string, number>;
   /**
-   * Called when the OpenDataLayer instance is destroyed. Clean up any
-   * listeners, intervals, or external resources here.
+   * Withheld events counted by the purpose that was not granted. An event
+   * missing several purposes counts towards each of them.
    */
-  destroy?(): void;
+  purposes: Record<string, number>;
 }
@@ -0,0 +1,95 @@
+import type { ODLEvent } from './core/event-bus.js';
+
+/**
+ * Inline snippet implementing the "push before ready" queue pattern
+ * (transport spec §2.3).
+ *
+ * Paste it into a `<script>` tag ahead of any tracking code. It defines
+ * `window.odl` as an array and adds `track`, `setContext` and `updateContext`
+ * stubs that record each call together with the time it was made. Once the
+ * SDK loads, {@link OpenDataLayer.attachQueue} replays the recorded calls.
+ *
+ * Plain event objects (`window.odl.push({ event, data })`) are accepted too.
+ */
+export const QUEUE_SNIPPET =
+  "window.odl=window.odl||[];(function(q){['track','setContext','updateContext'].forEach(function(m){q[m]=q[m]||function(){q.push({method:m,args:[].slice.call(arguments),timestamp:new Date().toISOString()})}})})(window.odl);";
+
+/**
+ * A plain event object pushed onto the queue, as described by the spec.
+ */
+export interface ODLQueuedEvent {
+  event: string;
+  data?: Record<string, unknown>;
+  customDimensions?: Record<string, string | number | boolean>;
+  /** When the event happened. Defaults to the time the queue is drained. */
+  timestamp?: string;
+}
+
+/**
+ * A method call recorded by the {@link QUEUE_SNIPPET} stubs.
+ */
+export interface ODLQueuedCommand {
+  method: 'track' | 'setContext' | 'updateContext';
+  args: unknown[];
+  /** When the call was made. */
+  timestamp?: string;
+}
+
+/**
+ * Anything that may sit in the pre-load queue.
+ */
+export type ODLQueueItem = ODLQueuedEvent | ODLQueuedCommand;
+
+/**
+ * The global queue once the SDK is attached: the snippet's array with its
+ * methods replaced, or a new object if there was no queue.
+ *
+ * It keeps the array-style `push` so that snippet-era code keeps working,
+ * but processes every pushed item immediately.
+ */
+export interface ODLQueueProxy {
+  /** Process queue items immediately. Returns the number of items pushed. */
+  push(...items: ODLQueueItem[]): number;
+  track(
+    eventName: string,
+    data?: Record<string, unknown>,
+    customDimensions?: Record<string, string | number | boolean>,
+  ): ODLEvent;
+  setContext(key: string, value: unknown): void;
+  updateContext(key: string, partial: Record<string, unknown>): void;
+}
+
+/**
+ * Options for {@link OpenDataLayer.attachQueue}.
+ */
+export interface AttachQueueOptions {
+  /** Name of the global holding the queue (default: `"odl"`). */
+  name?: string;
+  /** Object the global lives on (default: `globalThis`). */
+  target?: Record<string, unknown>;
+}
+
+/**
+ * Check whether a queue entry is a recorded method call.
+ */
+export function isQueuedCommand(item: unknown): item is ODLQueuedCommand {
+  if (typeof item !== 'object' || item === null) {
+    return false;
+  }
+  const { method, args } = item as Record<string, unknown>;
+  return (
+    (method === 'track' || method === 'setContext' || method === 'updateContext') &&
+    Array.isArray(args)
+  );
+}
+
+/**
+ * Check whether a queue entry is a plain event object.
+ */
+export function isQueuedEvent(item: unknown): item is ODLQueuedEvent {
+  return (
+    typeof item === 'object' &&
+    item !== null &&
+    typeof (item as Record<string, unknown>).event === 'string'
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * Deep-clone a context value, following structured-clone semantics for the
+ * types context is made of, without a serialisation round-trip:
+ *
+ * - Plain objects and arrays are copied recursively. `undefined` values are
+ *   kept, and cycles and shared references are preserved.
+ * - `Date`, `RegExp`, `Map` and `Set` are copied (map and set contents are
+ *   cloned too).
+ * - Primitives and functions are returned as-is.
+ * - Any other object (class instances, typed arrays, DOM nodes) is shared by
+ *   reference rather than copied or rejected.
+ */
+export function cloneDeep<T>(value: T): T {
+  return cloneValue(value, new Map()) as T;
+}
+
+function cloneValue(value: unknown, seen: Map<object, unknown>): unknown {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  const existing = seen.get(value);
+  if (existing !== undefined) {
+    return existing;
+  }
+
+  if (Array.isArray(value)) {
+    const copy: unknown[] = new Array(value.length);
+    seen.set(value, copy);
+    for (let i = 0; i < value.length; i++) {
+      copy[i] = cloneValue(value[i], seen);
+    }
+    return copy;
+  }
+
+  const proto = Object.getPrototypeOf(value) as unknown;
+  if (proto === Object.prototype || proto === null) {
+    const copy: Record<string, unknown> = proto === null ? Object.create(null) : {};
+    seen.set(value, copy);
+    for (const key of Object.keys(value)) {
+      copy[key] = cloneValue((value as Record<string, unknown>)[key], seen);
+    }
+    return copy;
+  }
+
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof RegExp) {
+    return new RegExp(value.source, value.flags);
+  }
+  if (value instanceof Map) {
+    const copy = new Map<unknown, unknown>();
+    seen.set(value, copy);
+    for (const [key, item] of value) {
+      copy.set(cloneValue(key, seen), cloneValue(item, seen));
+    }
+    return copy;
+  }
+  if (value instanceof Set) {
+    const copy = new Set<unknown>();
+    seen.set(value, copy);
+    for (const item of value) {
+      copy.add(cloneValue(item, seen));
+    }
+    return copy;
+  }
+
+  return value;
+}
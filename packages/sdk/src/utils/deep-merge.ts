@@ -1,7 +1,7 @@
 /**
  * Check whether a value is a plain object (not an array, null, Date, RegExp, etc.).
  */
-function isPlainObject(value: unknown): value is Record<string, unknown> {
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
   if (typeof value !== 'object' || value === null) {
     return false;
   }
@@ -0,0 +1,58 @@
+import { isPlainObject } from './deep-merge.js';
+
+/**
+ * A single difference between two values, as reported by {@link diff}.
+ */
+export interface DiffEntry {
+  /** Dot-separated path of the changed value, e.g. `"user.traits.email"`. */
+  path: string;
+  /** The value before the change (`undefined` if it was added). */
+  previous: unknown;
+  /** The value after the change (`undefined` if it was removed). */
+  next: unknown;
+}
+
+/**
+ * Structural equality for context values.
+ *
+ * Plain objects and arrays are compared recursively, dates by time; any
+ * other value is compared by identity.
+ */
+export function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]));
+  }
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.hasOwn(b, key) && isEqual(a[key], b[key]))
+    );
+  }
+  return false;
+}
+
+/**
+ * List the differences between two values, descending into plain objects.
+ *
+ * Arrays and other non-plain values are reported as a whole when they
+ * differ, matching the way context updates replace them (context-objects
+ * spec §2.4).
+ */
+export function diff(previous: unknown, next: unknown, path = ''): DiffEntry[] {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const entries: DiffEntry[] = [];
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const key of keys) {
+      entries.push(...diff(previous[key], next[key], path ? `${path}.${key}` : key));
+    }
+    return entries;
+  }
+  return isEqual(previous, next) ? [] : [{ path, previous, next }];
+}
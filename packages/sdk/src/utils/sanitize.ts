@@ -1,7 +1,7 @@
 /**
  * Default fields considered to be PII (Personally Identifiable Information).
  */
-const DEFAULT_PII_FIELDS: readonly string[] = [
+export const DEFAULT_PII_FIELDS: readonly string[] = [
   'email',
   'emailAddress',
   'email_address',
@@ -54,8 +54,8 @@ export function sanitizeString(str: string, maxLength = 1000): string {
  * Remove PII fields from a shallow copy of the given object.
  *
  * The comparison is case-insensitive: both the object keys and the PII field
- * list are lower-cased before matching. Nested objects are processed
- * recursively.
+ * list are lower-cased before matching. Nested objects, including objects
+ * inside arrays, are processed recursively.
  *
  * @param obj - The source object.
  * @param piiFields - Optional list of field names to strip (defaults to a
@@ -64,26 +64,29 @@ export function sanitizeString(str: string, maxLength = 1000): string {
  */
 export function stripPII(
   obj: Record<string, unknown>,
-  piiFields?: string[],
+  piiFields?: readonly string[],
 ): Record<string, unknown> {
-  const fields = piiFields ?? (DEFAULT_PII_FIELDS as unknown as string[]);
+  const fields = piiFields ?? DEFAULT_PII_FIELDS;
   const lowerFields = new Set(fields.map((f) => f.toLowerCase()));
 
-  const result: Record<string, unknown> = {};
-
-  for (const [key, value] of Object.entries(obj)) {
-    if (lowerFields.has(key.toLowerCase())) {
-      // Skip PII field
-      continue;
+  const strip = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(strip);
+    }
+    if (value === null || typeof value !== 'object') {
+      return value;
     }
 
-    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
-      // Recursively strip nested objects
-      result[key] = stripPII(value as Record<string, unknown>, piiFields);
-    } else {
-      result[key] = value;
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(value)) {
+      if (lowerFields.has(key.toLowerCase())) {
+        // Skip PII field
+        continue;
+      }
+      result[key] = strip(nested);
     }
-  }
+    return result;
+  };
 
-  return result;
+  return strip(obj) as Record<string, unknown>;
 }
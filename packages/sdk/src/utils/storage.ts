@@ -0,0 +1,18 @@
+/**
+ * Check whether `localStorage` is available and functional.
+ * Handles cases where the API exists but throws (e.g. Safari private mode,
+ * SSR environments, restrictive CSP).
+ */
+export function isLocalStorageAvailable(): boolean {
+  if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+    return false;
+  }
+  try {
+    const testKey = '__odl_ls_test__';
+    localStorage.setItem(testKey, '1');
+    localStorage.removeItem(testKey);
+    return true;
+  } catch {
+    return false;
+  }
+}
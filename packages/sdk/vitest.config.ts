@@ -1,2 +1,11 @@
 import { defineConfig } from 'vitest/config';
-export default defineConfig({ test: { globals: true } });
+export default defineConfig({
+  test: {
+    globals: true,
+    typecheck: {
+      enabled: true,
+      include: ['src/**/*.test-d.ts'],
+      tsconfig: './tsconfig.test.json',
+    },
+  },
+});
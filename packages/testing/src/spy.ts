@@ -2,15 +2,10 @@
  * ODL Spy - captures events in tests for assertions.
  */
 
-export interface CapturedEvent {
-  event: string;
-  id: string;
-  timestamp: string;
-  specVersion: string;
-  context?: Record<string, unknown>;
-  data?: Record<string, unknown>;
-  customDimensions?: Record<string, string | number | boolean>;
-}
+import type { ODLRuntimeEvent } from '@opendatalayer/types';
+
+/** An event recorded by {@link ODLSpy}: the same shape the SDK emits. */
+export type CapturedEvent = ODLRuntimeEvent;
 
 /**
  * Convert a wildcard pattern (e.g. "ecommerce.*") into a RegExp.
@@ -0,0 +1,1074 @@
+// Auto-generated from JSON schemas. Do not edit manually.
+// Generated by scripts/generate-types.ts
+
+import type {
+  AccountCreatedData,
+  AccountDeletedData,
+  AccountReactivatedData,
+  AccountSeatAddedData,
+  AccountSeatRemovedData,
+  AccountSettingsUpdatedData,
+  AccountSuspendedData,
+  AccountTeamMemberAddedData,
+  AdBlockedData,
+  AdClickedData,
+  AdConversionData,
+  AdImpressionData,
+  AdRevenueEarnedData,
+  AiConversationStartedData,
+  AiFeedbackGivenData,
+  AiMessageSentData,
+  AiResponseReceivedData,
+  AiSuggestionAcceptedData,
+  AiSuggestionDismissedData,
+  AppBackgroundedData,
+  AppCrashedData,
+  AppDeepLinkOpenedData,
+  AppDeviceConnectedData,
+  AppDeviceDisconnectedData,
+  AppDeviceFirmwareUpdatedData,
+  AppForegroundedData,
+  AppInstalledData,
+  AppOpenedData,
+  AppScreenViewedData,
+  AppUpdatedData,
+  AuthLoginFailedData,
+  AuthMfaChallengedData,
+  AuthMfaCompletedData,
+  AuthMfaDisabledData,
+  AuthMfaEnabledData,
+  AuthPasswordResetCompletedData,
+  AuthPasswordResetRequestedData,
+  AuthSessionExpiredData,
+  AuthTokenRefreshedData,
+  AutomationActionExecutedData,
+  AutomationRuleCreatedData,
+  AutomationWorkflowCompletedData,
+  AutomationWorkflowFailedData,
+  AutomationWorkflowTriggeredData,
+  BookingCheckInData,
+  BookingCheckOutData,
+  BookingReservationCancelledData,
+  BookingReservationConfirmedData,
+  BookingReservationCreatedData,
+  BookingReservationModifiedData,
+  BookingSearchInitiatedData,
+  CartAbandonedData,
+  CartViewedData,
+  CheckoutStartedData,
+  CheckoutStepCompletedData,
+  CollaborationItemCommentedData,
+  CollaborationItemSharedData,
+  CollaborationMemberInvitedData,
+  CollaborationMemberJoinedData,
+  CollaborationMemberRemovedData,
+  CollaborationRoleChangedData,
+  CollaborationTaskCompletedData,
+  CollaborationTaskCreatedData,
+  CollaborationWorkspaceCreatedData,
+  CommunicationEmailBouncedData,
+  CommunicationEmailClickedData,
+  CommunicationEmailOpenedData,
+  CommunicationEmailSentData,
+  CommunicationEmailUnsubscribedData,
+  CommunicationMessageReadData,
+  CommunicationMessageReceivedData,
+  CommunicationMessageSentData,
+  ContentArchivedData,
+  ContentBookmarkedData,
+  ContentCreatedData,
+  ContentDeletedData,
+  ContentDraftedData,
+  ContentPublishedData,
+  ContentRatedData,
+  ContentSharedData,
+  ContentUpdatedData,
+  ContentViewedData,
+  CouponAppliedData,
+  CouponRemovedData,
+  CrmContractSentData,
+  CrmContractSignedData,
+  CrmDemoCompletedData,
+  CrmDemoRequestedData,
+  CrmDemoScheduledData,
+  CrmLeadConvertedData,
+  CrmLeadCreatedData,
+  CrmLeadQualifiedData,
+  CrmOpportunityCreatedData,
+  CrmOpportunityLostData,
+  CrmOpportunityUpdatedData,
+  CrmOpportunityWonData,
+  DocumentCreatedData,
+  DocumentExpiredData,
+  DocumentSentData,
+  DocumentSignedData,
+  DocumentViewedData,
+  EducationCertificateEarnedData,
+  EducationCourseCompletedData,
+  EducationCourseEnrolledData,
+  EducationCourseStartedData,
+  EducationLessonCompletedData,
+  EducationLessonStartedData,
+  EducationQuizCompletedData,
+  EducationQuizStartedData,
+  ExperimentConversionData,
+  ExperimentExposureData,
+  ExperimentFeatureFlagEvaluatedData,
+  ExperimentVariantAssignedData,
+  FeatureActivatedData,
+  FeatureDeactivatedData,
+  FeatureLimitReachedData,
+  FeatureTrialStartedData,
+  FeatureUsedData,
+  FileConvertedData,
+  FileDeletedData,
+  FileDownloadedData,
+  FilePreviewedData,
+  FileUploadedData,
+  FileVersionCreatedData,
+  FinanceBalanceCheckedData,
+  FinanceDepositMadeData,
+  FinanceStatementGeneratedData,
+  FinanceTradeExecutedData,
+  FinanceTransferCompletedData,
+  FinanceTransferInitiatedData,
+  FinanceWalletToppedUpData,
+  FinanceWithdrawalMadeData,
+  GamingAchievementUnlockedData,
+  GamingChallengeCompletedData,
+  GamingChallengeStartedData,
+  GamingCurrencyEarnedData,
+  GamingCurrencySpentData,
+  GamingItemAcquiredData,
+  GamingItemUsedData,
+  GamingLevelCompletedData,
+  GamingLevelStartedData,
+  GamingScorePostedData,
+  IdentityDocumentApprovedData,
+  IdentityDocumentSubmittedData,
+  IdentityVerificationCompletedData,
+  IdentityVerificationFailedData,
+  IdentityVerificationStartedData,
+  IntegrationConnectedData,
+  IntegrationDeploymentCompletedData,
+  IntegrationDeploymentStartedData,
+  IntegrationDisconnectedData,
+  IntegrationSyncCompletedData,
+  IntegrationSyncFailedData,
+  IntegrationSyncStartedData,
+  LoyaltyPointsEarnedData,
+  LoyaltyPointsExpiredData,
+  LoyaltyPointsRedeemedData,
+  LoyaltyProgramJoinedData,
+  LoyaltyRewardClaimedData,
+  LoyaltyTierDowngradedData,
+  LoyaltyTierUpgradedData,
+  MarketplaceDisputeOpenedData,
+  MarketplaceDisputeResolvedData,
+  MarketplaceListingCreatedData,
+  MarketplaceListingPublishedData,
+  MarketplaceListingRemovedData,
+  MarketplaceListingUpdatedData,
+  MarketplaceOfferAcceptedData,
+  MarketplaceOfferMadeData,
+  MarketplaceOfferRejectedData,
+  MarketplaceSellerContactedData,
+  NotificationClickedData,
+  NotificationDeliveredData,
+  NotificationDismissedData,
+  NotificationOpenedData,
+  NotificationPermissionDeniedData,
+  NotificationPermissionGrantedData,
+  NotificationPermissionRequestedData,
+  NotificationSentData,
+  OnboardingAbandonedData,
+  OnboardingChecklistItemCompletedData,
+  OnboardingCompletedData,
+  OnboardingStartedData,
+  OnboardingStepCompletedData,
+  OnboardingStepSkippedData,
+  OnboardingTourCompletedData,
+  OnboardingTourStartedData,
+  OrderCancelledData,
+  OrderConfirmedData,
+  OrderDeliveredData,
+  OrderProcessingData,
+  OrderReturnRequestedData,
+  OrderReturnedData,
+  OrderShippedData,
+  PageLeaveData,
+  PaymentFailedData,
+  PaymentInfoEnteredData,
+  PaymentInvoiceCreatedData,
+  PaymentInvoiceOverdueData,
+  PaymentInvoicePaidData,
+  PaymentMethodAddedData,
+  PaymentMethodRemovedData,
+  PaymentMethodUpdatedData,
+  PaymentPayoutCompletedData,
+  PaymentPayoutInitiatedData,
+  PrivacyConsentRecordCreatedData,
+  PrivacyDataDeletionCompletedData,
+  PrivacyDataDeletionRequestedData,
+  PrivacyDataExportCompletedData,
+  PrivacyDataExportRequestedData,
+  ProductAddedData,
+  ProductClickedData,
+  ProductListViewedData,
+  ProductRemovedData,
+  ProductViewedData,
+  PromotionClickedData,
+  PromotionViewedData,
+  PurchaseData,
+  ReferralInviteAcceptedData,
+  ReferralInviteSentData,
+  ReferralLinkCreatedData,
+  ReferralLinkSharedData,
+  ReferralRewardEarnedData,
+  RefundData,
+  ReviewDeletedData,
+  ReviewHelpfulMarkedData,
+  ReviewReportedData,
+  ReviewSubmittedData,
+  ReviewUpdatedData,
+  SchedulingAppointmentBookedData,
+  SchedulingAppointmentCancelledData,
+  SchedulingAppointmentCompletedData,
+  SchedulingAppointmentRescheduledData,
+  SchedulingAvailabilityCheckedData,
+  SchedulingReminderSentData,
+  SearchAutocompleteSelectedData,
+  ShippingInfoEnteredData,
+  SocialCommentDeletedData,
+  SocialCommentPostedData,
+  SocialFollowData,
+  SocialLikeData,
+  SocialPostCreatedData,
+  SocialPostDeletedData,
+  SocialReactionAddedData,
+  SocialReactionRemovedData,
+  SocialUnfollowData,
+  SocialUnlikeData,
+  SubscriptionActivatedData,
+  SubscriptionCancelledData,
+  SubscriptionCreatedData,
+  SubscriptionDowngradedData,
+  SubscriptionPausedData,
+  SubscriptionPaymentFailedData,
+  SubscriptionRenewedData,
+  SubscriptionResumedData,
+  SubscriptionTrialEndedData,
+  SubscriptionTrialStartedData,
+  SubscriptionUpgradedData,
+  SupportArticleHelpfulData,
+  SupportArticleViewedData,
+  SupportChatEndedData,
+  SupportChatStartedData,
+  SupportFeedbackSubmittedData,
+  SupportRatingGivenData,
+  SupportTicketCreatedData,
+  SupportTicketEscalatedData,
+  SupportTicketResolvedData,
+  SupportTicketUpdatedData,
+  SurveyAbandonedData,
+  SurveyCompletedData,
+  SurveyNpsSubmittedData,
+  SurveyQuestionAnsweredData,
+  SurveyStartedData,
+  VideoCallEndedData,
+  VideoCallJoinedData,
+  VideoCallLeftData,
+  VideoCallRecordingStartedData,
+  VideoCallRecordingStoppedData,
+  VideoCallScreenSharedData,
+  VideoCallStartedData,
+  VirtualViewData,
+  WishlistProductAddedData,
+  WishlistProductRemovedData,
+} from './index.js';
+
+// ---- Data types without a hand-written interface ----
+
+/** Fired when a user grants consent for one or more purposes. */
+export interface ConsentGivenData {
+  /** Map of purpose names to consent status. Key is the purpose name, value is a boolean indicating whether consent was granted. */
+  purposes: Record<string, unknown>;
+  /** Method by which consent was given. */
+  method?: 'banner' | 'preference_center' | 'api' | 'implicit';
+  /** Version of the consent policy or configuration. */
+  version?: string;
+}
+
+/** Fired when a user updates their consent preferences, capturing both current and previous state. */
+export interface ConsentPreferencesUpdatedData {
+  /** Full current state of consent purposes. Key is the purpose name, value is a boolean indicating consent status. */
+  purposes: Record<string, unknown>;
+  /** Previous state of consent purposes before the update. Key is the purpose name, value is a boolean indicating consent status. */
+  previousPurposes?: Record<string, unknown>;
+  /** Method by which consent preferences were updated. */
+  method?: 'banner' | 'preference_center' | 'api';
+}
+
+/** Fired when a user revokes consent for one or more purposes. */
+export interface ConsentRevokedData {
+  /** Map of purpose names to revocation status. Key is the purpose name, value is a boolean indicating whether consent was revoked. */
+  purposes: Record<string, unknown>;
+  /** Method by which consent was revoked. */
+  method?: 'banner' | 'preference_center' | 'api';
+}
+
+/** Data payload for the error.boundary_triggered event. Fired when a UI error boundary catches an error in a component tree. */
+export interface ErrorBoundaryTriggeredData {
+  /** The name of the component whose error boundary was triggered. */
+  componentName: string;
+  /** The error message caught by the boundary. */
+  error: string;
+  /** The component stack trace showing the component hierarchy. */
+  componentStack?: string;
+  /** Whether the error boundary was able to recover and render a fallback. */
+  recovered?: boolean;
+}
+
+/** Data payload for the error.occurred event. Fired when a JavaScript, network, API, or other error is detected. */
+export interface ErrorOccurredData {
+  /** The error message. */
+  message: string;
+  /** The category of error. */
+  type?: 'javascript' | 'network' | 'api' | 'validation' | 'permission' | 'other';
+  /** The stack trace of the error, if available. */
+  stack?: string;
+  /** The file in which the error originated. */
+  filename?: string;
+  /** The line number where the error occurred. */
+  line?: number;
+  /** The column number where the error occurred. */
+  column?: number;
+  /** An application-specific error code. */
+  code?: string;
+  /** The severity level of the error. */
+  severity?: 'fatal' | 'error' | 'warning' | 'info';
+  /** Whether the error was caught and handled by application code. */
+  handled?: boolean;
+}
+
+/** Fired when a user leaves a form without completing or submitting it. */
+export interface FormAbandonedData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** Name or identifier of the last field the user interacted with. */
+  lastField?: string;
+  /** Number of fields the user completed before abandoning. */
+  completedFields?: number;
+  /** Total number of fields in the form. */
+  totalFields?: number;
+  /** Time in seconds the user spent on the form before abandoning. */
+  dwellTime?: number;
+}
+
+/** Fired when a form encounters an error during interaction or submission. */
+export interface FormErrorData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** Name or identifier of the field that errored. */
+  field?: string;
+  /** Type of error (e.g., validation, server, network). */
+  errorType?: string;
+  /** Human-readable error message. */
+  errorMessage?: string;
+}
+
+/** Fired when a user begins interacting with a form. */
+export interface FormStartedData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** Human-readable name of the form. */
+  formName?: string;
+  /** Name or identifier of the first field the user interacted with. */
+  firstField?: string;
+}
+
+/** Fired when the user completes a step in a multi-step form. */
+export interface FormStepCompletedData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** The step number that was completed. */
+  step: number;
+  /** Human-readable name of the completed step. */
+  stepName?: string;
+  /** Total number of steps in the form. */
+  totalSteps?: number;
+}
+
+/** Fired when a user submits a form. */
+export interface FormSubmittedData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** Human-readable name of the form. */
+  formName?: string;
+  /** Type of form (e.g., contact, signup, checkout). */
+  formType?: string;
+  /** Whether the form submission succeeded. */
+  success?: boolean;
+}
+
+/** Fired when a form becomes visible to the user. */
+export interface FormViewedData {
+  /** Unique identifier of the form. */
+  formId: string;
+  /** Human-readable name of the form. */
+  formName?: string;
+  /** Type of form (e.g., contact, signup, checkout). */
+  formType?: string;
+}
+
+/** Data payload for the interaction.element_clicked event. Fired when a user clicks on a tracked UI element. */
+export interface InteractionElementClickedData {
+  /** The HTML id attribute of the clicked element. */
+  elementId: string;
+  /** The CSS class(es) of the clicked element. */
+  elementClass?: string;
+  /** The HTML tag name of the clicked element. */
+  elementTag?: string;
+  /** The visible text content of the clicked element, truncated if necessary. */
+  elementText?: string;
+  /** The destination URL if the clicked element is a link. */
+  targetUrl?: string;
+  /** The page region where the element is located, e.g. header, sidebar, footer. */
+  region?: string;
+  /** The name of the UI component containing the clicked element. */
+  component?: string;
+}
+
+/** Data payload for the interaction.element_visible event. Fired when a tracked element becomes visible in the viewport (impression tracking). */
+export interface InteractionElementVisibleData {
+  /** The HTML id attribute of the visible element. */
+  elementId: string;
+  /** The CSS class(es) of the visible element. */
+  elementClass?: string;
+  /** The HTML tag name of the visible element. */
+  elementTag?: string;
+  /** The percentage of the element visible in the viewport. */
+  visiblePercentage?: number;
+  /** The duration the element was visible in seconds. */
+  dwellTime?: number;
+  /** The page region where the element is located, e.g. header, sidebar, footer. */
+  region?: string;
+}
+
+/** Data payload for the interaction.print event. Fired when a user triggers a print action on a page. */
+export interface InteractionPrintData {
+  /** The URL of the page being printed. */
+  url: string;
+  /** The title of the page being printed. */
+  title?: string;
+}
+
+/** Data payload for the interaction.scroll_depth event. Fired when a user scrolls past a configured depth threshold on a page. */
+export interface InteractionScrollDepthData {
+  /** The scroll depth reached as a percentage of the page. */
+  depth: number;
+  /** The scroll direction being measured. */
+  direction?: 'vertical' | 'horizontal';
+  /** The configured threshold value that triggered this event, e.g. 25, 50, 75, 100. */
+  threshold?: number;
+}
+
+/** Data payload for the interaction.share event. Fired when a user shares content via a social or sharing mechanism. */
+export interface InteractionShareData {
+  /** The sharing method or platform, e.g. facebook, twitter, email, copy_link. */
+  method: string;
+  /** The type of content being shared, e.g. page, product, article. */
+  contentType?: string;
+  /** The unique identifier of the content being shared. */
+  contentId?: string;
+  /** The URL of the content being shared. */
+  contentUrl?: string;
+}
+
+/** Fired when an advertisement finishes playing. */
+export interface MediaAdCompleteData {
+  /** The media item associated with the advertisement. */
+  media: unknown;
+  /** Unique identifier for the advertisement that completed. */
+  adId: string;
+}
+
+/** Fired when the user skips an advertisement. */
+export interface MediaAdSkipData {
+  /** The media item associated with the skipped advertisement. */
+  media: unknown;
+  /** Unique identifier for the advertisement that was skipped. */
+  adId: string;
+  /** Position in the advertisement in seconds when it was skipped. */
+  position?: number;
+}
+
+/** Fired when an advertisement begins playing within or alongside media. */
+export interface MediaAdStartData {
+  /** The media item associated with the advertisement. */
+  media: unknown;
+  /** Unique identifier for the advertisement. */
+  adId: string;
+  /** Title or name of the advertisement. */
+  adTitle?: string;
+  /** Position of the advertisement relative to the media content. */
+  adPosition?: 'pre-roll' | 'mid-roll' | 'post-roll';
+  /** Duration of the advertisement in seconds. */
+  adDuration?: number;
+}
+
+/** Fired when media playback finishes buffering. */
+export interface MediaBufferEndData {
+  /** The media item that finished buffering. */
+  media: unknown;
+  /** Playback position in seconds when buffering ended. */
+  position?: number;
+  /** Duration of the buffering period in seconds. */
+  duration?: number;
+}
+
+/** Fired when media playback begins buffering. */
+export interface MediaBufferStartData {
+  /** The media item that started buffering. */
+  media: unknown;
+  /** Playback position in seconds when buffering started. */
+  position?: number;
+}
+
+/** Fired when media playback reaches the end. */
+export interface MediaCompleteData {
+  /** The media item that completed playback. */
+  media: unknown;
+}
+
+/** Fired when media playback reaches a percentage milestone (e.g., 25%, 50%, 75%). */
+export interface MediaMilestoneData {
+  /** The media item that reached the milestone. */
+  media: unknown;
+  /** Percentage milestone reached (e.g., 25, 50, 75, 100). */
+  milestone: number;
+  /** Playback position in seconds when the milestone was reached. */
+  position?: number;
+}
+
+/** Fired when media playback is paused. */
+export interface MediaPauseData {
+  /** The media item being paused. */
+  media: unknown;
+  /** Playback position in seconds when pause was triggered. */
+  position: number;
+  /** Percentage of the media that has been played. */
+  percentComplete?: number;
+}
+
+/** Fired when media playback begins or resumes. */
+export interface MediaPlayData {
+  /** The media item being played. */
+  media: unknown;
+  /** Playback position in seconds when play was triggered. */
+  position?: number;
+}
+
+/** Fired when the media playback quality changes. */
+export interface MediaQualityChangeData {
+  /** The media item whose quality changed. */
+  media: unknown;
+  /** Previous quality level (e.g., 720p, 1080p). */
+  fromQuality?: string;
+  /** New quality level (e.g., 720p, 1080p). */
+  toQuality: string;
+  /** Whether the quality change was triggered automatically by adaptive bitrate. */
+  isAuto?: boolean;
+}
+
+/** Fired when the user seeks to a different position in the media. */
+export interface MediaSeekData {
+  /** The media item being seeked. */
+  media: unknown;
+  /** Playback position in seconds before the seek. */
+  fromPosition: number;
+  /** Playback position in seconds after the seek. */
+  toPosition: number;
+}
+
+/** Data payload for the page.view event. Fired when a user views a page. Page metadata is carried in context.page rather than in the data payload. */
+export type PageViewData = Record<string, never>;
+
+/** Data payload for the performance.long_task event. Fired when a long task (>50ms) is detected via the Long Tasks API. */
+export interface PerformanceLongTaskData {
+  /** The duration of the long task in milliseconds. Long tasks are defined as tasks exceeding 50ms. */
+  duration: number;
+  /** The time at which the long task started, relative to the page load, in milliseconds. */
+  startTime: number;
+  /** Attribution information describing what caused the long task. */
+  attribution?: string;
+}
+
+/** Data payload for the performance.page_load event. Fired when page load timing metrics are captured via the Navigation Timing API. */
+export interface PerformancePageLoadData {
+  /** Total page load time in milliseconds. */
+  duration: number;
+  /** Time to DOMContentLoaded event in milliseconds. */
+  domContentLoaded?: number;
+  /** Time to DOM interactive state in milliseconds. */
+  domInteractive?: number;
+  /** Time to first byte (TTFB) in milliseconds. */
+  firstByte?: number;
+  /** Total transfer size in bytes. */
+  transferSize?: number;
+  /** Decoded body size in bytes. */
+  decodedBodySize?: number;
+  /** The number of redirects before the final page was loaded. */
+  redirectCount?: number;
+}
+
+/** Data payload for the performance.resource_timing event. Fired when resource loading performance metrics are captured via the Resource Timing API. */
+export interface PerformanceResourceTimingData {
+  /** The URL of the resource. */
+  name: string;
+  /** The type of element that initiated the resource fetch, e.g. script, img, css, fetch. */
+  initiatorType?: string;
+  /** The total time to load the resource in milliseconds. */
+  duration: number;
+  /** The size of the resource transfer in bytes. */
+  transferSize?: number;
+  /** The time at which the resource fetch started, relative to the page load, in milliseconds. */
+  startTime?: number;
+}
+
+/** Data payload for the performance.web_vital event. Fired when a Core Web Vitals or related performance metric is measured. */
+export interface PerformanceWebVitalData {
+  /** The name of the web vital metric. */
+  name: 'LCP' | 'FID' | 'CLS' | 'INP' | 'FCP' | 'TTFB';
+  /** The measured value of the metric. */
+  value: number;
+  /** The qualitative rating of the metric based on Web Vitals thresholds. */
+  rating: 'good' | 'needs-improvement' | 'poor';
+  /** The change in value since the last report of this metric. */
+  delta?: number;
+  /** The type of navigation, e.g. navigate, reload, back-forward. */
+  navigationType?: string;
+}
+
+/** Data payload for the search.filter_applied event. Fired when a user applies a filter to search results. */
+export interface SearchFilterAppliedData {
+  /** The search query the filter is being applied to. */
+  query?: string;
+  /** The name of the filter being applied. */
+  filterName: string;
+  /** The value selected for the filter. */
+  filterValue: string;
+  /** The type of filter control, e.g. range, checkbox, dropdown. */
+  filterType?: string;
+}
+
+/** Data payload for the search.performed event. Fired when a user executes a search query. */
+export interface SearchPerformedData {
+  /** The search query string entered by the user. */
+  query: string;
+  /** The total number of results returned for the query. */
+  resultCount?: number;
+  /** The search scope or category used to narrow results. */
+  category?: string;
+  /** Key-value pairs representing the filters applied to the search. */
+  filters?: Record<string, unknown>;
+  /** The sort order applied to the search results. */
+  sortBy?: string;
+  /** The page number of results being viewed. */
+  page?: number;
+}
+
+/** Data payload for the search.result_clicked event. Fired when a user clicks on a search result. */
+export interface SearchResultClickedData {
+  /** The search query that produced the result. */
+  query: string;
+  /** The unique identifier of the clicked result. */
+  resultId: string;
+  /** The display name or title of the clicked result. */
+  resultName?: string;
+  /** The type of result, e.g. product, article, page. */
+  resultType?: string;
+  /** The 1-based position of the result in the search results list. */
+  position?: number;
+}
+
+/** Fired when an anonymous user is identified or linked to a known user identity. */
+export interface UserIdentifiedData {
+  /** Unique identifier of the identified user. */
+  userId: string;
+  /** User traits or properties associated with the identified user. */
+  traits?: Record<string, unknown>;
+  /** Anonymous identifier previously assigned to the user before identification. */
+  previousAnonymousId?: string;
+}
+
+/** Fired when a user updates their profile information. */
+export interface UserProfileUpdatedData {
+  /** List of profile fields that were updated. */
+  fields: string[];
+  /** Unique identifier of the user whose profile was updated. */
+  userId?: string;
+}
+
+/** Fired when a user successfully signs in. */
+export interface UserSignedInData {
+  /** Sign-in method used (e.g., email, google, github, sso). */
+  method: string;
+  /** Unique identifier of the user who signed in. */
+  userId?: string;
+}
+
+/** Fired when a user signs out of their session. */
+export interface UserSignedOutData {
+  /** Unique identifier of the user who signed out. */
+  userId: string;
+}
+
+/** Fired when a new user completes the sign-up process. */
+export interface UserSignedUpData {
+  /** Sign-up method used (e.g., email, google, github). */
+  method?: string;
+  /** Unique identifier assigned to the new user. */
+  userId: string;
+}
+
+// ---- Event map ----
+
+/**
+ * Maps every event name in the ODL taxonomy to the type of its `data`
+ * payload. Register extension events by merging into this interface:
+ *
+ * ```ts
+ * declare module '@opendatalayer/types' {
+ *   interface ODLEventMap {
+ *     'custom.quiz_completed': { quizId: string; score: number };
+ *   }
+ * }
+ * ```
+ */
+export interface ODLEventMap {
+  'account.created': AccountCreatedData;
+  'account.deleted': AccountDeletedData;
+  'account.reactivated': AccountReactivatedData;
+  'account.seat_added': AccountSeatAddedData;
+  'account.seat_removed': AccountSeatRemovedData;
+  'account.settings_updated': AccountSettingsUpdatedData;
+  'account.suspended': AccountSuspendedData;
+  'account.team_member_added': AccountTeamMemberAddedData;
+  'ad.blocked': AdBlockedData;
+  'ad.clicked': AdClickedData;
+  'ad.conversion': AdConversionData;
+  'ad.impression': AdImpressionData;
+  'ad.revenue_earned': AdRevenueEarnedData;
+  'ai.conversation_started': AiConversationStartedData;
+  'ai.feedback_given': AiFeedbackGivenData;
+  'ai.message_sent': AiMessageSentData;
+  'ai.response_received': AiResponseReceivedData;
+  'ai.suggestion_accepted': AiSuggestionAcceptedData;
+  'ai.suggestion_dismissed': AiSuggestionDismissedData;
+  'app.backgrounded': AppBackgroundedData;
+  'app.crashed': AppCrashedData;
+  'app.deep_link_opened': AppDeepLinkOpenedData;
+  'app.device_connected': AppDeviceConnectedData;
+  'app.device_disconnected': AppDeviceDisconnectedData;
+  'app.device_firmware_updated': AppDeviceFirmwareUpdatedData;
+  'app.foregrounded': AppForegroundedData;
+  'app.installed': AppInstalledData;
+  'app.opened': AppOpenedData;
+  'app.screen_viewed': AppScreenViewedData;
+  'app.updated': AppUpdatedData;
+  'auth.login_failed': AuthLoginFailedData;
+  'auth.mfa_challenged': AuthMfaChallengedData;
+  'auth.mfa_completed': AuthMfaCompletedData;
+  'auth.mfa_disabled': AuthMfaDisabledData;
+  'auth.mfa_enabled': AuthMfaEnabledData;
+  'auth.password_reset_completed': AuthPasswordResetCompletedData;
+  'auth.password_reset_requested': AuthPasswordResetRequestedData;
+  'auth.session_expired': AuthSessionExpiredData;
+  'auth.token_refreshed': AuthTokenRefreshedData;
+  'automation.action_executed': AutomationActionExecutedData;
+  'automation.rule_created': AutomationRuleCreatedData;
+  'automation.workflow_completed': AutomationWorkflowCompletedData;
+  'automation.workflow_failed': AutomationWorkflowFailedData;
+  'automation.workflow_triggered': AutomationWorkflowTriggeredData;
+  'booking.check_in': BookingCheckInData;
+  'booking.check_out': BookingCheckOutData;
+  'booking.reservation_cancelled': BookingReservationCancelledData;
+  'booking.reservation_confirmed': BookingReservationConfirmedData;
+  'booking.reservation_created': BookingReservationCreatedData;
+  'booking.reservation_modified': BookingReservationModifiedData;
+  'booking.search_initiated': BookingSearchInitiatedData;
+  'collaboration.item_commented': CollaborationItemCommentedData;
+  'collaboration.item_shared': CollaborationItemSharedData;
+  'collaboration.member_invited': CollaborationMemberInvitedData;
+  'collaboration.member_joined': CollaborationMemberJoinedData;
+  'collaboration.member_removed': CollaborationMemberRemovedData;
+  'collaboration.role_changed': CollaborationRoleChangedData;
+  'collaboration.task_completed': CollaborationTaskCompletedData;
+  'collaboration.task_created': CollaborationTaskCreatedData;
+  'collaboration.workspace_created': CollaborationWorkspaceCreatedData;
+  'communication.email_bounced': CommunicationEmailBouncedData;
+  'communication.email_clicked': CommunicationEmailClickedData;
+  'communication.email_opened': CommunicationEmailOpenedData;
+  'communication.email_sent': CommunicationEmailSentData;
+  'communication.email_unsubscribed': CommunicationEmailUnsubscribedData;
+  'communication.message_read': CommunicationMessageReadData;
+  'communication.message_received': CommunicationMessageReceivedData;
+  'communication.message_sent': CommunicationMessageSentData;
+  'consent.given': ConsentGivenData;
+  'consent.preferences_updated': ConsentPreferencesUpdatedData;
+  'consent.revoked': ConsentRevokedData;
+  'content.archived': ContentArchivedData;
+  'content.bookmarked': ContentBookmarkedData;
+  'content.created': ContentCreatedData;
+  'content.deleted': ContentDeletedData;
+  'content.drafted': ContentDraftedData;
+  'content.published': ContentPublishedData;
+  'content.rated': ContentRatedData;
+  'content.shared': ContentSharedData;
+  'content.updated': ContentUpdatedData;
+  'content.viewed': ContentViewedData;
+  'crm.contract_sent': CrmContractSentData;
+  'crm.contract_signed': CrmContractSignedData;
+  'crm.demo_completed': CrmDemoCompletedData;
+  'crm.demo_requested': CrmDemoRequestedData;
+  'crm.demo_scheduled': CrmDemoScheduledData;
+  'crm.lead_converted': CrmLeadConvertedData;
+  'crm.lead_created': CrmLeadCreatedData;
+  'crm.lead_qualified': CrmLeadQualifiedData;
+  'crm.opportunity_created': CrmOpportunityCreatedData;
+  'crm.opportunity_lost': CrmOpportunityLostData;
+  'crm.opportunity_updated': CrmOpportunityUpdatedData;
+  'crm.opportunity_won': CrmOpportunityWonData;
+  'document.created': DocumentCreatedData;
+  'document.expired': DocumentExpiredData;
+  'document.sent': DocumentSentData;
+  'document.signed': DocumentSignedData;
+  'document.viewed': DocumentViewedData;
+  'ecommerce.cart_abandoned': CartAbandonedData;
+  'ecommerce.cart_viewed': CartViewedData;
+  'ecommerce.checkout_started': CheckoutStartedData;
+  'ecommerce.checkout_step_completed': CheckoutStepCompletedData;
+  'ecommerce.coupon_applied': CouponAppliedData;
+  'ecommerce.coupon_removed': CouponRemovedData;
+  'ecommerce.payment_info_entered': PaymentInfoEnteredData;
+  'ecommerce.product_added': ProductAddedData;
+  'ecommerce.product_clicked': ProductClickedData;
+  'ecommerce.product_list_viewed': ProductListViewedData;
+  'ecommerce.product_removed': ProductRemovedData;
+  'ecommerce.product_viewed': ProductViewedData;
+  'ecommerce.promotion_clicked': PromotionClickedData;
+  'ecommerce.promotion_viewed': PromotionViewedData;
+  'ecommerce.purchase': PurchaseData;
+  'ecommerce.refund': RefundData;
+  'ecommerce.shipping_info_entered': ShippingInfoEnteredData;
+  'ecommerce.wishlist_product_added': WishlistProductAddedData;
+  'ecommerce.wishlist_product_removed': WishlistProductRemovedData;
+  'education.certificate_earned': EducationCertificateEarnedData;
+  'education.course_completed': EducationCourseCompletedData;
+  'education.course_enrolled': EducationCourseEnrolledData;
+  'education.course_started': EducationCourseStartedData;
+  'education.lesson_completed': EducationLessonCompletedData;
+  'education.lesson_started': EducationLessonStartedData;
+  'education.quiz_completed': EducationQuizCompletedData;
+  'education.quiz_started': EducationQuizStartedData;
+  'error.boundary_triggered': ErrorBoundaryTriggeredData;
+  'error.occurred': ErrorOccurredData;
+  'experiment.conversion': ExperimentConversionData;
+  'experiment.exposure': ExperimentExposureData;
+  'experiment.feature_flag_evaluated': ExperimentFeatureFlagEvaluatedData;
+  'experiment.variant_assigned': ExperimentVariantAssignedData;
+  'feature.activated': FeatureActivatedData;
+  'feature.deactivated': FeatureDeactivatedData;
+  'feature.limit_reached': FeatureLimitReachedData;
+  'feature.trial_started': FeatureTrialStartedData;
+  'feature.used': FeatureUsedData;
+  'file.converted': FileConvertedData;
+  'file.deleted': FileDeletedData;
+  'file.downloaded': FileDownloadedData;
+  'file.previewed': FilePreviewedData;
+  'file.uploaded': FileUploadedData;
+  'file.version_created': FileVersionCreatedData;
+  'finance.balance_checked': FinanceBalanceCheckedData;
+  'finance.deposit_made': FinanceDepositMadeData;
+  'finance.statement_generated': FinanceStatementGeneratedData;
+  'finance.trade_executed': FinanceTradeExecutedData;
+  'finance.transfer_completed': FinanceTransferCompletedData;
+  'finance.transfer_initiated': FinanceTransferInitiatedData;
+  'finance.wallet_topped_up': FinanceWalletToppedUpData;
+  'finance.withdrawal_made': FinanceWithdrawalMadeData;
+  'form.abandoned': FormAbandonedData;
+  'form.error': FormErrorData;
+  'form.started': FormStartedData;
+  'form.step_completed': FormStepCompletedData;
+  'form.submitted': FormSubmittedData;
+  'form.viewed': FormViewedData;
+  'gaming.achievement_unlocked': GamingAchievementUnlockedData;
+  'gaming.challenge_completed': GamingChallengeCompletedData;
+  'gaming.challenge_started': GamingChallengeStartedData;
+  'gaming.currency_earned': GamingCurrencyEarnedData;
+  'gaming.currency_spent': GamingCurrencySpentData;
+  'gaming.item_acquired': GamingItemAcquiredData;
+  'gaming.item_used': GamingItemUsedData;
+  'gaming.level_completed': GamingLevelCompletedData;
+  'gaming.level_started': GamingLevelStartedData;
+  'gaming.score_posted': GamingScorePostedData;
+  'identity.document_approved': IdentityDocumentApprovedData;
+  'identity.document_submitted': IdentityDocumentSubmittedData;
+  'identity.verification_completed': IdentityVerificationCompletedData;
+  'identity.verification_failed': IdentityVerificationFailedData;
+  'identity.verification_started': IdentityVerificationStartedData;
+  'integration.connected': IntegrationConnectedData;
+  'integration.deployment_completed': IntegrationDeploymentCompletedData;
+  'integration.deployment_started': IntegrationDeploymentStartedData;
+  'integration.disconnected': IntegrationDisconnectedData;
+  'integration.sync_completed': IntegrationSyncCompletedData;
+  'integration.sync_failed': IntegrationSyncFailedData;
+  'integration.sync_started': IntegrationSyncStartedData;
+  'interaction.element_clicked': InteractionElementClickedData;
+  'interaction.element_visible': InteractionElementVisibleData;
+  'interaction.file_downloaded': FileDownloadedData;
+  'interaction.print': InteractionPrintData;
+  'interaction.scroll_depth': InteractionScrollDepthData;
+  'interaction.share': InteractionShareData;
+  'loyalty.points_earned': LoyaltyPointsEarnedData;
+  'loyalty.points_expired': LoyaltyPointsExpiredData;
+  'loyalty.points_redeemed': LoyaltyPointsRedeemedData;
+  'loyalty.program_joined': LoyaltyProgramJoinedData;
+  'loyalty.reward_claimed': LoyaltyRewardClaimedData;
+  'loyalty.tier_downgraded': LoyaltyTierDowngradedData;
+  'loyalty.tier_upgraded': LoyaltyTierUpgradedData;
+  'marketplace.dispute_opened': MarketplaceDisputeOpenedData;
+  'marketplace.dispute_resolved': MarketplaceDisputeResolvedData;
+  'marketplace.listing_created': MarketplaceListingCreatedData;
+  'marketplace.listing_published': MarketplaceListingPublishedData;
+  'marketplace.listing_removed': MarketplaceListingRemovedData;
+  'marketplace.listing_updated': MarketplaceListingUpdatedData;
+  'marketplace.offer_accepted': MarketplaceOfferAcceptedData;
+  'marketplace.offer_made': MarketplaceOfferMadeData;
+  'marketplace.offer_rejected': MarketplaceOfferRejectedData;
+  'marketplace.seller_contacted': MarketplaceSellerContactedData;
+  'media.ad_complete': MediaAdCompleteData;
+  'media.ad_skip': MediaAdSkipData;
+  'media.ad_start': MediaAdStartData;
+  'media.buffer_end': MediaBufferEndData;
+  'media.buffer_start': MediaBufferStartData;
+  'media.complete': MediaCompleteData;
+  'media.milestone': MediaMilestoneData;
+  'media.pause': MediaPauseData;
+  'media.play': MediaPlayData;
+  'media.quality_change': MediaQualityChangeData;
+  'media.seek': MediaSeekData;
+  'notification.clicked': NotificationClickedData;
+  'notification.delivered': NotificationDeliveredData;
+  'notification.dismissed': NotificationDismissedData;
+  'notification.opened': NotificationOpenedData;
+  'notification.permission_denied': NotificationPermissionDeniedData;
+  'notification.permission_granted': NotificationPermissionGrantedData;
+  'notification.permission_requested': NotificationPermissionRequestedData;
+  'notification.sent': NotificationSentData;
+  'onboarding.abandoned': OnboardingAbandonedData;
+  'onboarding.checklist_item_completed': OnboardingChecklistItemCompletedData;
+  'onboarding.completed': OnboardingCompletedData;
+  'onboarding.started': OnboardingStartedData;
+  'onboarding.step_completed': OnboardingStepCompletedData;
+  'onboarding.step_skipped': OnboardingStepSkippedData;
+  'onboarding.tour_completed': OnboardingTourCompletedData;
+  'onboarding.tour_started': OnboardingTourStartedData;
+  'order.cancelled': OrderCancelledData;
+  'order.confirmed': OrderConfirmedData;
+  'order.delivered': OrderDeliveredData;
+  'order.processing': OrderProcessingData;
+  'order.return_requested': OrderReturnRequestedData;
+  'order.returned': OrderReturnedData;
+  'order.shipped': OrderShippedData;
+  'page.leave': PageLeaveData;
+  'page.view': PageViewData;
+  'page.virtual_view': VirtualViewData;
+  'payment.invoice_created': PaymentInvoiceCreatedData;
+  'payment.invoice_overdue': PaymentInvoiceOverdueData;
+  'payment.invoice_paid': PaymentInvoicePaidData;
+  'payment.method_added': PaymentMethodAddedData;
+  'payment.method_removed': PaymentMethodRemovedData;
+  'payment.method_updated': PaymentMethodUpdatedData;
+  'payment.payment_failed': PaymentFailedData;
+  'payment.payout_completed': PaymentPayoutCompletedData;
+  'payment.payout_initiated': PaymentPayoutInitiatedData;
+  'performance.long_task': PerformanceLongTaskData;
+  'performance.page_load': PerformancePageLoadData;
+  'performance.resource_timing': PerformanceResourceTimingData;
+  'performance.web_vital': PerformanceWebVitalData;
+  'privacy.consent_record_created': PrivacyConsentRecordCreatedData;
+  'privacy.data_deletion_completed': PrivacyDataDeletionCompletedData;
+  'privacy.data_deletion_requested': PrivacyDataDeletionRequestedData;
+  'privacy.data_export_completed': PrivacyDataExportCompletedData;
+  'privacy.data_export_requested': PrivacyDataExportRequestedData;
+  'referral.invite_accepted': ReferralInviteAcceptedData;
+  'referral.invite_sent': ReferralInviteSentData;
+  'referral.link_created': ReferralLinkCreatedData;
+  'referral.link_shared': ReferralLinkSharedData;
+  'referral.reward_earned': ReferralRewardEarnedData;
+  'review.deleted': ReviewDeletedData;
+  'review.helpful_marked': ReviewHelpfulMarkedData;
+  'review.reported': ReviewReportedData;
+  'review.submitted': ReviewSubmittedData;
+  'review.updated': ReviewUpdatedData;
+  'scheduling.appointment_booked': SchedulingAppointmentBookedData;
+  'scheduling.appointment_cancelled': SchedulingAppointmentCancelledData;
+  'scheduling.appointment_completed': SchedulingAppointmentCompletedData;
+  'scheduling.appointment_rescheduled': SchedulingAppointmentRescheduledData;
+  'scheduling.availability_checked': SchedulingAvailabilityCheckedData;
+  'scheduling.reminder_sent': SchedulingReminderSentData;
+  'search.autocomplete_selected': SearchAutocompleteSelectedData;
+  'search.filter_applied': SearchFilterAppliedData;
+  'search.performed': SearchPerformedData;
+  'search.result_clicked': SearchResultClickedData;
+  'social.comment_deleted': SocialCommentDeletedData;
+  'social.comment_posted': SocialCommentPostedData;
+  'social.follow': SocialFollowData;
+  'social.like': SocialLikeData;
+  'social.post_created': SocialPostCreatedData;
+  'social.post_deleted': SocialPostDeletedData;
+  'social.reaction_added': SocialReactionAddedData;
+  'social.reaction_removed': SocialReactionRemovedData;
+  'social.unfollow': SocialUnfollowData;
+  'social.unlike': SocialUnlikeData;
+  'subscription.activated': SubscriptionActivatedData;
+  'subscription.cancelled': SubscriptionCancelledData;
+  'subscription.created': SubscriptionCreatedData;
+  'subscription.downgraded': SubscriptionDowngradedData;
+  'subscription.paused': SubscriptionPausedData;
+  'subscription.payment_failed': SubscriptionPaymentFailedData;
+  'subscription.renewed': SubscriptionRenewedData;
+  'subscription.resumed': SubscriptionResumedData;
+  'subscription.trial_ended': SubscriptionTrialEndedData;
+  'subscription.trial_started': SubscriptionTrialStartedData;
+  'subscription.upgraded': SubscriptionUpgradedData;
+  'support.article_helpful': SupportArticleHelpfulData;
+  'support.article_viewed': SupportArticleViewedData;
+  'support.chat_ended': SupportChatEndedData;
+  'support.chat_started': SupportChatStartedData;
+  'support.feedback_submitted': SupportFeedbackSubmittedData;
+  'support.rating_given': SupportRatingGivenData;
+  'support.ticket_created': SupportTicketCreatedData;
+  'support.ticket_escalated': SupportTicketEscalatedData;
+  'support.ticket_resolved': SupportTicketResolvedData;
+  'support.ticket_updated': SupportTicketUpdatedData;
+  'survey.abandoned': SurveyAbandonedData;
+  'survey.completed': SurveyCompletedData;
+  'survey.nps_submitted': SurveyNpsSubmittedData;
+  'survey.question_answered': SurveyQuestionAnsweredData;
+  'survey.started': SurveyStartedData;
+  'user.identified': UserIdentifiedData;
+  'user.profile_updated': UserProfileUpdatedData;
+  'user.signed_in': UserSignedInData;
+  'user.signed_out': UserSignedOutData;
+  'user.signed_up': UserSignedUpData;
+  'video_call.ended': VideoCallEndedData;
+  'video_call.joined': VideoCallJoinedData;
+  'video_call.left': VideoCallLeftData;
+  'video_call.recording_started': VideoCallRecordingStartedData;
+  'video_call.recording_stopped': VideoCallRecordingStoppedData;
+  'video_call.screen_shared': VideoCallScreenSharedData;
+  'video_call.started': VideoCallStartedData;
+}
@@ -108,6 +108,23 @@ export interface UserTraits {
   [key: string]: unknown;
 }
 
+/** Standard consent purposes (`enums/consent-purpose.schema.json`). */
+export type ConsentPurpose =
+  | 'necessary'
+  | 'analytics'
+  | 'marketing'
+  | 'personalization'
+  | 'advertising'
+  | 'social_media'
+  | 'functional'
+  | 'performance';
+
+/**
+ * A consent purpose, or an `x_`-prefixed extension category (privacy spec
+ * §5.2).
+ */
+export type ConsentCategory = ConsentPurpose | `x_${string}`;
+
 export interface ConsentContext {
   status?: 'granted' | 'denied' | 'pending';
   purposes?: Record<string, boolean>;
@@ -2891,5 +2908,17 @@ export interface AiSuggestionDismissedData {
   model?: string;
 }
 
+// ---- Event map ----
+
+export * from './event-map.js';
+
+// ---- Runtime contract ----
+
+export * from './runtime.js';
+
+// ---- Adapter helpers ----
+
+export * from './wait-for-load.js';
+
 // Re-export generated types when available
 // export * from './generated/index.js';
@@ -0,0 +1,98 @@
+/**
+ * Runtime contract shared by the SDK, adapters and test helpers.
+ *
+ * `ODLEvent` describes an event as the specification defines it. The types
+ * here describe events as they travel through an SDK instance, where context
+ * and data have not been validated yet, and the plugin interface adapters
+ * implement. Packages that only consume events import these instead of
+ * depending on the SDK.
+ */
+
+import type { ConsentCategory, ODLSource } from './index.js';
+
+/** An event as delivered to subscribers, plugins and adapters. */
+export interface ODLRuntimeEvent {
+  /** Dot-namespaced event name, e.g. "ecommerce.purchase" */
+  event: string;
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** ISO 8601 timestamp */
+  timestamp: string;
+  /** ODL specification version */
+  specVersion: string;
+  /** Ambient context snapshot at the time the event was created */
+  context?: Record<string, unknown>;
+  /** Event-specific payload */
+  data?: Record<string, unknown>;
+  /** Flat key/value custom dimensions for analytics tools */
+  customDimensions?: Record<string, string | number | boolean>;
+  /** Information about the source that created the event */
+  source?: ODLSource;
+}
+
+/**
+ * Plugin interface for extending an ODL instance. All methods are optional
+ * except `name`.
+ *
+ * `TInstance` is what `initialize` receives; adapters that do not use it
+ * leave it as `unknown`.
+ */
+export interface ODLRuntimePlugin<TInstance = unknown> {
+  /** Unique plugin identifier. */
+  name: string;
+
+  /**
+   * Names of plugins that must be registered before this one. Registration
+   * fails if one is missing. Implies {@link after}.
+   */
+  dependsOn?: string[];
+
+  /**
+   * Names of plugins whose hooks should run after this plugin's hooks, if
+   * they are registered.
+   */
+  before?: string[];
+
+  /**
+   * Names of plugins whose hooks should run before this plugin's hooks, if
+   * they are registered.
+   */
+  after?: string[];
+
+  /**
+   * Consent purposes the plugin needs, e.g. `['analytics']`. Its `afterEvent`
+   * hook only receives events whose `context.consent` grants all of them
+   * (privacy spec §2.5).
+   */
+  requiresConsent?: ConsentCategory[];
+
+  /**
+   * Called once when the plugin is registered with an instance.
+   * Use this to set up subscriptions, read initial state, or start timers
+   * through the plugin context. Use `beforeEvent` to modify events.
+   *
+   * May return a promise, e.g. to wait for a vendor script to load. Events
+   * are then held back from `afterEvent` until it resolves.
+   */
+  initialize?(odl: TInstance): void | Promise<void>;
+
+  /**
+   * Called **before** an event is stored and emitted.
+   *
+   * - Return the (optionally modified) event to allow it through.
+   * - Return `null` to **cancel** the event entirely.
+   * - Throwing also cancels the event, and the error is reported.
+   */
+  beforeEvent?(event: ODLRuntimeEvent): ODLRuntimeEvent | null;
+
+  /**
+   * Called **after** an event has been stored and emitted.
+   */
+  afterEvent?(event: ODLRuntimeEvent): void;
+
+  /**
+   * Called when the instance is destroyed. Clean up any listeners,
+   * intervals, or external resources here.
+   */
+  destroy?(): void;
+}
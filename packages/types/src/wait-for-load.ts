@@ -0,0 +1,53 @@
+/**
+ * Helper for adapters whose vendor library loads asynchronously, shared so
+ * that they all wait for it the same way.
+ */
+
+/** How often to check whether the library has loaded while waiting for it */
+const LOAD_POLL_INTERVAL = 50;
+
+/** A pending {@link waitForLoad}. */
+export interface LoadWait {
+  /** Resolves once the library has loaded or the timeout has passed. */
+  promise: Promise<void>;
+  /** Stop waiting, rejecting `promise`. */
+  cancel(): void;
+}
+
+/**
+ * Poll until `isLoaded` returns true, for at most `timeout` ms. On timeout it
+ * warns and resolves anyway, so that the adapter keeps receiving events and can
+ * send them if the library loads later. Rejects when the returned `cancel` is
+ * called.
+ *
+ * @param library - Describes the library in messages, e.g. `"analytics.js (window.analytics)"`.
+ * @param source - Prefixes messages, e.g. the adapter's package name.
+ */
+export function waitForLoad(
+  isLoaded: () => boolean,
+  timeout: number,
+  library: string,
+  source: string,
+): LoadWait {
+  let cancel = (): void => {};
+  const promise = new Promise<void>((resolve, reject) => {
+    const startedAt = Date.now();
+    const timer = setInterval(() => {
+      if (isLoaded()) {
+        clearInterval(timer);
+        resolve();
+      } else if (Date.now() - startedAt >= timeout) {
+        clearInterval(timer);
+        console.warn(
+          `[${source}] ${library} did not load within ${timeout}ms, events are dropped until it loads`,
+        );
+        resolve();
+      }
+    }, LOAD_POLL_INTERVAL);
+    cancel = () => {
+      clearInterval(timer);
+      reject(new Error(`[${source}] Adapter destroyed while waiting for ${library}`));
+    };
+  });
+  return { promise, cancel };
+}
@@ -13,6 +13,16 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const SCHEMA_DIR = join(__dirname, '..', 'schemas', 'v1');
 const OUTPUT_DIR = join(__dirname, '..', 'packages', 'types', 'src', 'generated');
+const TYPES_INDEX = join(__dirname, '..', 'packages', 'types', 'src', 'index.ts');
+const EVENT_MAP_FILE = join(__dirname, '..', 'packages', 'types', 'src', 'event-map.ts');
+
+/** Event schemas that describe shared objects rather than events. */
+const SHARED_OBJECT_SCHEMAS = ['product', 'promotion', 'media-object'];
+
+/** Whether `file` is one of the {@link SHARED_OBJECT_SCHEMAS}. */
+function isSharedObjectSchema(file: string): boolean {
+  return SHARED_OBJECT_SCHEMAS.some((s) => file === `${s}.schema.json`);
+}
 
 // -- implement helper functions --
 
@@ -127,6 +137,109 @@ function fileNameToInterfaceName(fileName: string, category?: string): string {
   return `${prefix + parts.join('')}Data`;
 }
 
+/** Convert a kebab-case or snake_case name to PascalCase */
+function toPascalCase(name: string): string {
+  return name
+    .split(/[-_]/)
+    .map((p) => p.charAt(0).toUpperCase() + p.slice(1))
+    .join('');
+}
+
+/**
+ * Generate `ODLEventMap`, mapping every event name in the taxonomy to its
+ * data interface.
+ *
+ * Events are discovered from `schemas/v1/events/<category>/<action>.schema.json`
+ * (`custom.*` is left out: custom events stay open). Each event is mapped to the
+ * hand-written `*Data` interface in packages/types/src/index.ts when one exists
+ * (`<Category><Action>Data`, then `<Action>Data`); otherwise an interface is
+ * generated from the schema alongside the map. Run `npm run lint:fix` afterwards
+ * to format the output.
+ */
+function generateEventMap() {
+  const existing = new Set(
+    [...readFileSync(TYPES_INDEX, 'utf-8').matchAll(/^export interface (\w+Data)\b/gm)].map(
+      (m) => m[1] as string,
+    ),
+  );
+
+  const imports = new Set<string>();
+  const generated: string[] = [];
+  const entries: string[] = [];
+
+  const eventDir = join(SCHEMA_DIR, 'events');
+  for (const category of readdirSync(eventDir).sort()) {
+    const categoryPath = join(eventDir, category);
+    if (category === 'custom' || !statSync(categoryPath).isDirectory()) continue;
+
+    for (const file of readdirSync(categoryPath).sort()) {
+      if (!file.endsWith('.schema.json')) continue;
+      if (isSharedObjectSchema(file)) continue;
+
+      const action = basename(file, '.schema.json');
+      const eventName = `${category}.${action.replace(/-/g, '_')}`;
+      const prefixed = `${toPascalCase(category)}${toPascalCase(action)}Data`;
+      const plain = `${toPascalCase(action)}Data`;
+
+      let interfaceName: string;
+      if (existing.has(prefixed)) {
+        interfaceName = prefixed;
+        imports.add(prefixed);
+      } else if (existing.has(plain)) {
+        interfaceName = plain;
+        imports.add(plain);
+      } else {
+        interfaceName = prefixed;
+        const schema = JSON.parse(readFileSync(join(categoryPath, file), 'utf-8'));
+        if (Object.keys(schema.properties ?? {}).length === 0) {
+          generated.push(`/** ${schema.description} */`);
+          generated.push(`export type ${interfaceName} = Record<string, never>;`);
+        } else {
+          generated.push(schemaToInterface(interfaceName, schema));
+        }
+        generated.push('');
+      }
+      entries.push(`  '${eventName}': ${interfaceName};`);
+    }
+  }
+
+  const lines = [
+    '// Auto-generated from JSON schemas. Do not edit manually.',
+    '// Generated by scripts/generate-types.ts',
+    '',
+    'import type {',
+    ...[...imports].sort().map((name) => `  ${name},`),
+    "} from './index.js';",
+    '',
+    '// ---- Data types without a hand-written interface ----',
+    '',
+    ...generated,
+    '// ---- Event map ----',
+    '',
+    '/**',
+    ' * Maps every event name in the ODL taxonomy to the type of its `data`',
+    ' * payload. Register extension events by merging into this interface:',
+    ' *',
+    ' * ```ts',
+    " * declare module '@opendatalayer/types' {",
+    ' *   interface ODLEventMap {',
+    " *     'custom.quiz_completed': { quizId: string; score: number };",
+    ' *   }',
+    ' * }',
+    ' * ```',
+    ' */',
+    'export interface ODLEventMap {',
+    ...entries,
+    '}',
+    '',
+  ];
+
+  writeFileSync(EVENT_MAP_FILE, lines.join('\n'), 'utf-8');
+  console.log(
+    `Event map (${entries.length} events) written to ${relative(process.cwd(), EVENT_MAP_FILE)}`,
+  );
+}
+
 function main() {
   // Ensure output directory exists
   mkdirSync(OUTPUT_DIR, { recursive: true });
@@ -148,7 +261,7 @@ function main() {
       for (const file of readdirSync(categoryPath)) {
         if (!file.endsWith('.schema.json')) continue;
         // Skip shared object schemas (product, promotion, media-object)
-        if (['product', 'promotion', 'media-object'].some((s) => file.startsWith(s))) continue;
+        if (isSharedObjectSchema(file)) continue;
 
         const filePath = join(categoryPath, file);
         try {
@@ -171,6 +284,8 @@ function main() {
   const outputFile = join(OUTPUT_DIR, 'index.ts');
   writeFileSync(outputFile, output, 'utf-8');
   console.log(`\nGenerated types written to ${relative(process.cwd(), outputFile)}`);
+
+  generateEventMap();
   console.log('Done! ✓');
 }
 